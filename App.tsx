@@ -1,19 +1,73 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { FileUploader } from './components/FileUploader';
 import { AnalysisView } from './components/AnalysisView';
-import { UploadedFile, AnalysisGroup, AnalysisSummary, ExtractionResult } from './types';
-import { extractQuestionsFromFile, analyzeRepeatedQuestions } from './services/geminiService';
+import { SettingsPanel } from './components/SettingsPanel';
+import { LibraryPanel } from './components/LibraryPanel';
+import { ExportMenu } from './components/ExportMenu';
+import { UploadedFile, AnalysisGroup, AnalysisSummary, ExtractionResult, AppSettings, AnalysisProgress, AnalysisStage, AnswerLength, PaperBlueprint, SavedAnalysis, SourceFileMeta, Syllabus } from './types';
+import { analyzeRepeatedQuestions, addPapersToAnalysis } from './services/geminiService';
+import { getCachedExtraction } from './services/extractionCache';
+import { extractPapers } from './services/extractionRunner';
+import { LOCAL_EXTRACTOR_ID, LOCAL_EXTRACTOR_VERSION } from './services/localExtraction';
+import { mixedSubjectsWarning } from './services/paperMetadata';
+import { answerLanguage, generateAnswer } from './services/answerService';
+import { createProvider, validateSettings, DEFAULT_MODELS, LLMProvider } from './services/providers';
+import { llmSettings, loadSettings, saveSettings } from './services/settingsService';
+import { parseAnalysisJson } from './services/export';
+import { describeError } from './services/errors';
+import { RunController } from './services/jobQueue';
+import { GroupEdit, reapplyManualEdits } from './services/groupEditing';
+import { classifyGroups, readSyllabusFile } from './services/syllabusService';
+import { generatePracticePaper } from './services/practicePaperService';
 import { APP_TITLE, APP_SUBTITLE } from './constants';
+import { createAnalysisId, defaultAnalysisName, getAnalysis, getLastSessionId, saveAnalysis, setLastSessionId, toSourceFileMeta } from './services/libraryService';
+
+// How long to wait after the last change (e.g. a streamed answer chunk) before saving.
+const AUTOSAVE_DELAY_MS = 800;
+
+// Snapshots kept for undo; each is the full group list before one manual edit.
+const MAX_UNDO_STEPS = 50;
+
+type SavedAnalysisMeta = Pick<SavedAnalysis, 'id' | 'name' | 'createdAt' | 'files'>;
+
+// Status text for each stage; the progress bar averages the stages a run goes through.
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  extraction: 'Extracting questions',
+  matching: 'Matching new questions to existing groups',
+  clustering: 'Grouping similar questions',
+  merging: 'Merging duplicates across batches',
+  classification: 'Placing questions in the syllabus'
+};
+
+const FULL_RUN_STAGES: AnalysisStage[] = ['extraction', 'clustering', 'merging'];
+const REANALYZE_STAGES: AnalysisStage[] = ['clustering', 'merging'];
+const ADD_PAPERS_STAGES: AnalysisStage[] = ['extraction', 'matching', 'clustering', 'merging'];
+
+type StageProgress = Partial<Record<AnalysisStage, { completed: number; total: number }>>;
+
+const stageFraction = (entry?: { completed: number; total: number }) =>
+  !entry ? 0 : entry.total ? entry.completed / entry.total : 1;
 
 export default function App() {
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [currentStatus, setCurrentStatus] = useState<string>('');
+  const [runStages, setRunStages] = useState<AnalysisStage[]>([]);
+  const [stageProgress, setStageProgress] = useState<StageProgress>({});
+  const [isPaused, setIsPaused] = useState(false);
+  const runControllerRef = useRef<RunController | null>(null);
+  const [history, setHistory] = useState<{ past: AnalysisGroup[][]; future: AnalysisGroup[][] }>({ past: [], future: [] });
   const [analysisResults, setAnalysisResults] = useState<AnalysisGroup[] | null>(null);
   const [summary, setSummary] = useState<AnalysisSummary | null>(null);
+  const [extractions, setExtractions] = useState<ExtractionResult[]>([]);
+  const [syllabus, setSyllabus] = useState<Syllabus | undefined>(undefined);
+  const [savedMeta, setSavedMeta] = useState<SavedAnalysisMeta | null>(null);
+  const [isAddingPapers, setIsAddingPapers] = useState(false);
+  const [newFiles, setNewFiles] = useState<UploadedFile[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [darkMode, setDarkMode] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const providerSettings = llmSettings(settings);
 
   // Handle Dark Mode Class on Body/HTML
   useEffect(() => {
@@ -24,14 +78,190 @@ export default function App() {
     }
   }, [darkMode]);
 
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  // A cached extraction only matches one provider/model (or the offline reader), so re-check when they change
+  useEffect(() => {
+    const resetPending = (prev: UploadedFile[]) => prev.map(f => f.status === 'pending' ? { ...f, fromCache: undefined } : f);
+    setFiles(resetPending);
+    setNewFiles(resetPending);
+  }, [settings.provider, settings.model, settings.offline]);
+
+  // Flag newly added papers that can be served from the extraction cache
+  const flagCachedFiles = (list: UploadedFile[], updateFiles: React.Dispatch<React.SetStateAction<UploadedFile[]>>) => {
+    const unchecked = list.filter(f => f.status === 'pending' && f.fromCache === undefined && !f.forceExtract);
+    const providerId = settings.offline ? LOCAL_EXTRACTOR_ID : settings.provider;
+    const model = settings.offline ? LOCAL_EXTRACTOR_VERSION : settings.model || DEFAULT_MODELS[settings.provider];
+    unchecked.forEach(async (fileObj) => {
+      const cached = await getCachedExtraction(fileObj, providerId, model).catch(() => undefined);
+      updateFiles(prev => prev.map(f => f.id === fileObj.id ? { ...f, fromCache: !!cached } : f));
+    });
+  };
+
+  useEffect(() => flagCachedFiles(files, setFiles), [files, settings.provider, settings.model, settings.offline]);
+  useEffect(() => flagCachedFiles(newFiles, setNewFiles), [newFiles, settings.provider, settings.model, settings.offline]);
+
+  // Restore the analysis that was open before the page was reloaded
+  useEffect(() => {
+    const lastId = getLastSessionId();
+    if (!lastId) return;
+    getAnalysis(lastId)
+      .then(analysis => analysis && openAnalysis(analysis))
+      .catch(err => console.error("Failed to restore last session", err));
+  }, []);
+
+  // The open analysis in its persisted shape, used for saving and exporting
+  const currentAnalysis = useMemo<SavedAnalysis | null>(() => {
+    if (!savedMeta || !analysisResults || !summary) return null;
+    return { ...savedMeta, updatedAt: Date.now(), extractions, groups: analysisResults, summary, syllabus };
+  }, [savedMeta, analysisResults, summary, extractions, syllabus]);
+
+  // Keep the library entry in sync with the open analysis (answers, edits...)
+  useEffect(() => {
+    if (!currentAnalysis) return;
+    const timer = setTimeout(() => {
+      saveAnalysis(currentAnalysis).catch(err => console.error("Failed to save analysis", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentAnalysis]);
+
+  const openAnalysis = (analysis: SavedAnalysis) => {
+    setFiles([]);
+    clearHistory();
+    setError(null);
+    setExtractions(analysis.extractions);
+    setAnalysisResults(analysis.groups);
+    setSummary(analysis.summary);
+    setSyllabus(analysis.syllabus);
+    setSavedMeta({ id: analysis.id, name: analysis.name, createdAt: analysis.createdAt, files: analysis.files });
+    setLastSessionId(analysis.id);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const analysis = await saveAnalysis(parseAnalysisJson(await file.text()));
+      openAnalysis(analysis);
+    } catch (err: any) {
+      console.error("Import Error:", err);
+      setError(err.message || "Could not import the analysis.");
+    }
+  };
+
   const handleReset = () => {
     setFiles([]);
+    clearHistory();
     setAnalysisResults(null);
     setSummary(null);
+    setExtractions([]);
+    setSyllabus(undefined);
+    setSavedMeta(null);
+    setLastSessionId(null);
+    setIsAddingPapers(false);
+    setNewFiles([]);
     setError(null);
     setIsProcessing(false);
-    setCurrentStatus('');
-    setProgress(0);
+    runControllerRef.current?.cancel();
+    setStageProgress({});
+  };
+
+  const handleAnalysisProgress = ({ stage, completed, total }: AnalysisProgress) => {
+    setStageProgress(prev => ({ ...prev, [stage]: { completed, total } }));
+  };
+
+  const progress = runStages.length
+    ? Math.round(100 * runStages.reduce((acc, stage) => acc + stageFraction(stageProgress[stage]), 0) / runStages.length)
+    : 0;
+  const activeStage = runStages.find(stage => stageFraction(stageProgress[stage]) < 1);
+
+  const togglePause = () => {
+    const controller = runControllerRef.current;
+    if (!controller) return;
+    if (controller.isPaused) controller.resume();
+    else controller.pause();
+    setIsPaused(controller.isPaused);
+  };
+
+  /**
+   * Extracts questions from the given papers (see `extractPapers`), reporting status through `updateFiles`.
+   */
+  const extractFiles = (
+    targets: UploadedFile[],
+    updateFiles: React.Dispatch<React.SetStateAction<UploadedFile[]>>,
+    provider: LLMProvider | null,
+    controller: RunController
+  ) => {
+    const patch = (id: string, change: Partial<UploadedFile>) =>
+      updateFiles(prev => prev.map(f => f.id === id ? { ...f, ...change } : f));
+
+    return extractPapers(targets, provider, {
+      concurrency: settings.concurrency,
+      controller,
+      onProgress: handleAnalysisProgress,
+      onStart: (paper) => patch(paper.id, { status: 'processing' }),
+      onDone: (paper, extraction, fromCache) => patch(paper.id, {
+        status: 'completed',
+        detectedYear: extraction.year,
+        metadata: extraction.metadata,
+        extractedQuestionsCount: extraction.questions.length,
+        fromCache,
+        forceExtract: false,
+        error: undefined
+      }),
+      onCancel: (paper) => patch(paper.id, { status: 'pending' }),
+      onError: (paper, message) => patch(paper.id, { status: 'error', error: message })
+    });
+  };
+
+  const toFileMeta = (targets: UploadedFile[], results: (ExtractionResult | null)[]) =>
+    targets.map((f, i) => ({
+      ...toSourceFileMeta(f),
+      detectedYear: results[i]?.year,
+      metadata: results[i]?.metadata,
+      extractedQuestionsCount: results[i]?.questions.length
+    }));
+
+  // Grouping papers of different subjects only produces noise, so the user decides before it starts.
+  const confirmSubjects = (extractions: ExtractionResult[]) => {
+    const warning = mixedSubjectsWarning(extractions.map(e => e.metadata));
+    if (warning && !window.confirm(`${warning}\n\nGroup them together anyway?`)) {
+      throw new Error("Analysis stopped: the papers are from different subjects. Remove the papers that do not belong (or correct their subject) and run it again; extracted papers are cached.");
+    }
+  };
+
+  const beginRun = (stages: AnalysisStage[]): RunController => {
+    const controller = new RunController();
+    runControllerRef.current = controller;
+    setIsProcessing(true);
+    setIsPaused(false);
+    setRunStages(stages);
+    setStageProgress({});
+    setError(null);
+    return controller;
+  };
+
+  const startProcessing = (stages: AnalysisStage[]): { provider: LLMProvider; controller: RunController } | null => {
+    const settingsError = validateSettings(providerSettings);
+    if (settingsError) {
+      setError(settingsError);
+      setShowSettings(true);
+      return null;
+    }
+    return { provider: createProvider(providerSettings), controller: beginRun(stages) };
+  };
+
+  // Extraction and grouping can run offline; the null provider tells the services to stay local.
+  const startAnalysis = (stages: AnalysisStage[]): { provider: LLMProvider | null; controller: RunController } | null =>
+    settings.offline ? { provider: null, controller: beginRun(stages) } : startProcessing(stages);
+
+  const finishProcessing = () => {
+    runControllerRef.current = null;
+    setIsProcessing(false);
+    setIsPaused(false);
   };
 
   const processFiles = async () => {
@@ -39,82 +269,259 @@ export default function App() {
       setError("Please upload at least one paper.");
       return;
     }
-    if (!process.env.API_KEY) {
-      setError("API Key is missing.");
-      return;
-    }
+    const run = startAnalysis(FULL_RUN_STAGES);
+    if (!run) return;
+    const { provider, controller } = run;
 
-    setIsProcessing(true);
-    setProgress(0);
-    setError(null);
     setAnalysisResults(null);
-    
-    setCurrentStatus(`Extracting from ${files.length} papers concurrently...`);
+    setSavedMeta(null);
 
     try {
-      let processedCount = 0;
-      
-      // Helper to update progress
-      const updateProgress = () => {
-        processedCount++;
-        const percentage = Math.min(90, Math.round((processedCount / files.length) * 90));
-        setProgress(percentage);
-      };
-
-      // 1. Parallel Extraction
-      const extractionPromises = files.map(async (fileObj) => {
-        setFiles(prev => prev.map(f => f.id === fileObj.id ? { ...f, status: 'processing' } : f));
-        
-        try {
-          const extraction = await extractQuestionsFromFile(fileObj.file);
-          
-          setFiles(prev => prev.map(f => f.id === fileObj.id ? { 
-            ...f, 
-            status: 'completed',
-            detectedYear: extraction.year,
-            extractedQuestionsCount: extraction.questions.length
-          } : f));
-
-          updateProgress();
-          return extraction;
-        } catch (err) {
-          console.error(`Error processing ${fileObj.file.name}:`, err);
-          setFiles(prev => prev.map(f => f.id === fileObj.id ? { ...f, status: 'error' } : f));
-          updateProgress(); 
-          return null;
-        }
-      });
-
-      // Wait for all extractions to finish
-      const results = await Promise.all(extractionPromises);
+      const { results } = await extractFiles(files, setFiles, provider, controller);
       const successfulExtractions = results.filter((r): r is ExtractionResult => r !== null);
 
       if (successfulExtractions.length === 0) {
         throw new Error("No questions could be extracted. Please check your files.");
       }
 
+      confirmSubjects(successfulExtractions);
       const totalQ = successfulExtractions.reduce((acc, val) => acc + val.questions.length, 0);
 
       // 2. Analysis & Grouping
-      setCurrentStatus("Analyzing patterns, merging duplicates, and solving questions...");
-      setProgress(92);
-      
-      const groups = await analyzeRepeatedQuestions(successfulExtractions);
+      const groups = await analyzeRepeatedQuestions(successfulExtractions, provider, {
+        onProgress: handleAnalysisProgress,
+        similarityThreshold: settings.similarityThreshold,
+        controller
+      });
       
-      setProgress(100);
       setAnalysisResults(groups);
+      clearHistory();
       setSummary({
         totalPapers: files.length,
         totalQuestionsExtracted: totalQ,
         totalRepeatedGroups: groups.length
       });
+      setExtractions(successfulExtractions);
+
+      // Save the run to the library straight away; later changes are auto-saved.
+      const fileMeta = toFileMeta(files, results);
+      const id = createAnalysisId();
+      setSavedMeta({ id, name: defaultAnalysisName(fileMeta), createdAt: Date.now(), files: fileMeta });
+      setLastSessionId(id);
 
     } catch (err: any) {
       console.error("Full Process Error:", err);
-      setError(err.message || "An unexpected error occurred.");
+      setError(describeError(err));
+    } finally {
+      finishProcessing();
+    }
+  };
+
+  /**
+   * Extracts only the new papers and folds them into the open analysis.
+   * Papers that failed earlier in this analysis can be passed back in to retry them.
+   */
+  const processNewPapers = async (targets: UploadedFile[] = newFiles) => {
+    if (!analysisResults || !summary) return;
+    if (targets.length === 0) {
+      setError("Please upload at least one paper.");
+      return;
+    }
+    const run = startAnalysis(ADD_PAPERS_STAGES);
+    if (!run) return;
+    const { provider, controller } = run;
+
+    try {
+      const { results, errors } = await extractFiles(targets, setNewFiles, provider, controller);
+      const successfulExtractions = results.filter((r): r is ExtractionResult => r !== null);
+
+      if (successfulExtractions.length === 0) {
+        throw new Error("No questions could be extracted from the new papers.");
+      }
+      confirmSubjects([...extractions, ...successfulExtractions]);
+
+      const groups = await addPapersToAnalysis(analysisResults, successfulExtractions, provider, {
+        onProgress: handleAnalysisProgress,
+        similarityThreshold: settings.similarityThreshold,
+        controller
+      });
+
+      // Retried papers are already listed (and counted) from the run where they failed.
+      const retriedIds = new Set(targets.map(f => f.id));
+      const retried = files.filter(f => retriedIds.has(f.id));
+      const isRetried = (meta: SourceFileMeta) =>
+        retried.some(f => f.file.name === meta.name && f.file.lastModified === meta.lastModified);
+
+      setAnalysisResults(groups);
+      clearHistory();
+      setSummary({
+        totalPapers: summary.totalPapers + targets.length - retried.length,
+        totalQuestionsExtracted: summary.totalQuestionsExtracted + successfulExtractions.reduce((acc, val) => acc + val.questions.length, 0),
+        totalRepeatedGroups: groups.length
+      });
+      setExtractions(prev => [...prev, ...successfulExtractions]);
+      setFiles(prev => [...prev.filter(f => !retriedIds.has(f.id)), ...targets.map((f, i) => ({
+        ...f,
+        status: results[i] ? 'completed' as const : 'error' as const,
+        error: results[i] ? undefined : errors.get(f.id),
+        detectedYear: results[i]?.year,
+        metadata: results[i]?.metadata ?? f.metadata,
+        extractedQuestionsCount: results[i]?.questions.length
+      }))]);
+      setSavedMeta(prev => prev && { ...prev, files: [...prev.files.filter(m => !isRetried(m)), ...toFileMeta(targets, results)] });
+      setNewFiles([]);
+      setIsAddingPapers(false);
+
+    } catch (err: any) {
+      console.error("Add Papers Error:", err);
+      setError(describeError(err));
     } finally {
-      setIsProcessing(false);
-      setCurrentStatus('');
+      finishProcessing();
+    }
+  };
+
+  /**
+   * Regroups the stored extractions from scratch (e.g. after changing the similarity threshold).
+   * Hand-edited groups, approved answers and other existing answers are carried over.
+   */
+  const reanalyze = async () => {
+    if (!analysisResults || extractions.length === 0) return;
+    if (!window.confirm("Regroup all questions with the current settings? Hand-edited groups and groups with approved answers are kept as they are.")) return;
+    const run = startAnalysis(REANALYZE_STAGES);
+    if (!run) return;
+
+    try {
+      const fresh = await analyzeRepeatedQuestions(extractions, run.provider, {
+        onProgress: handleAnalysisProgress,
+        similarityThreshold: settings.similarityThreshold,
+        controller: run.controller
+      });
+      const groups = reapplyManualEdits(fresh, analysisResults);
+      setAnalysisResults(groups);
+      clearHistory();
+      setSummary(prev => prev && { ...prev, totalRepeatedGroups: groups.length });
+    } catch (err: any) {
+      console.error("Re-analysis Error:", err);
+      setError(describeError(err));
+    } finally {
+      finishProcessing();
+    }
+  };
+
+  // Chapter ids only mean something within one syllabus, so a new one clears every assignment.
+  const handleSyllabusChange = (next: Syllabus | undefined) => {
+    setSyllabus(next);
+    setAnalysisResults(prev => prev && prev.map(({ chapterId, topic, ...group }) => group));
+    clearHistory();
+  };
+
+  const handleReadSyllabusFile = (file: File) => {
+    const settingsError = validateSettings(providerSettings);
+    if (settingsError) throw new Error(settingsError);
+    return readSyllabusFile(file, createProvider(providerSettings));
+  };
+
+  /**
+   * Places unplaced groups in the syllabus, or every group again once all are placed.
+   */
+  const classify = async () => {
+    if (!analysisResults || !syllabus) return;
+    const run = startProcessing(['classification']);
+    if (!run) return;
+
+    const unplaced = analysisResults.filter(g => !g.chapterId);
+    try {
+      const classified = await classifyGroups(unplaced.length > 0 ? unplaced : analysisResults, syllabus, run.provider, {
+        onProgress: handleAnalysisProgress,
+        controller: run.controller
+      });
+      const byId = new Map(classified.map(g => [g.id, g]));
+      setAnalysisResults(prev => prev && prev.map(g => byId.get(g.id) ?? g));
+      clearHistory();
+    } catch (err: any) {
+      console.error("Classification Error:", err);
+      setError(describeError(err));
+    } finally {
+      finishProcessing();
+    }
+  };
+
+  // The model is only needed when the blueprint asks for newly written questions.
+  const handleGeneratePracticePaper = (blueprint: PaperBlueprint, seed: number) => {
+    const needsModel = blueprint.sections.some(s => s.freshCount > 0);
+    if (needsModel) {
+      const settingsError = validateSettings(providerSettings);
+      if (settingsError) throw new Error(settingsError);
+    }
+    return generatePracticePaper(analysisResults || [], blueprint, {
+      seed,
+      syllabus,
+      provider: needsModel ? createProvider(providerSettings) : undefined
+    });
+  };
+
+  const clearHistory = () => setHistory({ past: [], future: [] });
+
+  // Applies one manual edit and records the previous state for undo.
+  const handleEdit = (edit: GroupEdit) => {
+    if (!analysisResults) return;
+    const next = edit(analysisResults);
+    if (next === analysisResults) return;
+    setHistory(prev => ({ past: [...prev.past, analysisResults].slice(-MAX_UNDO_STEPS), future: [] }));
+    setAnalysisResults(next);
+    setSummary(prev => prev && { ...prev, totalRepeatedGroups: next.length });
+  };
+
+  const restoreFromHistory = (direction: 'undo' | 'redo') => {
+    if (!analysisResults) return;
+    const source = direction === 'undo' ? history.past : history.future;
+    const target = source[source.length - 1];
+    if (!target) return;
+    setHistory(prev => direction === 'undo'
+      ? { past: prev.past.slice(0, -1), future: [...prev.future, analysisResults] }
+      : { past: [...prev.past, analysisResults], future: prev.future.slice(0, -1) });
+    setAnalysisResults(target);
+    setSummary(prev => prev && { ...prev, totalRepeatedGroups: target.length });
+  };
+
+  const failedFiles = files.filter(f => f.status === 'error');
+
+  const retryFailedPapers = (targets: UploadedFile[]) =>
+    processNewPapers(targets.map(f => ({ ...f, status: 'pending', error: undefined })));
+
+  // Streams a (re)generated answer straight into the matching group. It counts as one edit for undo,
+  // and a failed run puts the previous answer back.
+  const handleGenerateAnswer = async (groupId: string, length: AnswerLength) => {
+    const group = analysisResults?.find(g => g.id === groupId);
+    if (!analysisResults || !group) return;
+    const settingsError = validateSettings(providerSettings);
+    if (settingsError) throw new Error(settingsError);
+    if (group.answerApproved && !window.confirm("This answer has been approved. Replace it with a newly generated one?")) return;
+
+    // A new answer has not been checked by anyone yet.
+    const language = answerLanguage(group, settings.answerLanguage);
+    const setAnswer = (patch: Pick<AnalysisGroup, 'answer' | 'answerLanguage' | 'answerApproved'>) => setAnalysisResults(prev =>
+      prev && prev.map(g => g.id === groupId ? { ...g, ...patch } : g)
+    );
+
+    const before = analysisResults;
+    setHistory(prev => ({ past: [...prev.past, before].slice(-MAX_UNDO_STEPS), future: [] }));
+    let streamed = '';
+    setAnswer({ answer: streamed, answerLanguage: language, answerApproved: false });
+    try {
+      const answer = await generateAnswer(group, createProvider(providerSettings), {
+        length,
+        language,
+        onChunk: (chunk) => {
+          streamed += chunk;
+          setAnswer({ answer: streamed, answerLanguage: language, answerApproved: false });
+        }
+      });
+      setAnswer({ answer, answerLanguage: language, answerApproved: false });
+    } catch (err) {
+      setAnswer({ answer: group.answer, answerLanguage: group.answerLanguage, answerApproved: group.answerApproved });
+      setHistory(prev => ({ ...prev, past: prev.past.filter(state => state !== before) }));
+      throw err;
     }
   };
 
@@ -132,6 +539,14 @@ export default function App() {
           </div>
           
           <div className="flex items-center gap-6">
+            <button 
+              onClick={() => setShowSettings(!showSettings)} 
+              className="text-gray-400 hover:text-black dark:text-gray-500 dark:hover:text-white transition-colors focus:outline-none"
+              aria-label="Model Settings"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>
+            </button>
+
             <button 
               onClick={() => setDarkMode(!darkMode)} 
               className="text-gray-400 hover:text-black dark:text-gray-500 dark:hover:text-white transition-colors focus:outline-none"
@@ -144,6 +559,29 @@ export default function App() {
               )}
             </button>
 
+            {currentAnalysis && !isProcessing && (
+              <ExportMenu analysis={currentAnalysis} />
+            )}
+
+            {analysisResults && !isAddingPapers && !isProcessing && (
+               <button 
+               onClick={() => setIsAddingPapers(true)}
+               className="text-sm font-medium text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors"
+             >
+               Add Papers
+             </button>
+            )}
+
+            {analysisResults && extractions.length > 0 && !isAddingPapers && !isProcessing && (
+               <button 
+               onClick={reanalyze}
+               className="text-sm font-medium text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors"
+               title="Regroup the extracted questions with the current settings"
+             >
+               Re-analyze
+             </button>
+            )}
+
             {analysisResults && (
                <button 
                onClick={handleReset}
@@ -154,6 +592,13 @@ export default function App() {
             )}
           </div>
         </div>
+        {showSettings && (
+          <SettingsPanel 
+            settings={settings} 
+            onChange={setSettings} 
+            onClose={() => setShowSettings(false)} 
+          />
+        )}
       </header>
 
       <main className="max-w-4xl mx-auto px-6 py-12">
@@ -193,6 +638,15 @@ export default function App() {
                 {files.length > 0 ? `Analyze ${files.length} Papers` : 'Upload Papers to Start'}
               </button>
             </div>
+
+            <div className="flex justify-center -mt-4">
+              <label className="text-sm font-medium text-gray-400 hover:text-black dark:text-gray-500 dark:hover:text-white transition-colors cursor-pointer">
+                or import a JSON export
+                <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+              </label>
+            </div>
+
+            <LibraryPanel onOpen={openAnalysis} />
           </div>
         )}
 
@@ -202,7 +656,11 @@ export default function App() {
             <div className="w-full max-w-md space-y-6">
               <div className="flex flex-col items-center space-y-2">
                  <h3 className="text-xl font-medium text-black dark:text-white">Processing Intelligence</h3>
-                 <p className="text-sm text-gray-500 dark:text-gray-400">{currentStatus}</p>
+                 <p className="text-sm text-gray-500 dark:text-gray-400">
+                   {isPaused
+                     ? 'Paused. Requests already sent will finish; nothing new starts.'
+                     : activeStage ? `${STAGE_LABELS[activeStage]}...` : 'Finishing up...'}
+                 </p>
               </div>
               
               <div className="w-full bg-gray-100 dark:bg-neutral-800 rounded-full h-1.5 overflow-hidden">
@@ -217,13 +675,129 @@ export default function App() {
                 <span>{progress}%</span>
                 <span>Complete</span>
               </div>
+
+              <ul className="space-y-1.5 text-xs">
+                {runStages.map(stage => {
+                  const entry = stageProgress[stage];
+                  return (
+                    <li key={stage} className={`flex justify-between ${stage === activeStage ? 'text-black dark:text-white font-medium' : 'text-gray-400 dark:text-gray-500'}`}>
+                      <span>{STAGE_LABELS[stage]}</span>
+                      <span className="font-mono">
+                        {!entry ? 'Waiting' : entry.total === 0 ? 'Skipped' : `${entry.completed}/${entry.total}`}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              <div className="flex justify-center gap-6 pt-2">
+                <button 
+                  onClick={togglePause}
+                  className="text-sm font-medium text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors"
+                >
+                  {isPaused ? 'Resume' : 'Pause'}
+                </button>
+                <button 
+                  onClick={() => runControllerRef.current?.cancel()}
+                  className="text-sm font-medium text-gray-500 hover:text-red-500 dark:text-gray-400 dark:hover:text-red-400 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Add Papers State */}
+        {analysisResults && isAddingPapers && !isProcessing && (
+          <div className="animate-fade-in space-y-8 mb-16 pb-16 border-b border-gray-100 dark:border-neutral-800">
+            <div className="text-center space-y-2">
+              <h3 className="text-xl font-bold text-black dark:text-white">Add papers to this analysis</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">Only the new papers are extracted. Existing groups, answers and edits are kept.</p>
+            </div>
+
+            <FileUploader 
+              files={newFiles} 
+              setFiles={setNewFiles} 
+              disabled={isProcessing} 
+            />
+
+            {error && (
+              <div className="p-4 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm rounded-lg border border-red-100 dark:border-red-900/30 flex items-center justify-center gap-2">
+                 {error}
+              </div>
+            )}
+
+            <div className="flex justify-center gap-4">
+              <button 
+                onClick={() => { setIsAddingPapers(false); setNewFiles([]); setError(null); }}
+                className="px-6 py-3 rounded-full font-semibold text-sm text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button 
+                onClick={() => processNewPapers()}
+                disabled={newFiles.length === 0}
+                className={`px-8 py-3 rounded-full font-semibold text-sm transition-all
+                  ${newFiles.length > 0 
+                    ? 'bg-black text-white hover:bg-gray-800 dark:bg-white dark:text-black dark:hover:bg-gray-200' 
+                    : 'bg-gray-100 text-gray-400 dark:bg-neutral-800 dark:text-neutral-600 cursor-not-allowed'}`}
+              >
+                {newFiles.length > 0 ? `Add ${newFiles.length} Papers` : 'Upload Papers to Add'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {analysisResults && !isAddingPapers && !isProcessing && error && failedFiles.length === 0 && (
+          <div className="mb-10 p-4 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm rounded-lg border border-red-100 dark:border-red-900/30 flex items-center justify-center gap-2">
+            {error}
+          </div>
+        )}
+
+        {/* Papers that could not be read in this analysis */}
+        {analysisResults && !isAddingPapers && !isProcessing && failedFiles.length > 0 && (
+          <div className="mb-10 p-4 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm rounded-lg border border-red-100 dark:border-red-900/30 space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <p className="font-medium">{failedFiles.length} {failedFiles.length === 1 ? 'paper' : 'papers'} could not be read</p>
+              <button onClick={() => retryFailedPapers(failedFiles)} className="text-xs font-semibold uppercase tracking-wider hover:text-red-800 dark:hover:text-red-200 transition-colors">
+                Retry all
+              </button>
             </div>
+            <ul className="text-xs space-y-1">
+              {failedFiles.map(f => (
+                <li key={f.id} className="flex items-start justify-between gap-4">
+                  <span><span className="font-medium">{f.file.name}</span>{f.error ? ` — ${f.error}` : ''}</span>
+                  <button onClick={() => retryFailedPapers([f])} className="flex-shrink-0 font-semibold hover:text-red-800 dark:hover:text-red-200 transition-colors">
+                    Retry
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {error && <p className="text-xs font-medium">{error}</p>}
           </div>
         )}
 
         {/* Results State */}
-        {analysisResults && summary && (
-          <AnalysisView results={analysisResults} summary={summary} />
+        {analysisResults && summary && !isProcessing && (
+          <AnalysisView 
+            key={savedMeta?.id}
+            analysisId={savedMeta?.id}
+            results={analysisResults} 
+            summary={summary} 
+            files={files} 
+            onGenerateAnswer={handleGenerateAnswer} 
+            onEdit={handleEdit}
+            onUndo={() => restoreFromHistory('undo')}
+            onRedo={() => restoreFromHistory('redo')}
+            canUndo={history.past.length > 0}
+            canRedo={history.future.length > 0}
+            syllabus={syllabus}
+            onSyllabusChange={handleSyllabusChange}
+            onReadSyllabusFile={handleReadSyllabusFile}
+            onClassify={classify}
+            onGeneratePracticePaper={handleGeneratePracticePaper}
+          />
         )}
 
       </main>
@@ -0,0 +1,106 @@
+import { AnalysisGroup, ExtractionResult, SavedAnalysis, SourceFileMeta, UploadedFile } from "../types";
+import { analyzeRepeatedQuestions } from "../services/geminiService";
+import { extractPapers, ExtractPapersOptions } from "../services/extractionRunner";
+import { detectPaperMetadata, mixedSubjectsWarning } from "../services/paperMetadata";
+import { LLMProvider } from "../services/providers";
+import { createAnalysisId, defaultAnalysisName, toSourceFileMeta } from "../services/libraryService";
+import { toAnkiCsv } from "../services/export/anki";
+import { toCsv } from "../services/export/csv";
+import { toDocx } from "../services/export/docx";
+import { toJson } from "../services/export/json";
+import { toMarkdown } from "../services/export/markdown";
+
+export type ReportFormat = 'json' | 'md' | 'csv' | 'anki' | 'docx';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'md', 'csv', 'anki', 'docx'];
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  json: 'application/json',
+  md: 'text/markdown; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  anki: 'text/csv; charset=utf-8',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+export const renderReport = (analysis: SavedAnalysis, format: ReportFormat): string | Uint8Array => {
+  switch (format) {
+    case 'json': return toJson(analysis);
+    case 'md': return toMarkdown(analysis);
+    case 'csv': return toCsv(analysis);
+    case 'anki': return toAnkiCsv(analysis);
+    case 'docx': return toDocx(analysis);
+  }
+};
+
+/** A paper read outside the browser, with what its file name and first page say about it. */
+export const toPaper = async (id: string, file: File, forceExtract?: boolean): Promise<UploadedFile> => ({
+  id,
+  file,
+  status: 'pending',
+  forceExtract,
+  detectedMetadata: await detectPaperMetadata({ file })
+});
+
+export interface RunAnalysisOptions extends ExtractPapersOptions {
+  similarityThreshold: number;
+  allowMixedSubjects?: boolean;
+  name?: string;
+  onWarning?: (message: string) => void;
+}
+
+/**
+ * The whole pipeline, as the web app runs it: extract every paper, check they are one subject,
+ * group the questions and wrap everything up as a saved analysis. Papers that fail are left out of
+ * the analysis and reported in `errors`; it rejects when none could be read, when the papers name
+ * different subjects (unless allowed), or with CancelledError.
+ */
+export const runAnalysis = async (
+  papers: UploadedFile[],
+  provider: LLMProvider | null,
+  { similarityThreshold, allowMixedSubjects, name, onProgress, onWarning, controller, ...extractOptions }: RunAnalysisOptions
+): Promise<{ analysis: SavedAnalysis; errors: Map<string, string> }> => {
+  // A paper read lazily only has its size once loaded; its contents are not kept.
+  const loadedFiles = new Map<string, SourceFileMeta>();
+  const { loadPaper: load } = extractOptions;
+  const loadPaper = load && (async (paper: UploadedFile) => {
+    const loaded = await load(paper);
+    loadedFiles.set(paper.id, toSourceFileMeta(loaded));
+    return loaded;
+  });
+  const { results, errors } = await extractPapers(papers, provider, { ...extractOptions, loadPaper, controller, onProgress });
+  const extractions = results.filter((r): r is ExtractionResult => r !== null);
+  if (extractions.length === 0) throw new Error("No questions could be extracted. Please check your files.");
+
+  const subjectWarning = mixedSubjectsWarning(extractions.map(e => e.metadata));
+  if (subjectWarning && !allowMixedSubjects) throw new Error(`${subjectWarning} Analyze each subject separately.`);
+  if (subjectWarning) onWarning?.(subjectWarning);
+
+  const groups: AnalysisGroup[] = await analyzeRepeatedQuestions(extractions, provider, {
+    onProgress,
+    similarityThreshold,
+    controller
+  });
+
+  const files = papers.map((paper, i) => ({
+    ...(loadedFiles.get(paper.id) ?? toSourceFileMeta(paper)),
+    detectedYear: results[i]?.year,
+    metadata: results[i]?.metadata,
+    extractedQuestionsCount: results[i]?.questions.length
+  }));
+  const now = Date.now();
+  const analysis: SavedAnalysis = {
+    id: createAnalysisId(),
+    name: name ?? defaultAnalysisName(files),
+    createdAt: now,
+    updatedAt: now,
+    files,
+    extractions,
+    groups,
+    summary: {
+      totalPapers: papers.length,
+      totalQuestionsExtracted: extractions.reduce((acc, e) => acc + e.questions.length, 0),
+      totalRepeatedGroups: groups.length
+    }
+  };
+  return { analysis, errors };
+};
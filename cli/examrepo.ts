@@ -0,0 +1,278 @@
+import { randomBytes } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { extname, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { LLMSettings, ProviderId, UploadedFile } from "../types";
+import { setExtractionStore } from "../services/extractionCache";
+import { releaseOcrWorker } from "../services/localExtraction";
+import { setPlatform } from "../services/platform";
+import { setDiagnostics } from "../services/diagnostics";
+import { createProvider, DEFAULT_BASE_URL, DEFAULT_MODELS, LLMProvider, parseFixtures, validateSettings } from "../services/providers";
+import { DEFAULT_SIMILARITY_THRESHOLD } from "../services/similarityService";
+import { DEFAULT_CONCURRENCY, MAX_CONCURRENCY, RunController } from "../services/jobQueue";
+import { describeError } from "../services/errors";
+import { REPORT_FORMATS, ReportFormat, renderReport, runAnalysis, toPaper } from "./analysis";
+import { expandInputs, PaperInput, paperMimeType, readPaperFile } from "./inputs";
+import { folderExtractionStore, localOcrAssets, memoryExtractionStore, nodePlatform } from "./nodePlatform";
+import { createApiServer } from "./server";
+
+const PROVIDERS: ProviderId[] = ['gemini', 'openai', 'mock'];
+const DEFAULT_CACHE_DIR = '.examrepo-cache';
+const DEFAULT_PORT = 8787;
+// Only this machine can reach the server unless --host says otherwise.
+const DEFAULT_HOST = '127.0.0.1';
+// PDF.js VerbosityLevel.ERRORS; its warnings about fonts and malformed objects are noise without --verbose.
+const PDF_ERRORS_ONLY = 0;
+
+// Exit codes a scheduler can act on.
+const EXIT_OK = 0;
+const EXIT_FAILED = 1; // a paper or the analysis failed; the report (if any) is incomplete
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: examrepo analyze <files, folders or "globs"...> [options]
+       examrepo serve [options]
+
+analyze  Finds repeated questions across exam papers (PDF, PNG, JPG or TXT) and writes a report.
+serve    Runs the same analysis as a local HTTP API (see GET /openapi.json).
+
+Options:
+  -p, --provider <id>       ${PROVIDERS.join(', ')} (default: gemini)
+  -m, --model <name>        Model to use (default: the provider's default)
+      --base-url <url>      Endpoint of an OpenAI-compatible provider
+      --fixtures <file>     JSON of recorded responses for the mock provider, by fixture key or task
+      --offline             Read papers locally (text layer and OCR) and group by similarity only
+      --threshold <0-1>     Similarity at which questions are proposed as duplicates (default: ${DEFAULT_SIMILARITY_THRESHOLD})
+  -c, --concurrency <n>     Papers extracted at the same time, 1-${MAX_CONCURRENCY} (default: ${DEFAULT_CONCURRENCY})
+      --cache-dir <dir>     Where extractions are cached (default: ${DEFAULT_CACHE_DIR})
+      --no-cache            Neither read nor write cached extractions
+      --verbose             Also print the underlying errors and PDF warnings
+  -h, --help                Show this help
+
+analyze options:
+  -o, --out <file>          Write the report to a file (default: standard output)
+  -f, --format <format>     ${REPORT_FORMATS.join(', ')} (default: from --out, else json)
+      --force               Extract every paper again and refresh the cache
+      --name <name>         Name of the analysis in the report
+      --allow-mixed-subjects  Group papers even when they name different subjects
+
+serve options:
+      --port <n>            Port to listen on (default: ${DEFAULT_PORT})
+      --host <address>      Address to listen on (default: ${DEFAULT_HOST}, this machine only)
+      --api-key <key>       Key clients send in the X-API-Key header (default: EXAMREPO_API_KEY, else a random key)
+
+API keys are read from GEMINI_API_KEY (or API_KEY) and OPENAI_API_KEY.
+Exit status: 0 on success, 1 if any paper or the analysis failed, 2 for bad arguments.`;
+
+class UsageError extends Error {}
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const API_KEY_VARIABLES: Record<ProviderId, string[]> = {
+  gemini: ['GEMINI_API_KEY', 'API_KEY'],
+  openai: ['OPENAI_API_KEY'],
+  mock: []
+};
+
+const OPTIONS = {
+  provider: { type: 'string', short: 'p' },
+  model: { type: 'string', short: 'm' },
+  'base-url': { type: 'string' },
+  fixtures: { type: 'string' },
+  offline: { type: 'boolean' },
+  threshold: { type: 'string' },
+  concurrency: { type: 'string', short: 'c' },
+  'cache-dir': { type: 'string' },
+  'no-cache': { type: 'boolean' },
+  verbose: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  out: { type: 'string', short: 'o' },
+  format: { type: 'string', short: 'f' },
+  force: { type: 'boolean' },
+  name: { type: 'string' },
+  'allow-mixed-subjects': { type: 'boolean' },
+  port: { type: 'string' },
+  host: { type: 'string' },
+  'api-key': { type: 'string' }
+} as const;
+
+type Options = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+const parseNumber = (value: string | undefined, flag: string, min: number, max: number): number | undefined => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new UsageError(`--${flag} must be a number from ${min} to ${max}.`);
+  }
+  return number;
+};
+
+const reportFormat = (format: string | undefined, out: string | undefined): ReportFormat => {
+  const chosen = format ?? (out ? extname(out).slice(1).toLowerCase() : 'json');
+  if (!REPORT_FORMATS.includes(chosen as ReportFormat)) {
+    throw new UsageError(format
+      ? `Unknown format "${format}". Use one of: ${REPORT_FORMATS.join(', ')}.`
+      : `Cannot tell the format from "${out}"; pass --format.`);
+  }
+  return chosen as ReportFormat;
+};
+
+const readFixtures = (path: string, providerId: ProviderId) => {
+  if (providerId !== 'mock') throw new UsageError('--fixtures only applies to the mock provider (-p mock).');
+  let text: string;
+  try {
+    text = readFileSync(resolve(path), 'utf8');
+  } catch (err) {
+    throw new UsageError(`Cannot read the fixture file: ${describeError(err)}`);
+  }
+  try {
+    return parseFixtures(text);
+  } catch (err) {
+    throw new UsageError(`${path}: ${describeError(err)}`);
+  }
+};
+
+/** What both commands share: the provider (null offline), the pipeline settings and the Node adapters. */
+const setUp = (values: Options) => {
+  const similarityThreshold = parseNumber(values.threshold, 'threshold', 0, 1) ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const concurrency = parseNumber(values.concurrency, 'concurrency', 1, MAX_CONCURRENCY) ?? DEFAULT_CONCURRENCY;
+
+  const providerId = (values.provider ?? 'gemini') as ProviderId;
+  if (!PROVIDERS.includes(providerId)) throw new UsageError(`Unknown provider "${values.provider}". Use one of: ${PROVIDERS.join(', ')}.`);
+  const settings: LLMSettings = {
+    provider: providerId,
+    model: values.model ?? DEFAULT_MODELS[providerId],
+    apiKey: API_KEY_VARIABLES[providerId].map(name => process.env[name]).find(Boolean) ?? '',
+    baseUrl: values['base-url'] ?? DEFAULT_BASE_URL,
+    fixtures: values.fixtures === undefined ? undefined : readFixtures(values.fixtures, providerId)
+  };
+  const settingsError = values.offline ? null : validateSettings(settings);
+  if (settingsError) {
+    throw new UsageError(`${settingsError} Set ${API_KEY_VARIABLES[providerId].join(' or ')}, or use --offline.`);
+  }
+  // OCR reads its language model from disk; a missing one fails here, not on the first scan of a served job.
+  if (values.offline) localOcrAssets();
+
+  // The one-line summaries are enough; --verbose adds what the services recovered from, with stacks.
+  setDiagnostics(values.verbose ? (_level, message, detail) => log(detail === undefined ? message : `${message} ${describeDetail(detail)}`) : () => undefined);
+  setPlatform(values.verbose ? nodePlatform : { ...nodePlatform, pdfVerbosity: PDF_ERRORS_ONLY });
+  setExtractionStore(values['no-cache'] ? memoryExtractionStore() : folderExtractionStore(resolve(values['cache-dir'] ?? DEFAULT_CACHE_DIR)));
+
+  const provider: LLMProvider | null = values.offline ? null : createProvider(settings);
+  return { provider, similarityThreshold, concurrency };
+};
+
+const describeDetail = (detail: unknown) => detail instanceof Error ? detail.stack ?? detail.message : String(detail);
+
+const describeProvider = (provider: LLMProvider | null) => provider ? `with ${provider.id} (${provider.model})` : 'offline';
+
+const analyze = async (values: Options, inputs: string[]): Promise<number> => {
+  if (inputs.length === 0) throw new UsageError('Give at least one paper, folder or glob to analyze.');
+  const format = reportFormat(values.format, values.out);
+  if (format === 'docx' && !values.out) throw new UsageError('A .docx report needs --out.');
+  const { provider, similarityThreshold, concurrency } = setUp(values);
+
+  let found: PaperInput[];
+  try {
+    found = await expandInputs(inputs);
+  } catch (err) {
+    throw new UsageError(describeError(err));
+  }
+  // Only names until a paper's turn comes; loadPaper reads it then.
+  const papers: UploadedFile[] = found.map(({ name }, i) => ({
+    id: String(i + 1),
+    file: new File([], name, { type: paperMimeType(name) }),
+    status: 'pending'
+  }));
+  const loadPaper = async (paper: UploadedFile) =>
+    toPaper(paper.id, await readPaperFile(found[Number(paper.id) - 1]), values.force);
+
+  const controller = new RunController();
+  process.once('SIGINT', () => {
+    log('Cancelling...');
+    controller.cancel();
+  });
+
+  log(`Analyzing ${papers.length} ${papers.length === 1 ? 'paper' : 'papers'} ${describeProvider(provider)}`);
+  const { analysis, errors } = await runAnalysis(papers, provider, {
+    concurrency,
+    controller,
+    similarityThreshold,
+    loadPaper,
+    allowMixedSubjects: values['allow-mixed-subjects'],
+    name: values.name,
+    onProgress: ({ stage, completed, total }) => stage !== 'extraction' && total > 0 && log(`  ${stage} ${completed}/${total}`),
+    onDone: (paper, extraction, fromCache) =>
+      log(`  ok    ${paper.file.name}: ${extraction.questions.length} questions, ${extraction.year}${fromCache ? ' (cached)' : ''}`),
+    onError: (paper, message) => log(`  FAIL  ${paper.file.name}: ${message}`),
+    onWarning: log
+  });
+
+  const report = renderReport(analysis, format);
+  if (values.out) {
+    await writeFile(values.out, report);
+    log(`Wrote ${format} report to ${values.out}`);
+  } else {
+    process.stdout.write(report);
+    if (typeof report === 'string' && !report.endsWith('\n')) process.stdout.write('\n');
+  }
+
+  const repeated = analysis.groups.filter(g => g.frequency > 1).length;
+  log(`${analysis.groups.length} question groups, ${repeated} repeated; ${errors.size} of ${papers.length} papers failed.`);
+  return errors.size > 0 ? EXIT_FAILED : EXIT_OK;
+};
+
+const serve = async (values: Options): Promise<number> => {
+  const port = parseNumber(values.port, 'port', 0, 65535) ?? DEFAULT_PORT;
+  const host = values.host ?? DEFAULT_HOST;
+  const { provider, similarityThreshold, concurrency } = setUp(values);
+  let apiKey = values['api-key'] ?? process.env.EXAMREPO_API_KEY;
+  if (!apiKey) {
+    apiKey = randomBytes(24).toString('base64url');
+    log(`No API key given; clients must send this one in the X-API-Key header:\n  ${apiKey}`);
+  }
+
+  const server = createApiServer({ provider, apiKey, concurrency, similarityThreshold, log });
+  await new Promise<void>((done, fail) => {
+    server.once('error', fail);
+    server.listen(port, host, done);
+  });
+  log(`Listening on http://${host}:${port} ${describeProvider(provider)}; API description at /openapi.json`);
+
+  await new Promise<void>(done => {
+    const stop = () => {
+      log('Stopping...');
+      server.close(() => done());
+      server.closeAllConnections();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+  return EXIT_OK;
+};
+
+const main = async (args: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({ args, options: OPTIONS, allowPositionals: true });
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_OK;
+  }
+  const [command, ...rest] = positionals;
+  if (command === 'analyze') return analyze(values, rest);
+  if (command === 'serve') return serve(values);
+  throw new UsageError(command ? `Unknown command "${command}".` : 'No command given.');
+};
+
+main(process.argv.slice(2))
+  .catch((err) => {
+    if (err instanceof UsageError || err?.code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION') {
+      log(`${err.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    log(`Error: ${describeError(err)}`);
+    return EXIT_FAILED;
+  })
+  .then(async (code) => {
+    await releaseOcrWorker().catch(() => undefined);
+    process.exitCode = code;
+  });
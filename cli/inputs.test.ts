@@ -0,0 +1,74 @@
+import { mkdir, mkdtemp, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, relative } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { expandInputs, readPaperFile } from './inputs';
+
+describe('expandInputs', () => {
+  let dir: string;
+  const names = async (...inputs: string[]) => (await expandInputs(inputs)).map(paper => paper.name);
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'examrepo-inputs-'));
+    for (const path of ['2019/physics.pdf', '2020/physics.pdf', '2020/notes.docx', '2021/scan.PNG', '2021/answers.txt', '.drafts/old.pdf']) {
+      await mkdir(join(dir, path, '..'), { recursive: true });
+      await writeFile(join(dir, path), path);
+    }
+  });
+
+  afterAll(() => rm(dir, { recursive: true, force: true }));
+
+  it('finds the papers under a folder, skipping hidden folders, named by their path in it', async () => {
+    expect(await expandInputs([dir])).toEqual([
+      { path: join(dir, '2019/physics.pdf'), name: '2019/physics.pdf' },
+      { path: join(dir, '2020/physics.pdf'), name: '2020/physics.pdf' },
+      { path: join(dir, '2021/answers.txt'), name: '2021/answers.txt' },
+      { path: join(dir, '2021/scan.PNG'), name: '2021/scan.PNG' }
+    ]);
+  });
+
+  it('matches globs below their first wildcard', async () => {
+    expect(await names(join(dir, '*/physics.pdf'))).toEqual(['2019/physics.pdf', '2020/physics.pdf']);
+    expect(await names(join(dir, '**/*.{txt,PNG}'))).toEqual(['2021/answers.txt', '2021/scan.PNG']);
+    expect(await names(join(dir, '20[12]?/*'))).toEqual(['2019/physics.pdf', '2020/physics.pdf', '2021/answers.txt', '2021/scan.PNG']);
+  });
+
+  it('names a single file by itself and lists a paper found twice once', async () => {
+    expect(await names(join(dir, '2021/answers.txt'), join(dir, '2021'))).toEqual(['answers.txt', 'scan.PNG']);
+  });
+
+  it('tells same-named papers from different inputs apart by their path from the working directory', async () => {
+    const papers = [join(dir, '2019/physics.pdf'), join(dir, '2020/physics.pdf')];
+    expect(await names(...papers)).toEqual(papers.map(path => relative(process.cwd(), path).split('\\').join('/')));
+  });
+
+  it('rejects inputs that match no paper', async () => {
+    await expect(expandInputs([join(dir, '*/*.doc')])).rejects.toThrow(/^No papers match /);
+    await expect(expandInputs([join(dir, 'missing.pdf')])).rejects.toThrow(/^No such file or folder: /);
+    await expect(expandInputs([join(dir, '2020/notes.docx')])).rejects.toThrow(/^Not a supported paper \(PDF, PNG, JPG or TXT\): /);
+  });
+
+  it('rejects a folder without papers', async () => {
+    const empty = join(dir, 'empty');
+    await mkdir(join(empty, '.hidden'), { recursive: true });
+    await writeFile(join(empty, '.hidden/x.pdf'), '');
+    await expect(expandInputs([empty])).rejects.toThrow(`No papers (PDF, images or text) in ${empty}`);
+    await rm(empty, { recursive: true });
+  });
+});
+
+describe('readPaperFile', () => {
+  it('reads a paper as a File with its name, type and modification time', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'examrepo-inputs-'));
+    const path = join(dir, 'scan.JPG');
+    await writeFile(path, 'bytes');
+    await utimes(path, new Date(2021, 2, 1), new Date(2021, 2, 1));
+
+    const file = await readPaperFile({ path, name: '2021/scan.JPG' });
+    expect(file.name).toBe('2021/scan.JPG');
+    expect(file.type).toBe('image/jpeg');
+    expect(file.lastModified).toBe(new Date(2021, 2, 1).getTime());
+    expect(await file.text()).toBe('bytes');
+    await rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,123 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import { dirname, extname, join, relative, resolve, sep } from "node:path";
+
+// The same kinds of file the web uploader accepts.
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.txt': 'text/plain'
+};
+
+const GLOB_CHARS = /[*?{[]/;
+
+export const isSupportedPaper = (path: string) => extname(path).toLowerCase() in MIME_TYPES;
+
+/** The type the services recognise a paper by; uploads often arrive without one. */
+export const paperMimeType = (name: string): string | undefined => MIME_TYPES[extname(name).toLowerCase()];
+
+/**
+ * A glob as a regular expression over '/'-separated relative paths:
+ * `*` and `?` stay within one folder, `**` spans folders and `{a,b}` matches either.
+ */
+const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (pattern.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (pattern.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') source += '[^/]*';
+    else if (char === '?') source += '[^/]';
+    else if (char === '{') {
+      source += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      source += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) source += '|';
+    else if (char === '[' && pattern.indexOf(']', i) > i) {
+      const end = pattern.indexOf(']', i);
+      source += pattern.slice(i, end + 1);
+      i = end;
+    } else source += char.replace(/[.+^$()|\\[\]{}]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`, process.platform === 'win32' ? 'i' : '');
+};
+
+const walk = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(entries.map(entry => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name.startsWith('.') ? [] : walk(path);
+    return entry.isFile() ? [path] : [];
+  }));
+  return nested.flat();
+};
+
+/** A paper found on disk, and the name it is reported under. */
+export interface PaperInput {
+  path: string;
+  name: string; // relative to the folder or glob it was found under, so same-named papers stay apart
+}
+
+const toPosix = (path: string) => path.split(sep).join('/');
+
+/**
+ * Expands the command-line inputs into paper files: files as given, every supported file under
+ * a folder (recursively), and glob patterns (quoted, so the shell leaves them alone).
+ * Rejects when an input matches nothing.
+ */
+export const expandInputs = async (inputs: string[]): Promise<PaperInput[]> => {
+  const found = new Map<string, string>();
+  const add = (path: string, root: string) => {
+    if (!found.has(path)) found.set(path, toPosix(relative(root, path)));
+  };
+  for (const input of inputs) {
+    const normalized = toPosix(input);
+    if (GLOB_CHARS.test(normalized)) {
+      const segments = normalized.split('/');
+      const firstGlob = segments.findIndex(segment => GLOB_CHARS.test(segment));
+      const root = resolve(segments.slice(0, firstGlob).join('/') || '.');
+      const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+      const matches = (await walk(root).catch(() => [] as string[]))
+        .filter(path => matcher.test(toPosix(relative(root, path))) && isSupportedPaper(path));
+      if (matches.length === 0) throw new Error(`No papers match ${input}`);
+      matches.forEach(path => add(path, root));
+      continue;
+    }
+
+    const path = resolve(input);
+    const info = await stat(path).catch(() => null);
+    if (!info) throw new Error(`No such file or folder: ${input}`);
+    if (info.isDirectory()) {
+      const papers = (await walk(path)).filter(isSupportedPaper);
+      if (papers.length === 0) throw new Error(`No papers (PDF, images or text) in ${input}`);
+      papers.forEach(paper => add(paper, path));
+    } else if (isSupportedPaper(path)) {
+      add(path, dirname(path));
+    } else {
+      throw new Error(`Not a supported paper (PDF, PNG, JPG or TXT): ${input}`);
+    }
+  }
+
+  // Papers from different inputs can still share a name; those are told apart by their path from here.
+  const counts = new Map<string, number>();
+  found.forEach(name => counts.set(name, (counts.get(name) ?? 0) + 1));
+  return Array.from(found, ([path, name]) => ({ path, name: counts.get(name)! > 1 ? toPosix(relative(process.cwd(), path)) : name }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+};
+
+/** A paper on disk as the File the services expect. */
+export const readPaperFile = async ({ path, name }: PaperInput): Promise<File> => {
+  const [bytes, info] = await Promise.all([readFile(path), stat(path)]);
+  return new File([bytes], name, {
+    type: paperMimeType(path),
+    lastModified: info.mtimeMs
+  });
+};
@@ -0,0 +1,48 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { folderExtractionStore } from './nodePlatform';
+import { CachedExtraction } from '../services/extractionCache';
+import { setDiagnostics } from '../services/diagnostics';
+
+const entry = (key: string): CachedExtraction => ({
+  key,
+  cachedAt: 1,
+  result: { year: '2021', sourceFile: 'physics.txt', questions: [{ text: 'State Ohm\'s law.' }] }
+});
+
+describe('folderExtractionStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'examrepo-cache-'));
+    setDiagnostics(() => undefined);
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  it('reads back what it stored', async () => {
+    const store = folderExtractionStore(dir);
+    await store.put(entry('a:gemini:model:v6'));
+    expect(await store.get('a:gemini:model:v6')).toEqual(entry('a:gemini:model:v6'));
+  });
+
+  it('misses when nothing was stored', async () => {
+    expect(await folderExtractionStore(dir).get('missing')).toBeUndefined();
+  });
+
+  it('treats a damaged entry as a miss and overwrites it on the next put', async () => {
+    const store = folderExtractionStore(dir);
+    await store.put(entry('k'));
+    const [file] = await readdir(dir);
+    await writeFile(join(dir, file), '{"key": "k", "result": ');
+    expect(await store.get('k')).toBeUndefined();
+
+    await writeFile(join(dir, file), JSON.stringify({ key: 'k', result: null }));
+    expect(await store.get('k')).toBeUndefined();
+
+    await store.put(entry('k'));
+    expect(await store.get('k')).toEqual(entry('k'));
+  });
+});
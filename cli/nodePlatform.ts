@@ -0,0 +1,87 @@
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { CachedExtraction, ExtractionStore } from "../services/extractionCache";
+import { DecodedImage, OcrAssets, Platform } from "../services/platform";
+import { reportProblem } from "../services/diagnostics";
+
+const require = createRequire(import.meta.url);
+
+// The English model Tesseract would otherwise download, installed as an npm package.
+const OCR_MODEL_PACKAGE = '@tesseract.js-data/eng';
+const OCR_MODEL_DIR = '4.0.0_best_int';
+const OCR_MODEL_FILE = 'eng.traineddata.gz';
+
+/** The installed OCR language model; throws if it is missing, as OCR could not run. */
+export const localOcrAssets = (): OcrAssets => {
+  let langPath: string;
+  try {
+    langPath = join(dirname(require.resolve(`${OCR_MODEL_PACKAGE}/package.json`)), OCR_MODEL_DIR);
+  } catch {
+    throw new Error(`The OCR language data (${OCR_MODEL_PACKAGE}) is not installed. Run npm install.`);
+  }
+  if (!existsSync(join(langPath, OCR_MODEL_FILE))) {
+    throw new Error(`The OCR language data is incomplete: ${join(langPath, OCR_MODEL_FILE)} is missing. Reinstall ${OCR_MODEL_PACKAGE}.`);
+  }
+  return { langPath };
+};
+
+/**
+ * Page rendering on @napi-rs/canvas, which implements the subset of the canvas API the
+ * renderer draws with. PDF.js runs in-process, so no worker location is given; Tesseract
+ * runs its installed worker and engine and reads the language model from disk.
+ */
+export const nodePlatform: Platform = {
+  createCanvas: (width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement,
+  decodeImage: async (file) => await loadImage(Buffer.from(await file.arrayBuffer())) as unknown as DecodedImage,
+  ocrAssets: localOcrAssets
+};
+
+const isCachedExtraction = (value: unknown): value is CachedExtraction =>
+  typeof value === 'object' && value !== null &&
+  'key' in value && typeof value.key === 'string' &&
+  'result' in value && typeof value.result === 'object' && value.result !== null &&
+  'questions' in value.result && Array.isArray(value.result.questions);
+
+// Cache keys carry model names, which may contain '/', so entries are stored under a hash of the key.
+const entryPath = (dir: string, key: string) => join(dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+/**
+ * Cached extractions as one JSON file each, so a nightly run only extracts new or changed papers.
+ */
+export const folderExtractionStore = (dir: string): ExtractionStore => ({
+  // A missing, unreadable or damaged entry is a miss; the fresh extraction then overwrites it.
+  get: async (key) => {
+    const path = entryPath(dir, key);
+    try {
+      const entry: unknown = JSON.parse(await readFile(path, 'utf8'));
+      if (isCachedExtraction(entry) && entry.key === key) return entry;
+      reportProblem('warn', `Ignoring a damaged cache entry: ${path}`);
+    } catch (err) {
+      const missing = typeof err === 'object' && err !== null && 'code' in err && err.code === 'ENOENT';
+      if (!missing) reportProblem('warn', `Ignoring an unreadable cache entry: ${path}`, err);
+    }
+    return undefined;
+  },
+  put: async (entry) => {
+    await mkdir(dir, { recursive: true });
+    const path = entryPath(dir, entry.key);
+    // Written aside and renamed, so an interrupted run never leaves half an entry behind.
+    await writeFile(`${path}.tmp`, JSON.stringify(entry));
+    await rename(`${path}.tmp`, path);
+  }
+});
+
+/** For --no-cache: nothing is read or kept between runs. */
+export const memoryExtractionStore = (): ExtractionStore => {
+  const entries = new Map<string, CachedExtraction>();
+  return {
+    get: async (key) => entries.get(key),
+    put: async (entry) => {
+      entries.set(entry.key, entry);
+    }
+  };
+};
@@ -0,0 +1,292 @@
+// The contract of cli/server.ts, served at GET /openapi.json. Keep the two in step.
+
+const json = (schema: object) => ({ 'application/json': { schema } });
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const error = (description: string) => ({ description, content: json(ref('Error')) });
+
+const idParameter = (name: string, description: string) => ({
+  name,
+  in: 'path',
+  required: true,
+  description,
+  schema: { type: 'string' }
+});
+
+const badPath = error('Malformed percent-encoding in the path.');
+
+const paperId = idParameter('paperId', 'Id returned by the upload.');
+const jobId = idParameter('jobId', 'Id returned when the job was created.');
+
+export const openApiDocument = {
+  openapi: '3.1.0',
+  info: {
+    title: 'ExamRepo AI analyzer',
+    version: '1.0.0',
+    description: 'Finds repeated questions across exam papers. Upload papers, start an analysis job, poll it until it is completed, then fetch the question groups. The server runs locally; papers and jobs are kept in memory until it stops.'
+  },
+  security: [{ apiKey: [] }],
+  paths: {
+    '/health': {
+      get: {
+        summary: 'Check that the server is up',
+        security: [],
+        responses: {
+          200: {
+            description: 'The server is running.',
+            content: json({ type: 'object', properties: { status: { const: 'ok' }, provider: { type: 'string', description: 'Provider and model, or "offline".' } } })
+          }
+        }
+      }
+    },
+    '/openapi.json': {
+      get: {
+        summary: 'This description',
+        security: [],
+        responses: { 200: { description: 'OpenAPI 3.1 document.', content: json({ type: 'object' }) } }
+      }
+    },
+    '/papers': {
+      get: {
+        summary: 'List uploaded papers',
+        responses: {
+          200: { description: 'All papers.', content: json({ type: 'object', properties: { papers: { type: 'array', items: ref('Paper') } } }) },
+          401: error('Missing or wrong API key.')
+        }
+      },
+      post: {
+        summary: 'Upload papers',
+        description: 'One file part per paper: PDF, PNG, JPG or plain text. Year, subject and the other details are read from the file name and first page.',
+        requestBody: {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: { type: 'object', properties: { file: { type: 'array', items: { type: 'string', format: 'binary' } } } }
+            }
+          }
+        },
+        responses: {
+          201: { description: 'The papers were stored.', content: json({ type: 'object', properties: { papers: { type: 'array', items: ref('Paper') } } }) },
+          400: error('The upload has no files or is malformed.'),
+          401: error('Missing or wrong API key.'),
+          413: error('The upload is too large.'),
+          415: error('Not multipart/form-data, or a file is not a supported paper.')
+        }
+      }
+    },
+    '/papers/{paperId}': {
+      parameters: [paperId],
+      get: {
+        summary: 'Get one paper',
+        responses: { 200: { description: 'The paper.', content: json(ref('Paper')) }, 400: badPath, 401: error('Missing or wrong API key.'), 404: error('No such paper.') }
+      },
+      delete: {
+        summary: 'Forget a paper',
+        description: 'Jobs that already include the paper are not affected.',
+        responses: { 204: { description: 'Deleted.' }, 400: badPath, 401: error('Missing or wrong API key.'), 404: error('No such paper.') }
+      }
+    },
+    '/jobs': {
+      get: {
+        summary: 'List jobs',
+        responses: {
+          200: { description: 'All jobs, oldest first.', content: json({ type: 'object', properties: { jobs: { type: 'array', items: ref('Job') } } }) },
+          401: error('Missing or wrong API key.')
+        }
+      },
+      post: {
+        summary: 'Start an analysis job',
+        description: 'Jobs run one at a time, in the order they were created.',
+        requestBody: { required: true, content: json(ref('JobRequest')) },
+        responses: {
+          202: {
+            description: 'The job is queued. Poll the URL in the Location header.',
+            headers: { Location: { schema: { type: 'string' } } },
+            content: json(ref('Job'))
+          },
+          400: error('Invalid request.'),
+          401: error('Missing or wrong API key.'),
+          404: error('A paper id is unknown.')
+        }
+      }
+    },
+    '/jobs/{jobId}': {
+      parameters: [jobId],
+      get: {
+        summary: 'Poll a job',
+        responses: { 200: { description: 'Status of the job and of each of its papers.', content: json(ref('Job')) }, 400: badPath, 401: error('Missing or wrong API key.'), 404: error('No such job.') }
+      },
+      delete: {
+        summary: 'Cancel (if still active) and forget a job',
+        responses: { 204: { description: 'Deleted.' }, 400: badPath, 401: error('Missing or wrong API key.'), 404: error('No such job.') }
+      }
+    },
+    '/jobs/{jobId}/cancel': {
+      parameters: [jobId],
+      post: {
+        summary: 'Cancel a queued or running job',
+        responses: {
+          202: { description: 'Cancelling; a running job stops after its in-flight requests.', content: json(ref('Job')) },
+          400: badPath,
+          401: error('Missing or wrong API key.'),
+          404: error('No such job.'),
+          409: error('The job has already finished.')
+        }
+      }
+    },
+    '/jobs/{jobId}/result': {
+      parameters: [jobId],
+      get: {
+        summary: 'Get the question groups of a completed job',
+        responses: {
+          200: { description: 'Groups of repeated questions, most frequent first.', content: json({ type: 'array', items: ref('AnalysisGroup') }) },
+          400: badPath,
+          401: error('Missing or wrong API key.'),
+          404: error('No such job.'),
+          409: error('The job has not completed.')
+        }
+      }
+    },
+    '/jobs/{jobId}/report': {
+      parameters: [
+        jobId,
+        { name: 'format', in: 'query', schema: { enum: ['json', 'md', 'csv', 'anki', 'docx'], default: 'json' }, description: 'json is the full analysis, as the web app imports it.' }
+      ],
+      get: {
+        summary: 'Download a completed job as a report',
+        responses: {
+          200: { description: 'The report as a file.' },
+          400: error('Unknown format, or malformed percent-encoding in the path.'),
+          401: error('Missing or wrong API key.'),
+          404: error('No such job.'),
+          409: error('The job has not completed.')
+        }
+      }
+    }
+  },
+  components: {
+    securitySchemes: {
+      apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+    },
+    schemas: {
+      Error: { type: 'object', required: ['error'], properties: { error: { type: 'string' } } },
+      PaperMetadata: {
+        type: 'object',
+        description: 'What the paper is, as printed on its cover. Fields that could not be found are left out.',
+        properties: {
+          year: { type: 'string', examples: ['2021'] },
+          session: { type: 'string', examples: ['March Supplementary'] },
+          board: { type: 'string' },
+          subject: { type: 'string' },
+          courseCode: { type: 'string' },
+          paperSet: { type: 'string', examples: ['A'] }
+        }
+      },
+      Paper: {
+        type: 'object',
+        required: ['id', 'name', 'type', 'size', 'metadata'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          type: { type: 'string', description: 'MIME type.' },
+          size: { type: 'integer', description: 'Bytes.' },
+          metadata: { ...ref('PaperMetadata'), description: 'Detected on upload.' }
+        }
+      },
+      JobRequest: {
+        type: 'object',
+        required: ['paperIds'],
+        properties: {
+          paperIds: { type: 'array', items: { type: 'string' }, minItems: 1 },
+          name: { type: 'string', description: 'Name of the analysis; defaults to the papers and the date.' },
+          similarityThreshold: { type: 'number', minimum: 0, maximum: 1, description: 'Similarity at which questions are proposed as duplicates; defaults to the server setting.' },
+          force: { type: 'boolean', default: false, description: 'Extract every paper again instead of using cached extractions.' },
+          allowMixedSubjects: { type: 'boolean', default: false, description: 'Group the papers even when they name different subjects; otherwise the job fails.' }
+        }
+      },
+      JobFile: {
+        type: 'object',
+        required: ['paperId', 'name', 'status'],
+        properties: {
+          paperId: { type: 'string' },
+          name: { type: 'string' },
+          status: { enum: ['pending', 'processing', 'completed', 'error'] },
+          fromCache: { type: 'boolean', description: 'A cached extraction was used.' },
+          questionCount: { type: 'integer' },
+          year: { type: 'string', description: 'Four digits or "Unknown".' },
+          metadata: ref('PaperMetadata'),
+          error: { type: 'string', description: 'Why the paper could not be read; the job continues without it.' }
+        }
+      },
+      Job: {
+        type: 'object',
+        required: ['id', 'status', 'createdAt', 'files'],
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          status: { enum: ['queued', 'running', 'completed', 'failed', 'cancelled'] },
+          createdAt: { type: 'integer', description: 'Milliseconds since the epoch.' },
+          startedAt: { type: 'integer' },
+          finishedAt: { type: 'integer' },
+          progress: {
+            type: 'object',
+            properties: {
+              stage: { enum: ['extraction', 'matching', 'clustering', 'merging', 'classification'] },
+              completed: { type: 'integer' },
+              total: { type: 'integer' }
+            }
+          },
+          files: { type: 'array', items: ref('JobFile') },
+          summary: {
+            type: 'object',
+            properties: {
+              totalPapers: { type: 'integer' },
+              totalQuestionsExtracted: { type: 'integer' },
+              totalRepeatedGroups: { type: 'integer' }
+            }
+          },
+          warning: { type: 'string' },
+          error: { type: 'string', description: 'Why the job failed.' }
+        }
+      },
+      QuestionVariant: {
+        type: 'object',
+        required: ['text', 'sourceFile', 'year'],
+        properties: {
+          text: { type: 'string', description: 'As printed, in its original script.' },
+          language: { type: 'string', description: 'ISO 639-1 code of the text, e.g. "hi".' },
+          translations: {
+            type: 'array',
+            description: 'The same question as a bilingual paper printed it in other languages.',
+            items: { type: 'object', required: ['language', 'text'], properties: { language: { type: 'string' }, text: { type: 'string' } } }
+          },
+          sourceFile: { type: 'string' },
+          paperId: { type: 'string', description: 'The uploaded paper it came from; file names may repeat.' },
+          year: { type: 'string' },
+          session: { type: 'string' },
+          page: { type: 'integer' },
+          questionNumber: { type: 'string', examples: ['4(b)'] },
+          section: { type: 'string' },
+          marks: { type: 'number' },
+          parentNumber: { type: 'string' },
+          alternativeTo: { type: 'string' },
+          multipleChoice: { type: 'boolean' }
+        }
+      },
+      AnalysisGroup: {
+        type: 'object',
+        required: ['id', 'normalizedQuestion', 'type', 'years', 'frequency', 'variants', 'answer'],
+        properties: {
+          id: { type: 'string' },
+          normalizedQuestion: { type: 'string', description: 'In the language most of its variants use.' },
+          type: { enum: ['Long Question', 'Short Question', 'Very Short Question', 'MCQ'] },
+          years: { type: 'array', items: { type: 'string' } },
+          frequency: { type: 'integer', description: 'Number of times the question was asked.' },
+          variants: { type: 'array', items: ref('QuestionVariant') },
+          answer: { type: 'string', description: 'Markdown; empty until an answer is generated.' },
+          answerLanguage: { type: 'string', description: 'ISO 639-1 code of the answer.' },
+          similarity: { type: 'number', description: 'Mean pairwise text similarity of the variants (0-1).' }
+        }
+      }
+    }
+  }
+};
@@ -0,0 +1,114 @@
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createApiServer } from './server';
+import { CachedExtraction, setExtractionStore } from '../services/extractionCache';
+
+const API_KEY = 'secret';
+
+const paper = (name: string, text: string) => new File([text], name, { type: 'text/plain' });
+
+describe('createApiServer', () => {
+  let server: Server;
+  let base: string;
+
+  const request = (path: string, init: RequestInit = {}, key: string | null = API_KEY) =>
+    fetch(`${base}${path}`, { ...init, headers: { ...(key === null ? {} : { 'X-API-Key': key }), ...init.headers } });
+
+  const upload = (...files: File[]) => {
+    const form = new FormData();
+    files.forEach(file => form.append('papers', file));
+    return request('/papers', { method: 'POST', body: form });
+  };
+
+  const postJson = (path: string, body: unknown) =>
+    request(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+  beforeEach(async () => {
+    const cache = new Map<string, CachedExtraction>();
+    setExtractionStore({ get: async (key) => cache.get(key), put: async (entry) => { cache.set(entry.key, entry); } });
+    server = createApiServer({ provider: null, apiKey: API_KEY, concurrency: 1, similarityThreshold: 0.5, maxUploadBytes: 4096 });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('needs the API key everywhere but /health and /openapi.json', async () => {
+    expect((await request('/health', {}, null)).status).toBe(200);
+    expect((await request('/openapi.json', {}, null)).status).toBe(200);
+    expect((await request('/papers', {}, null)).status).toBe(401);
+    expect((await request('/papers', {}, 'wrong')).status).toBe(401);
+    expect((await request('/papers')).status).toBe(200);
+  });
+
+  it('answers 400 to a path with malformed percent-encoding', async () => {
+    const res = await request('/papers/%E0%A4%A');
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/percent-encoding/);
+  });
+
+  it('answers 413 to an upload over the limit', async () => {
+    const res = await upload(paper('physics.txt', 'x'.repeat(8192)));
+    expect(res.status).toBe(413);
+    expect((await request('/papers').then(r => r.json())).papers).toEqual([]);
+  });
+
+  it('rejects uploads that are not papers', async () => {
+    expect((await upload(paper('notes.docx', 'x'))).status).toBe(415);
+    expect((await request('/papers', { method: 'POST', body: 'x' })).status).toBe(415);
+  });
+
+  it('analyses uploaded papers in a job and serves its result and reports', async () => {
+    const uploaded = await upload(
+      paper('physics-2019.txt', 'Physics 2019\n1. State Ohm\'s law and give its formula.\n2. Define the unit of electric charge.'),
+      paper('physics-2020.txt', 'Physics 2020\n1. State Ohm\'s law and give its formula.\n2. Describe the structure of an atom.')
+    );
+    expect(uploaded.status).toBe(201);
+    const { papers } = await uploaded.json();
+    expect(papers.map((p: { name: string }) => p.name)).toEqual(['physics-2019.txt', 'physics-2020.txt']);
+
+    expect((await postJson('/jobs', { paperIds: [] })).status).toBe(400);
+    expect((await postJson('/jobs', { paperIds: ['missing'] })).status).toBe(404);
+
+    const created = await postJson('/jobs', { paperIds: papers.map((p: { id: string }) => p.id), name: 'Physics' });
+    expect(created.status).toBe(202);
+    const location = created.headers.get('Location')!;
+    expect(location).toMatch(/^\/jobs\/[\w-]+$/);
+
+    let job = await created.json();
+    while (job.status === 'queued' || job.status === 'running') {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      job = await request(location).then(res => res.json());
+    }
+    expect(job).toMatchObject({ name: 'Physics', status: 'completed', summary: { totalPapers: 2, totalRepeatedGroups: 3 } });
+    expect(job.files.map((file: { status: string }) => file.status)).toEqual(['completed', 'completed']);
+
+    const groups = await request(`${location}/result`).then(res => res.json());
+    // Every question is a group; the one asked in both years has both papers' wording.
+    expect(groups.map((group: { variants: unknown[] }) => group.variants.length).sort()).toEqual([1, 1, 2]);
+
+    const csv = await request(`${location}/report?format=csv`);
+    expect(csv.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+    expect(csv.headers.get('Content-Disposition')).toBe(`attachment; filename="analysis-${job.id}.csv"`);
+    expect(await csv.text()).toMatch(/Ohm/);
+    const docx = await request(`${location}/report?format=docx`);
+    expect(docx.headers.get('Content-Type')).toMatch(/wordprocessingml/);
+    expect(new Uint8Array(await docx.arrayBuffer()).slice(0, 2)).toEqual(new Uint8Array([0x50, 0x4b])); // a zip
+    expect(JSON.parse(await request(`${location}/report`).then(res => res.text())).name).toBe('Physics');
+    expect((await request(`${location}/report?format=pdf`)).status).toBe(400);
+
+    expect((await request(`${location}/cancel`, { method: 'POST' })).status).toBe(409);
+    expect((await request(location, { method: 'DELETE' })).status).toBe(204);
+    expect((await request(location)).status).toBe(404);
+  });
+
+  it('answers 405 with the allowed methods', async () => {
+    const res = await request('/jobs', { method: 'PUT' });
+    expect(res.status).toBe(405);
+    expect(res.headers.get('Allow')).toBe('GET, POST');
+  });
+});
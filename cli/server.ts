@@ -0,0 +1,335 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { AnalysisProgress, SavedAnalysis, UploadedFile } from "../types";
+import { CancelledError, describeError } from "../services/errors";
+import { RunController } from "../services/jobQueue";
+import { LLMProvider } from "../services/providers";
+import { REPORT_CONTENT_TYPES, REPORT_FORMATS, ReportFormat, renderReport, runAnalysis, toPaper } from "./analysis";
+import { isSupportedPaper, paperMimeType } from "./inputs";
+import { openApiDocument } from "./openapi";
+
+export const API_KEY_HEADER = 'x-api-key';
+export const DEFAULT_MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+export interface ApiServerOptions {
+  provider: LLMProvider | null; // null analyses offline
+  apiKey: string;
+  concurrency: number;
+  similarityThreshold: number; // used when a job does not set its own
+  maxUploadBytes?: number;
+  log?: (message: string) => void;
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+interface Job {
+  id: string;
+  name?: string;
+  status: JobStatus;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  papers: UploadedFile[]; // the job's own copies, whose status follows the run
+  similarityThreshold: number;
+  allowMixedSubjects: boolean;
+  controller: RunController;
+  progress?: AnalysisProgress;
+  warning?: string; // e.g. the papers name different subjects, but the job allowed it
+  error?: string;
+  analysis?: SavedAnalysis;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const decodePathParameter = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, `Malformed percent-encoding in the path: ${value}`);
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// Hashing first gives both sides the same length, which timingSafeEqual requires.
+const sameKey = (given: string, expected: string) =>
+  timingSafeEqual(createHash('sha256').update(given).digest(), createHash('sha256').update(expected).digest());
+
+const readBody = (req: IncomingMessage, limit: number): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    // Keep draining the request, so the client still gets the 413 response.
+    if (size <= limit) chunks.push(chunk);
+  });
+  req.on('end', () => size > limit
+    ? reject(new HttpError(413, `Uploads are limited to ${Math.round(limit / 1024 / 1024)} MB per request.`))
+    : resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const readJson = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const text = (await readBody(req, 1024 * 1024)).toString('utf8');
+  try {
+    const body = JSON.parse(text || '{}');
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body;
+  } catch {
+    // reported below
+  }
+  throw new HttpError(400, 'The request body must be a JSON object.');
+};
+
+const paperView = (paper: UploadedFile) => ({
+  id: paper.id,
+  name: paper.file.name,
+  type: paper.file.type,
+  size: paper.file.size,
+  metadata: paper.detectedMetadata ?? {}
+});
+
+const jobView = (job: Job) => ({
+  id: job.id,
+  name: job.name,
+  status: job.status,
+  createdAt: job.createdAt,
+  startedAt: job.startedAt,
+  finishedAt: job.finishedAt,
+  progress: job.progress,
+  files: job.papers.map(paper => ({
+    paperId: paper.id,
+    name: paper.file.name,
+    status: paper.status,
+    fromCache: paper.fromCache,
+    questionCount: paper.extractedQuestionsCount,
+    year: paper.detectedYear,
+    metadata: paper.metadata,
+    error: paper.error
+  })),
+  summary: job.analysis?.summary,
+  warning: job.warning,
+  error: job.error
+});
+
+const isActive = (job: Job) => job.status === 'queued' || job.status === 'running';
+
+type Handler = (req: IncomingMessage, res: ServerResponse, params: string[], url: URL) => Promise<void> | void;
+
+/**
+ * The analyzer as a local HTTP service, for tools that cannot drive the web app. Papers are
+ * uploaded first, then analysed by jobs that run one at a time and are polled for progress;
+ * everything is kept in memory, and extractions go through the same cache as the command line.
+ * Every route except /health and /openapi.json needs the API key in the X-API-Key header.
+ */
+export const createApiServer = ({
+  provider,
+  apiKey,
+  concurrency,
+  similarityThreshold,
+  maxUploadBytes = DEFAULT_MAX_UPLOAD_BYTES,
+  log = () => undefined
+}: ApiServerOptions): Server => {
+  const papers = new Map<string, UploadedFile>();
+  const jobs = new Map<string, Job>();
+  let jobQueue: Promise<void> = Promise.resolve();
+
+  const findPaper = (id: string) => {
+    const paper = papers.get(id);
+    if (!paper) throw new HttpError(404, `No paper with id ${id}.`);
+    return paper;
+  };
+
+  const findJob = (id: string) => {
+    const job = jobs.get(id);
+    if (!job) throw new HttpError(404, `No job with id ${id}.`);
+    return job;
+  };
+
+  const finishedAnalysis = (job: Job): SavedAnalysis => {
+    if (job.analysis) return job.analysis;
+    throw new HttpError(409, job.status === 'failed' || job.status === 'cancelled'
+      ? `The job ${job.status === 'failed' ? 'failed' : 'was cancelled'}; it has no result.`
+      : 'The job has not finished yet; poll its status until it is completed.');
+  };
+
+  const runJob = async (job: Job) => {
+    if (job.status !== 'queued') return; // cancelled while waiting
+    job.status = 'running';
+    job.startedAt = Date.now();
+    log(`Job ${job.id}: analyzing ${job.papers.length} papers`);
+    try {
+      const { analysis } = await runAnalysis(job.papers, provider, {
+        concurrency,
+        controller: job.controller,
+        similarityThreshold: job.similarityThreshold,
+        allowMixedSubjects: job.allowMixedSubjects,
+        name: job.name,
+        onProgress: (progress) => { job.progress = progress; },
+        onStart: (paper) => { paper.status = 'processing'; },
+        onDone: (paper, extraction, fromCache) => Object.assign(paper, {
+          status: 'completed',
+          extractedQuestionsCount: extraction.questions.length,
+          detectedYear: extraction.year,
+          metadata: extraction.metadata,
+          fromCache
+        }),
+        onError: (paper, message) => Object.assign(paper, { status: 'error', error: message }),
+        onCancel: (paper) => { paper.status = 'pending'; },
+        onWarning: (message) => { job.warning = message; }
+      });
+      job.analysis = analysis;
+      job.status = 'completed';
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        job.status = 'cancelled';
+      } else {
+        job.status = 'failed';
+        job.error = describeError(err);
+      }
+    } finally {
+      job.finishedAt = Date.now();
+      log(`Job ${job.id}: ${job.status}${job.error ? ` (${job.error})` : ''}`);
+    }
+  };
+
+  const uploadPapers: Handler = async (req, res) => {
+    const contentType = req.headers['content-type'] ?? '';
+    if (!contentType.startsWith('multipart/form-data')) {
+      throw new HttpError(415, 'Upload papers as multipart/form-data, one part per file.');
+    }
+    const body = await readBody(req, maxUploadBytes);
+    const form = await new Request('http://localhost/', { method: 'POST', headers: { 'Content-Type': contentType }, body })
+      .formData()
+      .catch(() => { throw new HttpError(400, 'The upload is not valid multipart/form-data.'); });
+    const uploads = Array.from(form.values()).filter((value): value is File => typeof value !== 'string');
+    if (uploads.length === 0) throw new HttpError(400, 'The upload has no files.');
+    const unsupported = uploads.find(upload => !isSupportedPaper(upload.name));
+    if (unsupported) throw new HttpError(415, `Not a supported paper (PDF, PNG, JPG or TXT): ${unsupported.name}`);
+
+    const added = await Promise.all(uploads.map(async (upload) => {
+      const file = new File([await upload.arrayBuffer()], upload.name, { type: paperMimeType(upload.name), lastModified: Date.now() });
+      return toPaper(randomUUID(), file);
+    }));
+    added.forEach(paper => papers.set(paper.id, paper));
+    sendJson(res, 201, { papers: added.map(paperView) });
+  };
+
+  const createJob: Handler = async (req, res) => {
+    const body = await readJson(req);
+    const { paperIds, name, force, allowMixedSubjects } = body;
+    if (!Array.isArray(paperIds) || paperIds.length === 0 || paperIds.some(id => typeof id !== 'string')) {
+      throw new HttpError(400, 'paperIds must be a non-empty list of paper ids.');
+    }
+    if (name !== undefined && typeof name !== 'string') throw new HttpError(400, 'name must be a string.');
+    const threshold = body.similarityThreshold ?? similarityThreshold;
+    if (typeof threshold !== 'number' || threshold < 0 || threshold > 1) {
+      throw new HttpError(400, 'similarityThreshold must be a number from 0 to 1.');
+    }
+
+    const job: Job = {
+      id: randomUUID(),
+      name: typeof name === 'string' && name.trim() ? name.trim() : undefined,
+      status: 'queued',
+      createdAt: Date.now(),
+      papers: Array.from(new Set(paperIds as string[])).map(id => ({ ...findPaper(id), status: 'pending', forceExtract: force === true })),
+      similarityThreshold: threshold,
+      allowMixedSubjects: allowMixedSubjects === true,
+      controller: new RunController()
+    };
+    jobs.set(job.id, job);
+    jobQueue = jobQueue.then(() => runJob(job));
+    res.setHeader('Location', `/jobs/${job.id}`);
+    sendJson(res, 202, jobView(job));
+  };
+
+  const cancelJob = (job: Job) => {
+    if (job.status === 'queued') {
+      job.status = 'cancelled';
+      job.finishedAt = Date.now();
+    } else if (job.status === 'running') {
+      job.controller.cancel();
+    }
+  };
+
+  const routes: { method: string; path: RegExp; handler: Handler; open?: boolean }[] = [
+    { method: 'GET', path: /^\/health$/, open: true, handler: (_req, res) => sendJson(res, 200, { status: 'ok', provider: provider ? `${provider.id} (${provider.model})` : 'offline' }) },
+    { method: 'GET', path: /^\/openapi\.json$/, open: true, handler: (_req, res) => sendJson(res, 200, openApiDocument) },
+    { method: 'GET', path: /^\/papers$/, handler: (_req, res) => sendJson(res, 200, { papers: Array.from(papers.values()).map(paperView) }) },
+    { method: 'POST', path: /^\/papers$/, handler: uploadPapers },
+    { method: 'GET', path: /^\/papers\/([^/]+)$/, handler: (_req, res, [id]) => sendJson(res, 200, paperView(findPaper(id))) },
+    {
+      method: 'DELETE', path: /^\/papers\/([^/]+)$/, handler: (_req, res, [id]) => {
+        findPaper(id);
+        papers.delete(id);
+        res.writeHead(204).end();
+      }
+    },
+    { method: 'GET', path: /^\/jobs$/, handler: (_req, res) => sendJson(res, 200, { jobs: Array.from(jobs.values()).map(jobView) }) },
+    { method: 'POST', path: /^\/jobs$/, handler: createJob },
+    { method: 'GET', path: /^\/jobs\/([^/]+)$/, handler: (_req, res, [id]) => sendJson(res, 200, jobView(findJob(id))) },
+    {
+      method: 'POST', path: /^\/jobs\/([^/]+)\/cancel$/, handler: (_req, res, [id]) => {
+        const job = findJob(id);
+        if (!isActive(job)) throw new HttpError(409, `The job is already ${job.status}.`);
+        cancelJob(job);
+        sendJson(res, 202, jobView(job));
+      }
+    },
+    {
+      method: 'DELETE', path: /^\/jobs\/([^/]+)$/, handler: (_req, res, [id]) => {
+        cancelJob(findJob(id));
+        jobs.delete(id);
+        res.writeHead(204).end();
+      }
+    },
+    { method: 'GET', path: /^\/jobs\/([^/]+)\/result$/, handler: (_req, res, [id]) => sendJson(res, 200, finishedAnalysis(findJob(id)).groups) },
+    {
+      method: 'GET', path: /^\/jobs\/([^/]+)\/report$/, handler: (_req, res, [id], url) => {
+        const format = (url.searchParams.get('format') ?? 'json') as ReportFormat;
+        if (!REPORT_FORMATS.includes(format)) throw new HttpError(400, `format must be one of: ${REPORT_FORMATS.join(', ')}.`);
+        const analysis = finishedAnalysis(findJob(id));
+        res.writeHead(200, {
+          'Content-Type': REPORT_CONTENT_TYPES[format],
+          'Content-Disposition': `attachment; filename="analysis-${id}.${format === 'anki' ? 'csv' : format}"`
+        });
+        res.end(renderReport(analysis, format));
+      }
+    }
+  ];
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const matching = routes.filter(route => route.path.test(url.pathname));
+    if (matching.length === 0) throw new HttpError(404, `No such endpoint: ${url.pathname}`);
+    const route = matching.find(r => r.method === req.method);
+    if (!route) {
+      res.setHeader('Allow', matching.map(r => r.method).join(', '));
+      throw new HttpError(405, `${req.method} is not allowed on ${url.pathname}.`);
+    }
+    if (!route.open) {
+      const given = req.headers[API_KEY_HEADER];
+      if (typeof given !== 'string' || !sameKey(given, apiKey)) throw new HttpError(401, 'Missing or wrong API key (X-API-Key header).');
+    }
+    const params = route.path.exec(url.pathname)!.slice(1).map(decodePathParameter);
+    await route.handler(req, res, params, url);
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((err) => {
+      if (!(err instanceof HttpError)) log(`Request failed: ${describeError(err)}`);
+      if (res.headersSent) return res.destroy();
+      sendJson(res, err instanceof HttpError ? err.status : 500, { error: err instanceof HttpError ? err.message : describeError(err) });
+    });
+  });
+  // Running jobs stop with the server.
+  server.on('close', () => jobs.forEach(cancelJob));
+  return server;
+};
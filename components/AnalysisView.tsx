@@ -1,12 +1,120 @@
-import React from 'react';
-import { AnalysisGroup, AnalysisSummary } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { AnalysisGroup, AnalysisSummary, AnswerLength, GroupFilters, PaperBlueprint, PracticePaper, Syllabus, UploadedFile } from '../types';
+import { GroupCard } from './GroupCard';
+import { FilterToolbar } from './FilterToolbar';
+import { TrendsView } from './TrendsView';
+import { SyllabusView } from './SyllabusView';
+import { PracticePaperView } from './PracticePaperView';
+import { StudyView } from './StudyView';
+import { availableSources, availableYears, DEFAULT_FILTERS, filterGroups } from '../services/groupFilters';
+import { GroupEdit, mergeGroups, moveVariants, updateGroup } from '../services/groupEditing';
+import { ChapterInfo, chapterIndex, chapterLabel } from '../services/syllabusService';
+import { defaultBlueprint } from '../services/practicePaperService';
+import { analysisLanguages, groupQuestionIn, languageName } from '../services/language';
 
 interface AnalysisViewProps {
+  analysisId?: string;
   results: AnalysisGroup[];
   summary: AnalysisSummary;
+  files: UploadedFile[];
+  onGenerateAnswer: (groupId: string, length: AnswerLength) => Promise<void>;
+  onEdit: (edit: GroupEdit) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  syllabus?: Syllabus;
+  onSyllabusChange: (syllabus: Syllabus | undefined) => void;
+  onReadSyllabusFile: (file: File) => Promise<Syllabus>;
+  onClassify: () => void;
+  onGeneratePracticePaper: (blueprint: PaperBlueprint, seed: number) => Promise<PracticePaper>;
 }
 
-export const AnalysisView: React.FC<AnalysisViewProps> = ({ results, summary }) => {
+type ResultsView = 'questions' | 'study' | 'trends' | 'syllabus' | 'practice';
+
+const VIEW_LABELS: Record<ResultsView, string> = {
+  questions: 'Questions',
+  study: 'Study',
+  trends: 'Trends',
+  syllabus: 'Syllabus',
+  practice: 'Practice paper'
+};
+
+export const AnalysisView: React.FC<AnalysisViewProps> = ({
+  analysisId, results, summary, files, onGenerateAnswer, onEdit, onUndo, onRedo, canUndo, canRedo,
+  syllabus, onSyllabusChange, onReadSyllabusFile, onClassify, onGeneratePracticePaper
+}) => {
+  const [view, setView] = useState<ResultsView>('questions');
+  const [filters, setFilters] = useState<GroupFilters>(DEFAULT_FILTERS);
+  const [isEditing, setIsEditing] = useState(false);
+  // Groups picked for merging, in the order they were picked; the first one absorbs the rest.
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Kept here so the paper survives switching tabs.
+  const [blueprint, setBlueprint] = useState<PaperBlueprint>(() => defaultBlueprint(results));
+  const [practicePaper, setPracticePaper] = useState<PracticePaper | null>(null);
+  // Empty shows each question as it was grouped; a language code shows the papers' wording in that language where they printed one.
+  const [displayLanguage, setDisplayLanguage] = useState('');
+
+  const years = useMemo(() => availableYears(results), [results]);
+  const sources = useMemo(() => availableSources(results), [results]);
+  const visibleGroups = useMemo(() => filterGroups(results, filters), [results, filters]);
+  const languages = useMemo(() => analysisLanguages(results), [results]);
+  // For the read-only views; question cards switch language themselves so editing keeps the real wording.
+  const displayedGroups = useMemo(
+    () => displayLanguage ? results.map(g => ({ ...g, normalizedQuestion: groupQuestionIn(g, displayLanguage) })) : results,
+    [results, displayLanguage]
+  );
+  const chapters = useMemo(() => syllabus ? chapterIndex(syllabus) : new Map<string, ChapterInfo>(), [syllabus]);
+  const chapterOptions = useMemo(
+    () => Array.from(chapters, ([id, info]) => ({ id, label: chapterLabel(info) })),
+    [chapters]
+  );
+
+  // Drop selections whose group disappeared (merged away, undone...).
+  useEffect(() => {
+    setSelectedIds(prev => prev.filter(id => results.some(g => g.id === id)));
+  }, [results]);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) while editing, except inside text fields.
+  useEffect(() => {
+    if (!isEditing) return;
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [isEditing, onUndo, onRedo]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const mergeSelected = () => {
+    onEdit(mergeGroups(selectedIds));
+    setSelectedIds([]);
+  };
+
+  const browseChapter = (chapterId: string) => {
+    setFilters({ ...DEFAULT_FILTERS, sort: filters.sort, chapterId });
+    setView('questions');
+  };
+
+  const stopEditing = () => {
+    setIsEditing(false);
+    setSelectedIds([]);
+  };
+
+  const editButtonClass = "text-sm font-medium text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white disabled:opacity-40 disabled:hover:text-gray-500 transition-colors";
+
   return (
     <div className="w-full space-y-16 animate-fade-in">
       
@@ -26,84 +134,110 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ results, summary })
         </div>
       </div>
 
-      <div className="space-y-12">
-        <div className="flex items-center justify-between">
-           <h3 className="text-xl font-bold text-black dark:text-white">Most Repeated Questions</h3>
-           <span className="text-sm text-gray-400 dark:text-gray-500">Sorted by Frequency</span>
-        </div>
+      <div className="flex gap-6 border-b border-gray-100 dark:border-neutral-800">
+        {(Object.keys(VIEW_LABELS) as ResultsView[]).map(id => (
+          <button
+            key={id}
+            onClick={() => setView(id)}
+            className={`pb-3 -mb-px text-sm font-medium border-b-2 transition-colors ${view === id
+              ? 'border-black text-black dark:border-white dark:text-white'
+              : 'border-transparent text-gray-400 hover:text-black dark:text-gray-500 dark:hover:text-white'}`}
+            aria-pressed={view === id}
+          >
+            {VIEW_LABELS[id]}
+          </button>
+        ))}
+        {languages.length > 1 && (
+          <select
+            value={displayLanguage}
+            onChange={(e) => setDisplayLanguage(e.target.value)}
+            className="ml-auto pb-3 text-sm bg-transparent text-gray-500 dark:text-gray-400 focus:outline-none"
+            aria-label="Show questions in"
+          >
+            <option value="">As grouped</option>
+            {languages.map(code => <option key={code} value={code}>{languageName(code)}</option>)}
+          </select>
+        )}
+      </div>
 
-        {results.map((group, index) => (
-          <div key={group.id} className="group bg-white dark:bg-neutral-900 rounded-2xl border border-gray-100 dark:border-neutral-800 p-8 hover:border-gray-200 dark:hover:border-neutral-700 hover:shadow-xl hover:shadow-gray-100/50 dark:hover:shadow-none transition-all duration-300">
-            
-            {/* Question Header */}
-            <div className="flex items-start justify-between gap-6 mb-6">
-              <div className="flex-1">
-                <div className="flex items-center gap-3 mb-3">
-                  <span className="bg-black text-white dark:bg-white dark:text-black text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider transition-colors">
-                    #{index + 1} Most Repeated
-                  </span>
-                  <span className="bg-gray-100 text-gray-600 dark:bg-neutral-800 dark:text-gray-400 text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider transition-colors">
-                    {group.type}
-                  </span>
-                </div>
-                <h4 className="text-xl md:text-2xl font-bold text-gray-900 dark:text-gray-100 leading-tight group-hover:text-black dark:group-hover:text-white transition-colors">
-                  {group.normalizedQuestion}
-                </h4>
-              </div>
-              
-              <div className="flex flex-col items-center justify-center bg-gray-50 dark:bg-neutral-800 rounded-xl p-4 min-w-[80px] transition-colors">
-                 <span className="text-3xl font-black text-black dark:text-white">{group.frequency}</span>
-                 <span className="text-[10px] font-bold text-gray-400 uppercase mt-1">Times</span>
-              </div>
-            </div>
+      {view === 'trends' ? (
+        <TrendsView groups={displayedGroups} />
+      ) : view === 'syllabus' ? (
+        <SyllabusView
+          syllabus={syllabus}
+          groups={results}
+          onChange={onSyllabusChange}
+          onReadFile={onReadSyllabusFile}
+          onClassify={onClassify}
+          onBrowseChapter={browseChapter}
+        />
+      ) : view === 'study' ? (
+        <StudyView groups={displayedGroups} analysisId={analysisId} onGenerateAnswer={onGenerateAnswer} />
+      ) : view === 'practice' ? (
+        <PracticePaperView
+          groups={results}
+          blueprint={blueprint}
+          onBlueprintChange={setBlueprint}
+          paper={practicePaper}
+          onGenerate={async (next, seed) => setPracticePaper(await onGeneratePracticePaper(next, seed))}
+          onGenerateAnswer={onGenerateAnswer}
+        />
+      ) : (
+        <div className="space-y-12">
+          <div className="flex items-center justify-between">
+             <h3 className="text-xl font-bold text-black dark:text-white">Most Repeated Questions</h3>
+             <div className="flex items-center gap-4">
+               <span className="text-sm text-gray-400 dark:text-gray-500">
+                 {visibleGroups.length === results.length ? `${results.length} groups` : `Showing ${visibleGroups.length} of ${results.length}`}
+               </span>
+               <button onClick={isEditing ? stopEditing : () => setIsEditing(true)} className={editButtonClass} aria-pressed={isEditing}>
+                 {isEditing ? 'Done editing' : 'Edit groups'}
+               </button>
+             </div>
+          </div>
 
-            {/* Meta Info */}
-            <div className="flex flex-wrap gap-2 mb-8 text-sm">
-              <span className="text-gray-400 font-medium">Appeared in:</span>
-              {group.years.map((year, i) => (
-                <span key={i} className="bg-white dark:bg-neutral-900 border border-gray-200 dark:border-neutral-700 text-gray-600 dark:text-gray-400 px-2 py-0.5 rounded text-xs font-mono transition-colors">
-                  {year}
-                </span>
-              ))}
+          {isEditing && (
+            <div className="flex flex-wrap items-center justify-between gap-4 p-4 bg-gray-50 dark:bg-neutral-900 border border-gray-100 dark:border-neutral-800 rounded-xl text-sm">
+              <p className="text-gray-500 dark:text-gray-400">
+                {selectedIds.length < 2
+                  ? 'Select two or more groups to merge them. Open a group to reword it or move its variants.'
+                  : `${selectedIds.length} groups selected; they merge into the first one you picked.`}
+              </p>
+              <div className="flex items-center gap-4">
+                <button onClick={mergeSelected} disabled={selectedIds.length < 2} className={editButtonClass}>Merge selected</button>
+                <button onClick={onUndo} disabled={!canUndo} className={editButtonClass} title="Undo (Ctrl+Z)">Undo</button>
+                <button onClick={onRedo} disabled={!canRedo} className={editButtonClass} title="Redo (Ctrl+Shift+Z)">Redo</button>
+              </div>
             </div>
+          )}
 
-            {/* Split Layout: Variants & Answer */}
-            <div className="grid md:grid-cols-12 gap-8 pt-8 border-t border-gray-50 dark:border-neutral-800 transition-colors">
-              
-              {/* Left: Variants */}
-              <div className="md:col-span-4 space-y-4">
-                <p className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">Original Variants</p>
-                <ul className="space-y-3">
-                  {group.variants.map((v, i) => (
-                    <li key={i} className="text-sm text-gray-500 dark:text-gray-400 leading-relaxed pl-3 border-l-2 border-gray-100 dark:border-neutral-800 italic transition-colors">
-                      "{v}"
-                    </li>
-                  ))}
-                </ul>
-              </div>
+          <FilterToolbar filters={filters} onChange={setFilters} years={years} sources={sources} chapters={chapterOptions} />
 
-              {/* Right: Answer */}
-              <div className="md:col-span-8">
-                <div className="bg-gray-50 dark:bg-neutral-800/50 rounded-xl p-6 md:p-8 transition-colors">
-                  <div className="flex items-center gap-2 mb-4">
-                    <div className="w-1.5 h-1.5 rounded-full bg-green-500"></div>
-                    <p className="text-xs font-bold text-gray-900 dark:text-gray-200 uppercase tracking-wider">Model Answer</p>
-                  </div>
-                  <div className="prose prose-sm prose-gray dark:prose-invert max-w-none text-gray-700 dark:text-gray-300 leading-relaxed transition-colors">
-                     <div dangerouslySetInnerHTML={{ 
-                      __html: group.answer
-                        .replace(/\n/g, '<br />')
-                        .replace(/\*\*(.*?)\*\*/g, '<strong class="text-gray-900 dark:text-white">$1</strong>')
-                        .replace(/^\* (.*)/gm, '<span class="block pl-4 border-l-2 border-gray-300 dark:border-neutral-600 my-2">$1</span>') 
-                    }} />
-                  </div>
-                </div>
-              </div>
+          {visibleGroups.length === 0 && (
+            <p className="text-sm text-center text-gray-400 dark:text-gray-500 py-12">No questions match these filters.</p>
+          )}
 
-            </div>
-          </div>
-        ))}
-      </div>
+          {visibleGroups.map((group, index) => (
+            <GroupCard 
+              key={group.id} 
+              group={group} 
+              rank={index + 1} 
+              files={files} 
+              displayLanguage={displayLanguage}
+              onGenerateAnswer={onGenerateAnswer} 
+              onUpdate={(patch) => onEdit(updateGroup(group.id, patch))}
+              chapterLabel={group.chapterId && chapters.has(group.chapterId) ? chapterLabel(chapters.get(group.chapterId)!) : undefined}
+              chapterOptions={chapterOptions}
+              editing={isEditing ? {
+                isSelected: selectedIds.includes(group.id),
+                onToggleSelect: () => toggleSelected(group.id),
+                moveTargets: results,
+                onMoveVariants: (indices, toId) => onEdit(moveVariants(group.id, indices, toId))
+              } : undefined}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { SavedAnalysis } from '../types';
+import { EXPORT_FORMATS, ExportFormat, exportAnalysis } from '../services/export';
+
+interface ExportMenuProps {
+  analysis: SavedAnalysis;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ analysis }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: ExportFormat) => {
+    setIsOpen(false);
+    try {
+      exportAnalysis(analysis, format);
+    } catch (err: any) {
+      console.error(`Export to ${format} failed:`, err);
+      window.alert(err.message || "Export failed.");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm font-medium text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        Export
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-3 w-60 bg-white dark:bg-neutral-900 border border-gray-100 dark:border-neutral-800 rounded-xl shadow-xl shadow-gray-200/50 dark:shadow-none py-2 z-50"
+        >
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              role="menuitem"
+              onClick={() => handleExport(format.id)}
+              className="w-full text-left px-4 py-2 hover:bg-gray-50 dark:hover:bg-neutral-800 transition-colors"
+            >
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-200">{format.label}</p>
+              <p className="text-xs text-gray-400 dark:text-gray-500">{format.description}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
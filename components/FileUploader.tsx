@@ -1,5 +1,9 @@
-import React from 'react';
-import { UploadedFile } from '../types';
+import React, { useState } from 'react';
+import { PaperMetadata, PaperPage, UploadedFile } from '../types';
+import { hasPages, pagesOfFile, paperPages } from '../services/pageRenderer';
+import { describeMetadata, detectPaperMetadata, mergeMetadata, mixedSubjectsWarning } from '../services/paperMetadata';
+import { PageEditor } from './PageEditor';
+import { PaperDetailsEditor } from './PaperDetailsEditor';
 
 interface FileUploaderProps {
   files: UploadedFile[];
@@ -7,16 +11,47 @@ interface FileUploaderProps {
   disabled: boolean;
 }
 
+const createFileId = () => Math.random().toString(36).substring(7);
+
+// Distinct files of a paper in the order their pages first appear.
+const filesOf = (paper: UploadedFile): File[] =>
+  paper.pages ? Array.from(new Set(paper.pages.map(p => p.file))) : [paper.file];
+
 export const FileUploader: React.FC<FileUploaderProps> = ({ files, setFiles, disabled }) => {
-  
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [pageError, setPageError] = useState<string | null>(null);
+
+  // Pages can change until the paper has been extracted.
+  const canEditPages = (file: UploadedFile) =>
+    !disabled && file.status !== 'processing' && file.status !== 'completed' && hasPages(file.file);
+
+  const canEditDetails = (file: UploadedFile) => !disabled && file.status !== 'processing';
+
+  const selected = files.filter(f => selectedIds.includes(f.id) && canEditPages(f));
+
+  const knownMetadata = (file: UploadedFile) => mergeMetadata(file.detectedMetadata, file.metadata);
+  const subjectWarning = mixedSubjectsWarning(files.map(knownMetadata));
+
+  // Reads the file name and first page in the background; the paper can be analysed meanwhile.
+  const detectDetails = (papers: UploadedFile[]) => {
+    papers.forEach(async (paper) => {
+      const detectedMetadata = await detectPaperMetadata(paper);
+      setFiles(prev => prev.map(f => f.id === paper.id ? { ...f, detectedMetadata } : f));
+    });
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
       const newFiles: UploadedFile[] = Array.from(event.target.files).map((f) => ({
-        id: Math.random().toString(36).substring(7),
+        id: createFileId(),
         file: f as File,
         status: 'pending'
       }));
       setFiles(prev => [...prev, ...newFiles]);
+      detectDetails(newFiles);
     }
   };
 
@@ -24,6 +59,98 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ files, setFiles, dis
     setFiles(prev => prev.filter(f => f.id !== id));
   };
 
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+
+  const setMetadata = (id: string, metadata: PaperMetadata) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, metadata } : f));
+  };
+
+  // New pages mean a new paper: its cache status and any earlier result no longer apply.
+  const setPages = (id: string, pages: PaperPage[]) => {
+    setFiles(prev => prev.map(f => f.id === id ? {
+      ...f,
+      pages,
+      status: 'pending',
+      error: undefined,
+      fromCache: undefined,
+      detectedYear: undefined,
+      extractedQuestionsCount: undefined
+    } : f));
+  };
+
+  /**
+   * Photos of one paper become a single paper, its pages in upload order. The combined paper
+   * keeps the first file's name.
+   */
+  const combineSelected = async () => {
+    setPageError(null);
+    try {
+      const pages = (await Promise.all(selected.map(paperPages))).flat();
+      const [first] = selected;
+      const combinedIds = selected.map(f => f.id);
+      const combined: UploadedFile = {
+        id: first.id,
+        file: first.file,
+        pages,
+        status: 'pending',
+        detectedMetadata: first.detectedMetadata,
+        metadata: first.metadata
+      };
+      setFiles(prev => prev.flatMap(f => f.id === first.id ? [combined] : combinedIds.includes(f.id) ? [] : [f]));
+      setSelectedIds([]);
+      setEditingId(first.id);
+    } catch (err: any) {
+      console.error("Failed to combine papers", err);
+      setPageError(`Could not read the pages: ${err.message || err}`);
+    }
+  };
+
+  // Undoes a combine: one paper per file, each keeping its own page edits.
+  const separate = (paper: UploadedFile) => {
+    const parts: UploadedFile[] = filesOf(paper).map((file, i) => ({
+      id: i === 0 ? paper.id : createFileId(),
+      file,
+      pages: paper.pages!.filter(p => p.file === file),
+      status: 'pending',
+      metadata: paper.metadata
+    }));
+    setFiles(prev => prev.flatMap(f => f.id === paper.id ? parts : [f]));
+    setEditingId(null);
+    detectDetails(parts);
+  };
+
+  const toggleEditor = async (paper: UploadedFile) => {
+    if (editingId === paper.id) {
+      setEditingId(null);
+      return;
+    }
+    setPageError(null);
+    if (!paper.pages) {
+      setLoadingId(paper.id);
+      try {
+        const pages = await pagesOfFile(paper.file);
+        setFiles(prev => prev.map(f => f.id === paper.id ? { ...f, pages } : f));
+      } catch (err: any) {
+        console.error(`Failed to read pages of ${paper.file.name}`, err);
+        setPageError(`Could not read the pages of ${paper.file.name}: ${err.message || err}`);
+        return;
+      } finally {
+        setLoadingId(null);
+      }
+    }
+    setEditingId(paper.id);
+  };
+
+  // The next run extracts the paper again; failures are never cached.
+  const retryFile = (id: string) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, status: 'pending', error: undefined } : f));
+  };
+
+  const forceReExtract = (id: string) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, fromCache: false, forceExtract: true } : f));
+  };
+
   return (
     <div className="w-full max-w-2xl mx-auto">
       <label 
@@ -50,34 +177,136 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ files, setFiles, dis
 
       {files.length > 0 && (
         <div className="mt-8 space-y-3">
+          {selected.length > 0 && (
+            <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+              <span>{selected.length} selected</span>
+              <button
+                onClick={combineSelected}
+                disabled={selected.length < 2}
+                className="font-semibold text-black dark:text-white hover:underline disabled:opacity-40 disabled:no-underline"
+                title="Treat the selected uploads as the pages of one paper"
+              >
+                Combine into one paper
+              </button>
+            </div>
+          )}
+          {pageError && <p className="text-xs text-red-500 dark:text-red-400">{pageError}</p>}
+          {subjectWarning && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {subjectWarning} Remove the papers that do not belong, or correct their subject under Details.
+            </p>
+          )}
           {files.map((file) => (
-            <div key={file.id} className="flex items-center justify-between p-4 bg-white dark:bg-neutral-900 border border-gray-100 dark:border-neutral-800 rounded-lg shadow-sm hover:shadow-md hover:shadow-gray-200/50 dark:hover:shadow-none transition-all duration-200">
-              <div className="flex items-center space-x-4 overflow-hidden">
-                <div className="flex-shrink-0 w-6 flex justify-center">
-                    {file.status === 'completed' ? (
-                      <span className="text-green-500">
-                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path></svg>
-                      </span>
-                    ) : file.status === 'processing' ? (
-                      <span className="animate-spin w-4 h-4 border-2 border-gray-300 border-t-black dark:border-neutral-600 dark:border-t-white rounded-full"></span>
-                    ) : file.status === 'error' ? (
-                      <span className="text-red-500">✕</span>
-                    ) : (
-                      <span className="w-2 h-2 bg-gray-300 dark:bg-neutral-600 rounded-full"></span>
+            <div key={file.id} className="p-4 bg-white dark:bg-neutral-900 border border-gray-100 dark:border-neutral-800 rounded-lg shadow-sm hover:shadow-md hover:shadow-gray-200/50 dark:hover:shadow-none transition-all duration-200">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-4 overflow-hidden">
+                  {canEditPages(file) && (
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(file.id)}
+                      onChange={() => toggleSelected(file.id)}
+                      className="flex-shrink-0 accent-black dark:accent-white"
+                      aria-label="Select to combine"
+                    />
+                  )}
+                  <div className="flex-shrink-0 w-6 flex justify-center">
+                      {file.status === 'completed' ? (
+                        <span className="text-green-500">
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path></svg>
+                        </span>
+                      ) : file.status === 'processing' ? (
+                        <span className="animate-spin w-4 h-4 border-2 border-gray-300 border-t-black dark:border-neutral-600 dark:border-t-white rounded-full"></span>
+                      ) : file.status === 'error' ? (
+                        <span className="text-red-500">✕</span>
+                      ) : (
+                        <span className="w-2 h-2 bg-gray-300 dark:bg-neutral-600 rounded-full"></span>
+                      )}
+                  </div>
+                  <div className="truncate">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-200 truncate">
+                      {file.file.name}
+                      {filesOf(file).length > 1 && <span className="text-gray-400 font-normal"> + {filesOf(file).length - 1} more</span>}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {file.pages ? `${file.pages.length} ${file.pages.length === 1 ? 'page' : 'pages'} • ` : ''}
+                      {describeMetadata(knownMetadata(file))
+                        ? `${describeMetadata(knownMetadata(file))} • `
+                        : file.detectedYear ? `Year: ${file.detectedYear} • ` : ''}
+                      {file.extractedQuestionsCount !== undefined ? `${file.extractedQuestionsCount} questions` : file.status === 'error' ? 'Failed' : 'Ready'}
+                      {file.fromCache && (
+                        <span className="ml-2 bg-gray-100 text-gray-500 dark:bg-neutral-800 dark:text-gray-400 text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider">Cached</span>
+                      )}
+                      {file.forceExtract && (
+                        <span className="ml-2 text-[10px] font-bold uppercase tracking-wider">Will re-extract</span>
+                      )}
+                    </p>
+                    {file.status === 'error' && file.error && (
+                      <p className="text-xs text-red-500 dark:text-red-400 mt-0.5 whitespace-normal">{file.error}</p>
                     )}
+                  </div>
                 </div>
-                <div className="truncate">
-                  <p className="text-sm font-medium text-gray-900 dark:text-gray-200 truncate">{file.file.name}</p>
-                  <p className="text-xs text-gray-400 mt-0.5">
-                    {file.detectedYear ? `Year: ${file.detectedYear} • ` : ''}
-                    {file.extractedQuestionsCount !== undefined ? `${file.extractedQuestionsCount} questions` : 'Ready'}
-                  </p>
-                </div>
+                {!disabled && (
+                  <div className="flex items-center flex-shrink-0">
+                    {canEditPages(file) && (
+                      <button 
+                        onClick={() => toggleEditor(file)} 
+                        disabled={loadingId === file.id}
+                        className="text-xs font-medium text-gray-400 hover:text-black dark:text-gray-500 dark:hover:text-white transition-colors px-2"
+                        title="Reorder, rotate or crop pages"
+                      >
+                        {loadingId === file.id ? 'Reading...' : editingId === file.id ? 'Done' : 'Pages'}
+                      </button>
+                    )}
+                    {canEditDetails(file) && (
+                      <button 
+                        onClick={() => setDetailsId(detailsId === file.id ? null : file.id)} 
+                        className="text-xs font-medium text-gray-400 hover:text-black dark:text-gray-500 dark:hover:text-white transition-colors px-2"
+                        title="Year, session, board, subject, code and set of this paper"
+                      >
+                        {detailsId === file.id ? 'Done' : 'Details'}
+                      </button>
+                    )}
+                    {canEditPages(file) && filesOf(file).length > 1 && (
+                      <button 
+                        onClick={() => separate(file)} 
+                        className="text-xs font-medium text-gray-400 hover:text-black dark:text-gray-500 dark:hover:text-white transition-colors px-2"
+                        title="Make each file a paper of its own again"
+                      >
+                        Separate
+                      </button>
+                    )}
+                    {file.status === 'error' && (
+                      <button 
+                        onClick={() => retryFile(file.id)} 
+                        className="text-xs font-medium text-gray-400 hover:text-black dark:text-gray-500 dark:hover:text-white transition-colors px-2"
+                      >
+                        Retry
+                      </button>
+                    )}
+                    {file.fromCache && (
+                      <button 
+                        onClick={() => forceReExtract(file.id)} 
+                        className="text-xs font-medium text-gray-400 hover:text-black dark:text-gray-500 dark:hover:text-white transition-colors px-2"
+                        title="Ignore the cached result and extract this paper again"
+                      >
+                        Re-extract
+                      </button>
+                    )}
+                    <button onClick={() => removeFile(file.id)} className="text-gray-300 hover:text-red-500 dark:text-neutral-600 dark:hover:text-red-400 transition-colors p-2">
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+                    </button>
+                  </div>
+                )}
               </div>
-              {!disabled && (
-                <button onClick={() => removeFile(file.id)} className="text-gray-300 hover:text-red-500 dark:text-neutral-600 dark:hover:text-red-400 transition-colors p-2">
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
-                </button>
+              {editingId === file.id && file.pages && canEditPages(file) && (
+                <PageEditor pages={file.pages} onChange={(pages) => setPages(file.id, pages)} />
+              )}
+              {detailsId === file.id && canEditDetails(file) && (
+                <PaperDetailsEditor
+                  detected={file.detectedMetadata}
+                  metadata={file.metadata}
+                  onChange={(metadata) => setMetadata(file.id, metadata)}
+                />
               )}
             </div>
           ))}
@@ -0,0 +1,150 @@
+import React from 'react';
+import { GroupFilters, GroupSort, QuestionType } from '../types';
+import { DEFAULT_FILTERS, hasActiveFilters, QUESTION_TYPE_ORDER, UNCLASSIFIED_CHAPTER } from '../services/groupFilters';
+
+interface FilterToolbarProps {
+  filters: GroupFilters;
+  onChange: (filters: GroupFilters) => void;
+  years: number[];
+  sources: string[];
+  /** Syllabus chapters to browse by; the chapter filter is hidden without a syllabus. */
+  chapters: { id: string; label: string }[];
+}
+
+const SORT_LABELS: Record<GroupSort, string> = {
+  frequency: 'Frequency',
+  recency: 'Most recent',
+  type: 'Question type',
+  marks: 'Marks'
+};
+
+const selectClass = "px-3 py-2 text-sm bg-white dark:bg-neutral-900 border border-gray-200 dark:border-neutral-700 rounded-lg text-gray-900 dark:text-gray-100 focus:outline-none focus:border-gray-400 dark:focus:border-neutral-500 transition-colors";
+const labelClass = "block text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-1";
+
+export const FilterToolbar: React.FC<FilterToolbarProps> = ({ filters, onChange, years, sources, chapters }) => {
+
+  const update = (patch: Partial<GroupFilters>) => onChange({ ...filters, ...patch });
+
+  const toggleType = (type: QuestionType) => {
+    update({
+      types: filters.types.includes(type) ? filters.types.filter(t => t !== type) : [...filters.types, type]
+    });
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${active
+      ? 'bg-black text-white border-black dark:bg-white dark:text-black dark:border-white'
+      : 'text-gray-500 border-gray-200 hover:border-gray-400 dark:text-gray-400 dark:border-neutral-700 dark:hover:border-neutral-500'}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-3">
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Search questions, variants and answers"
+          className={`${selectClass} flex-1`}
+          aria-label="Search"
+        />
+        <select
+          value={filters.sort}
+          onChange={(e) => update({ sort: e.target.value as GroupSort })}
+          className={selectClass}
+          aria-label="Sort by"
+        >
+          {(Object.keys(SORT_LABELS) as GroupSort[]).map(sort => (
+            <option key={sort} value={sort}>Sort: {SORT_LABELS[sort]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => update({ repeatedOnly: !filters.repeatedOnly })} className={chipClass(filters.repeatedOnly)} aria-pressed={filters.repeatedOnly}>
+          Repeated only (2+)
+        </button>
+        <span className="w-px h-5 bg-gray-200 dark:bg-neutral-700 mx-1"></span>
+        {QUESTION_TYPE_ORDER.map(type => (
+          <button key={type} onClick={() => toggleType(type)} className={chipClass(filters.types.includes(type))} aria-pressed={filters.types.includes(type)}>
+            {type}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <label className={labelClass} htmlFor="filter-year-from">From year</label>
+          <select
+            id="filter-year-from"
+            value={filters.yearFrom ?? ''}
+            onChange={(e) => update({ yearFrom: e.target.value ? Number(e.target.value) : undefined })}
+            className={`${selectClass} w-full`}
+          >
+            <option value="">Any</option>
+            {years.map(year => <option key={year} value={year}>{year}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="filter-year-to">To year</label>
+          <select
+            id="filter-year-to"
+            value={filters.yearTo ?? ''}
+            onChange={(e) => update({ yearTo: e.target.value ? Number(e.target.value) : undefined })}
+            className={`${selectClass} w-full`}
+          >
+            <option value="">Any</option>
+            {years.map(year => <option key={year} value={year}>{year}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="filter-frequency">Min. frequency</label>
+          <input
+            id="filter-frequency"
+            type="number"
+            min={1}
+            value={filters.minFrequency}
+            onChange={(e) => update({ minFrequency: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+            className={`${selectClass} w-full`}
+          />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="filter-source">Source paper</label>
+          <select
+            id="filter-source"
+            value={filters.sourceFile}
+            onChange={(e) => update({ sourceFile: e.target.value })}
+            className={`${selectClass} w-full`}
+          >
+            <option value="">All papers</option>
+            {sources.map(source => <option key={source} value={source}>{source}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {chapters.length > 0 && (
+        <div>
+          <label className={labelClass} htmlFor="filter-chapter">Chapter</label>
+          <select
+            id="filter-chapter"
+            value={filters.chapterId}
+            onChange={(e) => update({ chapterId: e.target.value })}
+            className={`${selectClass} w-full`}
+          >
+            <option value="">All chapters</option>
+            {chapters.map(chapter => <option key={chapter.id} value={chapter.id}>{chapter.label}</option>)}
+            <option value={UNCLASSIFIED_CHAPTER}>Not in the syllabus</option>
+          </select>
+        </div>
+      )}
+
+      {hasActiveFilters(filters) && (
+        <button
+          onClick={() => onChange({ ...DEFAULT_FILTERS, sort: filters.sort })}
+          className="text-xs font-medium text-gray-400 hover:text-black dark:text-gray-500 dark:hover:text-white transition-colors"
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,402 @@
+import React, { useEffect, useState } from 'react';
+import { AnalysisGroup, AnswerLength, QuestionType, QuestionVariant, UploadedFile } from '../types';
+import { defaultAnswerLength } from '../services/answerService';
+import { GroupPatch } from '../services/groupEditing';
+import { QUESTION_TYPE_ORDER } from '../services/groupFilters';
+import { averageMarks, formatMarks } from '../services/questionMarks';
+import { groupQuestionIn, languageName, variantLanguages, variantTextIn } from '../services/language';
+import { RichText } from './RichText';
+
+// Controls shown only while the results are in editing mode.
+export interface GroupEditingControls {
+  isSelected: boolean;
+  onToggleSelect: () => void;
+  moveTargets: AnalysisGroup[];
+  /** `toId` null splits the variants off into a new group. */
+  onMoveVariants: (indices: number[], toId: string | null) => void;
+}
+
+interface GroupCardProps {
+  group: AnalysisGroup;
+  rank: number;
+  files: UploadedFile[];
+  /** ISO 639-1 code to show the question in where the papers printed it; empty for the grouped wording. */
+  displayLanguage: string;
+  onGenerateAnswer: (groupId: string, length: AnswerLength) => Promise<void>;
+  onUpdate: (patch: GroupPatch) => void;
+  editing?: GroupEditingControls;
+  chapterLabel?: string;
+  /** Syllabus chapters the group can be moved to while editing. */
+  chapterOptions: { id: string; label: string }[];
+}
+
+const SPLIT_TARGET = '__new__';
+
+const truncate = (text: string, max = 70) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+const ANSWER_LENGTH_LABELS: Record<AnswerLength, string> = {
+  brief: 'Brief',
+  standard: 'Standard',
+  detailed: 'Detailed'
+};
+
+export const GroupCard: React.FC<GroupCardProps> = ({ group, rank, files, displayLanguage, onGenerateAnswer, onUpdate, editing, chapterLabel, chapterOptions }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [answerLength, setAnswerLength] = useState<AnswerLength>(() => defaultAnswerLength(group.type));
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [answerError, setAnswerError] = useState<string | null>(null);
+  const [answerDraft, setAnswerDraft] = useState<string | null>(null); // non-null while the answer is being edited
+  const [questionDraft, setQuestionDraft] = useState(group.normalizedQuestion);
+  const [selectedVariants, setSelectedVariants] = useState<number[]>([]);
+  const [moveTarget, setMoveTarget] = useState(SPLIT_TARGET);
+
+  // Indices point into the old variant list once it changes.
+  useEffect(() => setSelectedVariants([]), [group.variants]);
+  useEffect(() => setQuestionDraft(group.normalizedQuestion), [group.normalizedQuestion]);
+
+  const generate = async (length: AnswerLength) => {
+    setIsGenerating(true);
+    setAnswerError(null);
+    try {
+      await onGenerateAnswer(group.id, length);
+    } catch (err: any) {
+      console.error(`Error generating answer for ${group.id}:`, err);
+      setAnswerError(err.message || "Could not generate an answer.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // Answers are written lazily, the first time someone opens the card.
+  useEffect(() => {
+    if (isOpen && !group.answer && !isGenerating && !answerError && answerDraft === null) {
+      generate(answerLength);
+    }
+  }, [isOpen]);
+
+  // By id where the variant has one, as two papers may share a file name.
+  const findSourcePaper = (variant: QuestionVariant) =>
+    files.find(f => f.id === variant.paperId) ?? files.find(f => f.file.name === variant.sourceFile);
+
+  // Opens the original page in a new tab; PDF viewers honour the #page fragment.
+  // In a paper assembled from several files, the page number picks the file.
+  const openSource = (variant: QuestionVariant) => {
+    const paper = findSourcePaper(variant);
+    if (!paper) return;
+    const page = variant.page ? paper.pages?.[variant.page - 1] : undefined;
+    const file = page ? page.file : paper.file;
+    const pdfPage = page ? page.pdfPage : variant.page;
+    const url = URL.createObjectURL(file);
+    const pageFragment = pdfPage && file.type === 'application/pdf' ? `#page=${pdfPage}` : '';
+    window.open(`${url}${pageFragment}`, '_blank', 'noopener');
+    // Give the new tab time to load before releasing the blob.
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  const commitQuestion = () => {
+    const text = questionDraft.trim();
+    if (text && text !== group.normalizedQuestion) onUpdate({ normalizedQuestion: text });
+    else setQuestionDraft(group.normalizedQuestion);
+  };
+
+  const saveAnswer = () => {
+    if (answerDraft === null) return;
+    const answer = answerDraft.trim();
+    // Saving an untouched draft would approve it.
+    if (answer !== group.answer) onUpdate({ answer });
+    setAnswerDraft(null);
+  };
+
+  const toggleVariant = (index: number) => {
+    setSelectedVariants(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+  };
+
+  const moveSelectedVariants = () => {
+    editing?.onMoveVariants(selectedVariants, moveTarget === SPLIT_TARGET ? null : moveTarget);
+    setMoveTarget(SPLIT_TARGET);
+  };
+
+  const isMultilingual = variantLanguages(group.variants).length > 1;
+
+  const describeSource = (variant: QuestionVariant) => [
+    variant.sourceFile,
+    variant.session ? `${variant.session} ${variant.year}` : variant.year,
+    isMultilingual && variant.language
+      ? [variant.language, ...(variant.translations ?? []).map(t => t.language)].map(languageName).join(' + ')
+      : null,
+    variant.page ? `p. ${variant.page}` : null,
+    variant.section ? `Section ${variant.section}` : null,
+    variant.questionNumber ? `Q${variant.questionNumber.replace(/^Q/i, '')}` : null,
+    variant.alternativeTo ? `or Q${variant.alternativeTo.replace(/^Q/i, '')}` : null,
+    variant.marks ? formatMarks(variant.marks) : null
+  ].filter(Boolean).join(' · ');
+
+  const marks = averageMarks(group.variants);
+
+  return (
+    <div className={`group bg-white dark:bg-neutral-900 rounded-2xl border ${editing?.isSelected ? 'border-black dark:border-white' : 'border-gray-100 dark:border-neutral-800'} p-8 hover:border-gray-200 dark:hover:border-neutral-700 hover:shadow-xl hover:shadow-gray-100/50 dark:hover:shadow-none transition-all duration-300`}>
+
+      {/* Question Header */}
+      <div className="flex items-start justify-between gap-6 mb-6">
+        <div className="flex-1">
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            {editing && (
+              <input
+                type="checkbox"
+                checked={editing.isSelected}
+                onChange={editing.onToggleSelect}
+                className="w-4 h-4 accent-black dark:accent-white"
+                aria-label="Select for merging"
+              />
+            )}
+            <span className="bg-black text-white dark:bg-white dark:text-black text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider transition-colors">
+              #{rank} Most Repeated
+            </span>
+            {editing ? (
+              <select
+                value={group.type}
+                onChange={(e) => onUpdate({ type: e.target.value as QuestionType })}
+                className="bg-gray-100 text-gray-600 dark:bg-neutral-800 dark:text-gray-400 text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider focus:outline-none"
+                aria-label="Question type"
+              >
+                {QUESTION_TYPE_ORDER.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            ) : (
+              <span className="bg-gray-100 text-gray-600 dark:bg-neutral-800 dark:text-gray-400 text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider transition-colors">
+                {group.type}
+              </span>
+            )}
+            {marks !== undefined && (
+              <span
+                className="bg-gray-100 text-gray-600 dark:bg-neutral-800 dark:text-gray-400 text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider transition-colors"
+                title="Average marks over the papers that printed them"
+              >
+                {group.frequency > 1 ? 'Avg. ' : ''}{formatMarks(marks)}
+              </span>
+            )}
+            {editing && chapterOptions.length > 0 ? (
+              <select
+                value={group.chapterId ?? ''}
+                onChange={(e) => onUpdate({ chapterId: e.target.value || undefined, topic: undefined })}
+                className="bg-gray-100 text-gray-600 dark:bg-neutral-800 dark:text-gray-400 text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider focus:outline-none max-w-[16rem]"
+                aria-label="Syllabus chapter"
+              >
+                <option value="">No chapter</option>
+                {chapterOptions.map(chapter => <option key={chapter.id} value={chapter.id}>{chapter.label}</option>)}
+              </select>
+            ) : chapterLabel && (
+              <span className="border border-gray-200 dark:border-neutral-700 text-gray-500 dark:text-gray-400 text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider transition-colors" title={group.topic}>
+                {chapterLabel}
+              </span>
+            )}
+            {group.editedByHand && (
+              <span
+                className="border border-dashed border-gray-300 dark:border-neutral-600 text-gray-500 dark:text-gray-400 text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider transition-colors"
+                title="Regrouped or reworded by hand; kept as-is when the analysis is re-run"
+              >
+                Edited by hand
+              </span>
+            )}
+            {group.similarity !== undefined && group.frequency > 1 && (
+              <span
+                className="border border-gray-200 dark:border-neutral-700 text-gray-500 dark:text-gray-400 text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider transition-colors"
+                title="Average text similarity between the merged variants"
+              >
+                {Math.round(group.similarity * 100)}% Similar
+              </span>
+            )}
+          </div>
+          {editing ? (
+            <textarea
+              value={questionDraft}
+              onChange={(e) => setQuestionDraft(e.target.value)}
+              onBlur={commitQuestion}
+              rows={2}
+              className="w-full text-xl md:text-2xl font-bold text-gray-900 dark:text-gray-100 leading-tight bg-transparent border-b border-gray-200 dark:border-neutral-700 focus:outline-none focus:border-gray-400 dark:focus:border-neutral-500 resize-y"
+              aria-label="Question wording"
+            />
+          ) : (
+            <h4 className="text-xl md:text-2xl font-bold text-gray-900 dark:text-gray-100 leading-tight group-hover:text-black dark:group-hover:text-white transition-colors">
+              <RichText text={groupQuestionIn(group, displayLanguage)} inline />
+            </h4>
+          )}
+        </div>
+
+        <div className="flex flex-col items-center justify-center bg-gray-50 dark:bg-neutral-800 rounded-xl p-4 min-w-[80px] transition-colors">
+           <span className="text-3xl font-black text-black dark:text-white">{group.frequency}</span>
+           <span className="text-[10px] font-bold text-gray-400 uppercase mt-1">Times</span>
+        </div>
+      </div>
+
+      {/* Meta Info */}
+      <div className="flex flex-wrap items-center justify-between gap-4 text-sm">
+        <div className="flex flex-wrap gap-2">
+          <span className="text-gray-400 font-medium">Appeared in:</span>
+          {group.years.map((year, i) => (
+            <span key={i} className="bg-white dark:bg-neutral-900 border border-gray-200 dark:border-neutral-700 text-gray-600 dark:text-gray-400 px-2 py-0.5 rounded text-xs font-mono transition-colors">
+              {year}
+            </span>
+          ))}
+        </div>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-sm font-medium text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors"
+          aria-expanded={isOpen}
+        >
+          {isOpen ? 'Hide details' : 'Show variants & answer'}
+        </button>
+      </div>
+
+      {/* Split Layout: Variants & Answer */}
+      {isOpen && (
+        <div className="grid md:grid-cols-12 gap-8 pt-8 mt-8 border-t border-gray-50 dark:border-neutral-800 transition-colors">
+
+          {/* Left: Variants */}
+          <div className="md:col-span-4 space-y-4">
+            <p className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">Original Variants</p>
+            <ul className="space-y-3">
+              {group.variants.map((v, i) => (
+                <li key={i} className="text-sm text-gray-500 dark:text-gray-400 leading-relaxed pl-3 border-l-2 border-gray-100 dark:border-neutral-800 transition-colors">
+                  {editing && (
+                    <input
+                      type="checkbox"
+                      checked={selectedVariants.includes(i)}
+                      onChange={() => toggleVariant(i)}
+                      className="mr-2 align-middle accent-black dark:accent-white"
+                      aria-label="Select variant"
+                    />
+                  )}
+                  <span className="italic">"<RichText text={(displayLanguage && variantTextIn(v, displayLanguage)) || v.text} inline />"</span>
+                  {findSourcePaper(v) ? (
+                    <button
+                      onClick={() => openSource(v)}
+                      className="block mt-1 text-[11px] font-mono text-gray-400 hover:text-black dark:text-gray-500 dark:hover:text-white underline decoration-dotted underline-offset-2 text-left transition-colors"
+                      title="Open the original paper"
+                    >
+                      {describeSource(v)} ↗
+                    </button>
+                  ) : (
+                    <span className="block mt-1 text-[11px] font-mono text-gray-400 dark:text-gray-500">
+                      {describeSource(v)}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {editing && selectedVariants.length > 0 && (
+              <div className="space-y-2 pt-2">
+                <select
+                  value={moveTarget}
+                  onChange={(e) => setMoveTarget(e.target.value)}
+                  className="w-full text-xs px-2 py-1.5 bg-white dark:bg-neutral-900 border border-gray-200 dark:border-neutral-700 rounded-lg text-gray-700 dark:text-gray-300 focus:outline-none"
+                  aria-label="Move selected variants to"
+                >
+                  <option value={SPLIT_TARGET}>A new group (split)</option>
+                  {editing.moveTargets.filter(g => g.id !== group.id).map(g => (
+                    <option key={g.id} value={g.id}>{truncate(g.normalizedQuestion)}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={moveSelectedVariants}
+                  className="text-xs font-semibold text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors"
+                >
+                  Move {selectedVariants.length} {selectedVariants.length === 1 ? 'variant' : 'variants'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Right: Answer */}
+          <div className="md:col-span-8">
+            <div className="bg-gray-50 dark:bg-neutral-800/50 rounded-xl p-6 md:p-8 transition-colors">
+              <div className="flex items-center justify-between gap-4 mb-4">
+                <div className="flex items-center gap-2">
+                  <div className={`w-1.5 h-1.5 rounded-full ${isGenerating ? 'bg-amber-400 animate-pulse' : 'bg-green-500'}`}></div>
+                  <p className="text-xs font-bold text-gray-900 dark:text-gray-200 uppercase tracking-wider">Model Answer</p>
+                  {group.answer && group.answerLanguage && (
+                    <span className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{languageName(group.answerLanguage)}</span>
+                  )}
+                  {group.answerApproved && (
+                    <span className="text-[10px] font-bold text-green-600 dark:text-green-400 uppercase tracking-wider">✓ Approved</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  {group.answer && !isGenerating && answerDraft === null && (
+                    <>
+                      <button
+                        onClick={() => onUpdate({ answerApproved: !group.answerApproved })}
+                        className="text-xs font-semibold text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors"
+                      >
+                        {group.answerApproved ? 'Unapprove' : 'Approve'}
+                      </button>
+                      <button
+                        onClick={() => setAnswerDraft(group.answer)}
+                        className="text-xs font-semibold text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors"
+                      >
+                        Edit
+                      </button>
+                    </>
+                  )}
+                  {!group.answer && !isGenerating && answerDraft === null && (
+                    <button
+                      onClick={() => setAnswerDraft('')}
+                      className="text-xs font-semibold text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors"
+                    >
+                      Write answer
+                    </button>
+                  )}
+                  <select
+                    value={answerLength}
+                    onChange={(e) => setAnswerLength(e.target.value as AnswerLength)}
+                    disabled={isGenerating || answerDraft !== null}
+                    className="text-xs bg-transparent text-gray-500 dark:text-gray-400 focus:outline-none"
+                    aria-label="Answer length"
+                  >
+                    {(Object.keys(ANSWER_LENGTH_LABELS) as AnswerLength[]).map(length => (
+                      <option key={length} value={length}>{ANSWER_LENGTH_LABELS[length]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => generate(answerLength)}
+                    disabled={isGenerating || answerDraft !== null}
+                    className="text-xs font-semibold text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white disabled:opacity-50 transition-colors"
+                  >
+                    {isGenerating ? 'Writing...' : group.answer ? 'Regenerate' : 'Generate'}
+                  </button>
+                </div>
+              </div>
+              {answerError && (
+                <p className="text-sm text-red-600 dark:text-red-400 mb-4">{answerError}</p>
+              )}
+              {answerDraft !== null ? (
+                <div className="space-y-3">
+                  <textarea
+                    autoFocus
+                    value={answerDraft}
+                    onChange={(e) => setAnswerDraft(e.target.value)}
+                    rows={10}
+                    className="w-full px-3 py-2 text-sm bg-white dark:bg-neutral-900 border border-gray-200 dark:border-neutral-700 rounded-lg text-gray-900 dark:text-gray-100 focus:outline-none focus:border-gray-400 dark:focus:border-neutral-500 font-mono"
+                    aria-label="Answer text"
+                  />
+                  <div className="flex justify-end gap-4">
+                    <button onClick={() => setAnswerDraft(null)} className="text-xs font-semibold text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors">
+                      Cancel
+                    </button>
+                    <button onClick={saveAnswer} className="text-xs font-semibold text-black dark:text-white hover:underline">
+                      Save answer
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="prose prose-sm prose-gray dark:prose-invert max-w-none text-gray-700 dark:text-gray-300 leading-relaxed transition-colors">
+                  <RichText text={group.answer} />
+                </div>
+              )}
+            </div>
+          </div>
+
+        </div>
+      )}
+    </div>
+  );
+};
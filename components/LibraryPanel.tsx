@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { SavedAnalysis } from '../types';
+import { deleteAnalysis, duplicateAnalysis, listAnalyses, renameAnalysis } from '../services/libraryService';
+
+interface LibraryPanelProps {
+  onOpen: (analysis: SavedAnalysis) => void;
+}
+
+export const LibraryPanel: React.FC<LibraryPanelProps> = ({ onOpen }) => {
+  const [analyses, setAnalyses] = useState<SavedAnalysis[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const refresh = () => {
+    listAnalyses()
+      .then(setAnalyses)
+      .catch(err => console.error("Failed to load saved analyses", err));
+  };
+
+  useEffect(refresh, []);
+
+  const startRename = (analysis: SavedAnalysis) => {
+    setRenamingId(analysis.id);
+    setDraftName(analysis.name);
+  };
+
+  const commitRename = async () => {
+    if (renamingId && draftName.trim()) {
+      await renameAnalysis(renamingId, draftName.trim());
+      refresh();
+    }
+    setRenamingId(null);
+  };
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateAnalysis(id);
+    refresh();
+  };
+
+  const handleDelete = async (analysis: SavedAnalysis) => {
+    if (!window.confirm(`Delete "${analysis.name}"? This cannot be undone.`)) return;
+    await deleteAnalysis(analysis.id);
+    refresh();
+  };
+
+  if (analyses.length === 0) return null;
+
+  const actionClass = "text-xs font-medium text-gray-400 hover:text-black dark:text-gray-500 dark:hover:text-white transition-colors";
+
+  return (
+    <div className="w-full max-w-2xl mx-auto space-y-4">
+      <p className="text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wider">Saved Analyses</p>
+      <div className="space-y-3">
+        {analyses.map(analysis => (
+          <div key={analysis.id} className="flex items-center justify-between gap-4 p-4 bg-white dark:bg-neutral-900 border border-gray-100 dark:border-neutral-800 rounded-lg shadow-sm hover:shadow-md hover:shadow-gray-200/50 dark:hover:shadow-none transition-all duration-200">
+            <div className="flex-1 overflow-hidden">
+              {renamingId === analysis.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="w-full text-sm font-medium bg-transparent border-b border-gray-300 dark:border-neutral-600 text-gray-900 dark:text-gray-200 focus:outline-none"
+                />
+              ) : (
+                <button onClick={() => onOpen(analysis)} className="text-left w-full">
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-200 truncate">{analysis.name}</p>
+                  <p className="text-xs text-gray-400 mt-0.5">
+                    {analysis.summary.totalRepeatedGroups} groups • {analysis.files.length} papers • {new Date(analysis.updatedAt).toLocaleString()}
+                  </p>
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-3 flex-shrink-0">
+              <button onClick={() => onOpen(analysis)} className={actionClass}>Open</button>
+              <button onClick={() => startRename(analysis)} className={actionClass}>Rename</button>
+              <button onClick={() => handleDuplicate(analysis.id)} className={actionClass}>Duplicate</button>
+              <button onClick={() => handleDelete(analysis)} className="text-xs font-medium text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400 transition-colors">Delete</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PageCrop, PageRotation, PaperPage } from '../types';
+import { pageThumbnail, renderPage } from '../services/pageRenderer';
+
+interface PageEditorProps {
+  pages: PaperPage[];
+  onChange: (pages: PaperPage[]) => void;
+}
+
+const actionClass = "text-xs font-medium text-gray-400 hover:text-black dark:text-gray-500 dark:hover:text-white disabled:opacity-30 transition-colors";
+
+// Crops smaller than this share of the page are treated as a stray click.
+const MIN_CROP = 0.02;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const PageThumbnail: React.FC<{ page: PaperPage }> = ({ page }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    setSrc(null);
+    setFailed(false);
+    pageThumbnail(page)
+      .then(url => active && setSrc(url))
+      .catch(err => {
+        console.error("Failed to render page preview", err);
+        if (active) setFailed(true);
+      });
+    return () => { active = false; };
+  }, [page.file, page.pdfPage, page.rotation, page.crop]);
+
+  if (src) return <img src={src} alt="" className="max-h-full max-w-full object-contain" />;
+  return <span className="text-[10px] text-gray-400">{failed ? 'No preview' : '...'}</span>;
+};
+
+/**
+ * Draw a rectangle over the (rotated) page to keep only that part of it.
+ */
+const CropEditor: React.FC<{ page: PaperPage; onApply: (crop: PageCrop | undefined) => void; onCancel: () => void }> = ({ page, onApply, onCancel }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [area, setArea] = useState<PageCrop | null>(page.crop ?? null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    renderPage(page, { maxDimension: 900, applyCrop: false })
+      .then(canvas => active && setSrc(canvas.toDataURL('image/jpeg', 0.8)))
+      .catch(err => console.error("Failed to render page for cropping", err));
+    return () => { active = false; };
+  }, [page.file, page.pdfPage, page.rotation]);
+
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = pointAt(e);
+    setArea(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStart.current;
+    if (!start) return;
+    const point = pointAt(e);
+    setArea({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y)
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    setArea(prev => prev && prev.width >= MIN_CROP && prev.height >= MIN_CROP ? prev : null);
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      <p className="text-xs text-gray-400 dark:text-gray-500">Drag over the part of the page to keep.</p>
+      {src ? (
+        <div
+          ref={frameRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          className="relative inline-block overflow-hidden cursor-crosshair select-none touch-none border border-gray-200 dark:border-neutral-700"
+        >
+          <img src={src} alt="Page to crop" draggable={false} className="block max-h-[60vh] max-w-full" />
+          {area && (
+            <div
+              className="absolute border-2 border-white pointer-events-none"
+              style={{
+                left: `${area.x * 100}%`,
+                top: `${area.y * 100}%`,
+                width: `${area.width * 100}%`,
+                height: `${area.height * 100}%`,
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)'
+              }}
+            />
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400">Rendering page...</p>
+      )}
+      <div className="flex items-center gap-4">
+        <button onClick={() => onApply(area ?? undefined)} className="text-xs font-semibold text-black dark:text-white hover:underline">
+          {area ? 'Apply crop' : 'Keep whole page'}
+        </button>
+        <button onClick={onCancel} className={actionClass}>Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * The pages of one paper in reading order, to reorder, rotate, crop or drop before extraction.
+ */
+export const PageEditor: React.FC<PageEditorProps> = ({ pages, onChange }) => {
+  const [croppingId, setCroppingId] = useState<string | null>(null);
+  const cropping = pages.find(p => p.id === croppingId);
+
+  const update = (id: string, patch: Partial<PaperPage>) =>
+    onChange(pages.map(p => p.id === id ? { ...p, ...patch } : p));
+
+  const move = (index: number, offset: number) => {
+    const next = [...pages];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  // A turn changes which way is up, so an existing crop no longer fits.
+  const rotate = (page: PaperPage) =>
+    update(page.id, { rotation: ((page.rotation + 90) % 360) as PageRotation, crop: undefined });
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-50 dark:border-neutral-800">
+      <ol className="flex flex-wrap gap-3">
+        {pages.map((page, i) => (
+          <li key={page.id} className="w-28 space-y-1">
+            <div className={`h-36 flex items-center justify-center bg-gray-50 dark:bg-neutral-800 rounded border ${page.id === croppingId ? 'border-black dark:border-white' : 'border-gray-100 dark:border-neutral-700'}`}>
+              <PageThumbnail page={page} />
+            </div>
+            <p className="text-[10px] font-mono text-gray-400 truncate" title={page.file.name}>
+              {i + 1}. {page.pdfPage ? `p. ${page.pdfPage}` : page.file.name}
+            </p>
+            <div className="flex items-center justify-between">
+              <button onClick={() => move(i, -1)} disabled={i === 0} className={actionClass} aria-label="Move page earlier">←</button>
+              <button onClick={() => rotate(page)} className={actionClass} aria-label="Rotate page" title="Rotate 90°">↻</button>
+              <button onClick={() => setCroppingId(page.id === croppingId ? null : page.id)} className={actionClass} title="Crop">
+                {page.crop ? 'Crop*' : 'Crop'}
+              </button>
+              <button onClick={() => onChange(pages.filter(p => p.id !== page.id))} disabled={pages.length === 1} className={actionClass} aria-label="Remove page">✕</button>
+              <button onClick={() => move(i, 1)} disabled={i === pages.length - 1} className={actionClass} aria-label="Move page later">→</button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      {cropping && (
+        <CropEditor
+          key={cropping.id}
+          page={cropping}
+          onApply={(crop) => { update(cropping.id, { crop }); setCroppingId(null); }}
+          onCancel={() => setCroppingId(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { PaperMetadata } from '../types';
+import { METADATA_FIELDS } from '../services/paperMetadata';
+
+interface PaperDetailsEditorProps {
+  detected?: PaperMetadata;
+  metadata?: PaperMetadata;
+  onChange: (metadata: PaperMetadata) => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 text-xs bg-white dark:bg-neutral-900 border border-gray-200 dark:border-neutral-700 rounded text-gray-900 dark:text-gray-100 placeholder-gray-300 dark:placeholder-neutral-600 focus:outline-none focus:border-gray-400 dark:focus:border-neutral-500 transition-colors";
+
+/**
+ * Year, session, board, subject, code and set of one paper. Detected values show as
+ * placeholders; anything typed here replaces what the extraction reads from the paper.
+ */
+export const PaperDetailsEditor: React.FC<PaperDetailsEditorProps> = ({ detected, metadata, onChange }) => {
+  const update = (key: keyof PaperMetadata, value: string) => {
+    const next = { ...metadata, [key]: value };
+    if (!value.trim()) delete next[key];
+    onChange(next);
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-50 dark:border-neutral-800">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {METADATA_FIELDS.map(field => (
+          <label key={field.key} className="block">
+            <span className="block text-[10px] font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-1">{field.label}</span>
+            <input
+              className={inputClass}
+              value={metadata?.[field.key] ?? ''}
+              placeholder={detected?.[field.key] ?? field.placeholder}
+              onChange={(e) => update(field.key, e.target.value)}
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-400 dark:text-gray-500 mt-2">
+        Leave a field empty to use what is read from the paper.
+      </p>
+    </div>
+  );
+};
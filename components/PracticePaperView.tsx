@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { AnalysisGroup, AnswerLength, BlueprintSection, PaperBlueprint, PracticePaper, QuestionType } from '../types';
+import { blueprintTotalMarks } from '../services/practicePaperService';
+import { defaultAnswerLength } from '../services/answerService';
+import { QUESTION_TYPE_ORDER } from '../services/groupFilters';
+import { printHtml, toAnswerKeyHtml, toPracticePaperHtml } from '../services/export';
+import { RichText } from './RichText';
+
+interface PracticePaperViewProps {
+  groups: AnalysisGroup[];
+  blueprint: PaperBlueprint;
+  onBlueprintChange: (blueprint: PaperBlueprint) => void;
+  paper: PracticePaper | null;
+  onGenerate: (blueprint: PaperBlueprint, seed: number) => Promise<void>;
+  onGenerateAnswer: (groupId: string, length: AnswerLength) => Promise<void>;
+}
+
+const inputClass = "px-3 py-2 text-sm bg-white dark:bg-neutral-900 border border-gray-200 dark:border-neutral-700 rounded-lg text-gray-900 dark:text-gray-100 focus:outline-none focus:border-gray-400 dark:focus:border-neutral-500 transition-colors";
+const labelClass = "block text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-1";
+const sectionTitleClass = "text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-4";
+const actionClass = "text-sm font-medium text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white disabled:opacity-40 transition-colors";
+
+const wholeNumber = (value: string, min = 0) => Math.max(min, Math.round(Number(value)) || min);
+
+export const PracticePaperView: React.FC<PracticePaperViewProps> = ({ groups, blueprint, onBlueprintChange, paper, onGenerate, onGenerateAnswer }) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isWritingAnswers, setIsWritingAnswers] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const total = blueprintTotalMarks(blueprint);
+  const usesModel = blueprint.sections.some(s => s.freshCount > 0);
+  const answered = new Set(groups.filter(g => g.answer).map(g => g.id));
+  const unanswered = paper
+    ? paper.sections.flatMap(s => s.questions).filter(q => q.groupId && !answered.has(q.groupId))
+    : [];
+
+  const update = (patch: Partial<PaperBlueprint>) => onBlueprintChange({ ...blueprint, ...patch });
+
+  const updateSection = (index: number, patch: Partial<BlueprintSection>) =>
+    update({ sections: blueprint.sections.map((s, i) => i === index ? { ...s, ...patch } : s) });
+
+  const addSection = () => update({
+    sections: [...blueprint.sections, {
+      name: `Section ${String.fromCharCode(65 + blueprint.sections.length)}`,
+      type: 'Short Question',
+      count: 5,
+      freshCount: 0,
+      marksEach: 3
+    }]
+  });
+
+  const generate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      await onGenerate(blueprint, Date.now());
+    } catch (err: any) {
+      console.error("Practice Paper Error:", err);
+      setError(err.message || "Could not assemble the paper.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // One at a time, so the answers stream in order and share the provider's rate limit politely.
+  const writeMissingAnswers = async () => {
+    setIsWritingAnswers(true);
+    setError(null);
+    try {
+      for (const question of unanswered) {
+        await onGenerateAnswer(question.groupId!, defaultAnswerLength(question.type));
+      }
+    } catch (err: any) {
+      console.error("Answer Key Error:", err);
+      setError(err.message || "Could not write every answer.");
+    } finally {
+      setIsWritingAnswers(false);
+    }
+  };
+
+  const print = (html: string) => {
+    try {
+      printHtml(html);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-12">
+
+      {/* Blueprint */}
+      <section className="space-y-4">
+        <p className={sectionTitleClass}>Blueprint</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label className={labelClass} htmlFor="paper-title">Title</label>
+            <input id="paper-title" value={blueprint.title} onChange={(e) => update({ title: e.target.value })} className={`${inputClass} w-full`} />
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="paper-duration">Time (minutes)</label>
+            <input id="paper-duration" type="number" min={1} value={blueprint.durationMinutes} onChange={(e) => update({ durationMinutes: wholeNumber(e.target.value, 1) })} className={`${inputClass} w-full`} />
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="paper-marks">Total marks</label>
+            <input id="paper-marks" type="number" min={1} value={blueprint.totalMarks} onChange={(e) => update({ totalMarks: wholeNumber(e.target.value, 1) })} className={`${inputClass} w-full`} />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-400 dark:text-gray-500 border-b border-gray-100 dark:border-neutral-800">
+                <th className="text-left font-medium py-2 pr-2">Section</th>
+                <th className="text-left font-medium px-2">Type</th>
+                <th className="text-right font-medium px-2" title="Picked from the analysed papers">Repeated</th>
+                <th className="text-right font-medium px-2" title="Newly written by the model on topics the papers rarely cover">New</th>
+                <th className="text-right font-medium px-2">Marks each</th>
+                <th className="text-right font-medium px-2">Marks</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {blueprint.sections.map((section, i) => (
+                <tr key={i} className="border-b border-gray-50 dark:border-neutral-900">
+                  <td className="py-2 pr-2">
+                    <input value={section.name} onChange={(e) => updateSection(i, { name: e.target.value })} className={`${inputClass} w-full`} aria-label="Section name" />
+                  </td>
+                  <td className="px-2">
+                    <select value={section.type} onChange={(e) => updateSection(i, { type: e.target.value as QuestionType })} className={inputClass} aria-label="Question type">
+                      {QUESTION_TYPE_ORDER.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-2">
+                    <input type="number" min={0} value={section.count} onChange={(e) => updateSection(i, { count: wholeNumber(e.target.value) })} className={`${inputClass} w-20 text-right`} aria-label="Repeated questions" />
+                  </td>
+                  <td className="px-2">
+                    <input type="number" min={0} value={section.freshCount} onChange={(e) => updateSection(i, { freshCount: wholeNumber(e.target.value) })} className={`${inputClass} w-20 text-right`} aria-label="New questions" />
+                  </td>
+                  <td className="px-2">
+                    <input type="number" min={1} value={section.marksEach} onChange={(e) => updateSection(i, { marksEach: wholeNumber(e.target.value, 1) })} className={`${inputClass} w-20 text-right`} aria-label="Marks each" />
+                  </td>
+                  <td className="px-2 text-right font-mono text-gray-600 dark:text-gray-300">{(section.count + section.freshCount) * section.marksEach}</td>
+                  <td className="pl-2 text-right">
+                    <button onClick={() => update({ sections: blueprint.sections.filter((_, j) => j !== i) })} className={actionClass} aria-label="Remove section">✕</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <button onClick={addSection} className={actionClass}>Add section</button>
+          <p className={`text-sm ${total === blueprint.totalMarks ? 'text-gray-500 dark:text-gray-400' : 'text-amber-600 dark:text-amber-400'}`}>
+            Sections add up to {total} marks{total !== blueprint.totalMarks ? `, not the intended ${blueprint.totalMarks}` : ''}.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-6">
+          <button
+            onClick={generate}
+            disabled={isGenerating || blueprint.sections.length === 0}
+            className="px-6 py-2.5 rounded-full font-semibold text-sm bg-black text-white hover:bg-gray-800 dark:bg-white dark:text-black dark:hover:bg-gray-200 disabled:opacity-40 transition-all"
+          >
+            {isGenerating ? 'Assembling...' : paper ? 'Assemble another paper' : 'Assemble paper'}
+          </button>
+          <p className="text-xs text-gray-400 dark:text-gray-500">
+            Questions asked more often and more recently are more likely to be picked.
+            {usesModel && ' New questions are written by the model and cost a request.'}
+          </p>
+        </div>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </section>
+
+      {/* Preview */}
+      {paper && (
+        <section className="space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h3 className="text-xl font-bold text-black dark:text-white">{paper.title}</h3>
+              <p className="text-sm text-gray-400 dark:text-gray-500">Time: {paper.durationMinutes} minutes · Maximum marks: {paper.totalMarks}</p>
+            </div>
+            <div className="flex items-center gap-6">
+              {unanswered.length > 0 && (
+                <button onClick={writeMissingAnswers} disabled={isWritingAnswers} className={actionClass}>
+                  {isWritingAnswers ? 'Writing answers...' : `Write ${unanswered.length} missing answers`}
+                </button>
+              )}
+              <button onClick={() => print(toPracticePaperHtml(paper))} className={actionClass}>Print paper</button>
+              <button onClick={() => print(toAnswerKeyHtml(paper, groups))} className={actionClass}>Print answer key</button>
+            </div>
+          </div>
+
+          {paper.sections.map((section, i) => (
+            <div key={i} className="space-y-3">
+              <p className="text-sm font-bold text-black dark:text-white">{section.name}</p>
+              {section.shortfall > 0 && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">
+                  {section.shortfall} {section.shortfall === 1 ? 'slot' : 'slots'} could not be filled; the analysis has no more questions of this type.
+                </p>
+              )}
+              <ol className="space-y-2">
+                {section.questions.map(q => (
+                  <li key={q.number} className="flex gap-3 text-sm text-gray-900 dark:text-gray-200">
+                    <span className="font-mono text-gray-400 w-6 text-right">{q.number}.</span>
+                    <span className="flex-1">
+                      <RichText text={q.text} inline />
+                      {!q.groupId && <span className="ml-2 text-[10px] font-bold uppercase tracking-wider text-gray-400">New</span>}
+                    </span>
+                    <span className="font-mono text-xs text-gray-400">[{q.marks}]</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))}
+        </section>
+      )}
+    </div>
+  );
+};
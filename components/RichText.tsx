@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { MdBlock, MdInline, parseInline, parseMarkdown, renderMath } from '../services/markdown';
+
+interface RichTextProps {
+  text: string;
+  /** Question wording and other one-line text: formatting and math only, no blocks. */
+  inline?: boolean;
+  className?: string;
+}
+
+// The only HTML inserted is KaTeX's output, which escapes the formula source (see renderMath).
+const Formula: React.FC<{ tex: string; display: boolean }> = ({ tex, display }) => {
+  const html = useMemo(() => renderMath(tex, display), [tex, display]);
+  return display
+    ? <span className="block my-3 overflow-x-auto" dangerouslySetInnerHTML={{ __html: html }} />
+    : <span dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+const renderInline = (nodes: MdInline[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'strong': return <strong key={i} className="text-gray-900 dark:text-white">{renderInline(node.children)}</strong>;
+      case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+      case 'del': return <del key={i}>{renderInline(node.children)}</del>;
+      case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-gray-100 dark:bg-neutral-800 text-[0.9em]">{node.text}</code>;
+      case 'math': return <Formula key={i} tex={node.tex} display={node.display} />;
+      case 'link': return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="underline">{renderInline(node.children)}</a>;
+      case 'break': return <br key={i} />;
+    }
+  });
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm', 'text-sm'];
+
+const renderItem = (item: MdBlock[]) =>
+  item.length === 1 && item[0].type === 'paragraph' ? renderInline(item[0].children) : renderBlocks(item);
+
+const renderBlocks = (blocks: MdBlock[]): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3';
+        return <Tag key={i} className={`${HEADING_CLASSES[block.level - 1]} font-bold text-gray-900 dark:text-white mt-4 mb-2`}>{renderInline(block.children)}</Tag>;
+      }
+      case 'paragraph': return <p key={i} className="my-2">{renderInline(block.children)}</p>;
+      case 'blockquote':
+        return <blockquote key={i} className="pl-4 border-l-2 border-gray-300 dark:border-neutral-600 my-2 text-gray-600 dark:text-gray-400">{renderBlocks(block.children)}</blockquote>;
+      case 'code':
+        return <pre key={i} className="my-2 p-3 rounded-lg bg-gray-100 dark:bg-neutral-800 overflow-x-auto text-xs"><code>{block.text}</code></pre>;
+      case 'math': return <Formula key={i} tex={block.tex} display />;
+      case 'hr': return <hr key={i} className="my-4 border-gray-200 dark:border-neutral-700" />;
+      case 'list':
+        return block.ordered
+          ? <ol key={i} start={block.start} className="list-decimal pl-6 my-2 space-y-1">{block.items.map((item, j) => <li key={j}>{renderItem(item)}</li>)}</ol>
+          : <ul key={i} className="list-disc pl-6 my-2 space-y-1">{block.items.map((item, j) => <li key={j}>{renderItem(item)}</li>)}</ul>;
+      case 'table':
+        return (
+          <div key={i} className="my-3 overflow-x-auto">
+            <table className="text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, c) => (
+                    <th key={c} style={{ textAlign: block.align[c] ?? undefined }} className="px-3 py-1.5 border border-gray-200 dark:border-neutral-700 font-semibold">{renderInline(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, c) => (
+                      <td key={c} style={{ textAlign: block.align[c] ?? undefined }} className="px-3 py-1.5 border border-gray-200 dark:border-neutral-700">{renderInline(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+    }
+  });
+
+/**
+ * Renders Markdown with math and chemistry as React elements; model output never becomes HTML.
+ */
+export const RichText: React.FC<RichTextProps> = ({ text, inline, className }) => {
+  const content = useMemo(
+    () => inline ? renderInline(parseInline(text)) : renderBlocks(parseMarkdown(text)),
+    [text, inline]
+  );
+  return inline ? <span className={className}>{content}</span> : <div className={className}>{content}</div>;
+};
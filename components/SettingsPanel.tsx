@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { AppSettings, ProviderId } from '../types';
+import { DEFAULT_MODELS, parseFixtures } from '../services/providers';
+import { MAX_CONCURRENCY } from '../services/jobQueue';
+import { ANSWER_LANGUAGES, languageName } from '../services/language';
+import { hasBuiltInKey } from '../services/settingsService';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  mock: 'Offline mock (fixtures)'
+};
+
+const inputClass = "w-full px-3 py-2 text-sm bg-white dark:bg-neutral-900 border border-gray-200 dark:border-neutral-700 rounded-lg text-gray-900 dark:text-gray-100 focus:outline-none focus:border-gray-400 dark:focus:border-neutral-500 transition-colors";
+const labelClass = "block text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-1";
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+
+  const [fixturesError, setFixturesError] = useState<string | null>(null);
+
+  const update = (patch: Partial<AppSettings>) => onChange({ ...settings, ...patch });
+
+  const handleFixturesFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      update({ fixtures: parseFixtures(await file.text()) });
+      setFixturesError(null);
+    } catch (err: any) {
+      setFixturesError(err.message || "Could not read the fixture file.");
+    }
+  };
+
+  const fixtureCount = Object.keys(settings.fixtures ?? {}).length;
+
+  const handleProviderChange = (provider: ProviderId) => {
+    // Switching provider resets the model to that provider's default; each provider keeps its own key.
+    update({ provider, model: DEFAULT_MODELS[provider] });
+  };
+
+  return (
+    <div className="border-b border-gray-100 dark:border-neutral-800 bg-gray-50 dark:bg-neutral-950 transition-colors duration-300">
+      <div className="max-w-4xl mx-auto px-6 py-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-bold text-black dark:text-white">Model Settings</p>
+          <button onClick={onClose} className="text-sm font-medium text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors">
+            Done
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass} htmlFor="settings-provider">Provider</label>
+            <select
+              id="settings-provider"
+              className={inputClass}
+              value={settings.provider}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+            >
+              {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass} htmlFor="settings-model">Model</label>
+            <input
+              id="settings-model"
+              className={inputClass}
+              value={settings.model}
+              placeholder={DEFAULT_MODELS[settings.provider]}
+              onChange={(e) => update({ model: e.target.value })}
+            />
+          </div>
+
+          {settings.provider !== 'mock' && (
+            <div>
+              <label className={labelClass} htmlFor="settings-key">API Key</label>
+              <input
+                id="settings-key"
+                type="password"
+                className={inputClass}
+                value={settings.apiKeys[settings.provider] ?? ''}
+                placeholder={settings.provider === 'openai' ? 'Optional for local servers' : hasBuiltInKey(settings.provider) ? 'Using the key from .env.local' : ''}
+                onChange={(e) => update({ apiKeys: { ...settings.apiKeys, [settings.provider]: e.target.value } })}
+              />
+            </div>
+          )}
+
+          {settings.provider === 'openai' && (
+            <div>
+              <label className={labelClass} htmlFor="settings-base-url">Base URL</label>
+              <input
+                id="settings-base-url"
+                className={inputClass}
+                value={settings.baseUrl}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+              />
+            </div>
+          )}
+
+          {settings.provider === 'mock' && (
+            <div>
+              <p className={labelClass}>Fixtures</p>
+              <div className="flex items-center gap-3 py-2">
+                <label className="text-sm font-medium text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white cursor-pointer transition-colors">
+                  Load JSON
+                  <input type="file" accept=".json,application/json" className="hidden" onChange={handleFixturesFile} />
+                </label>
+                {fixtureCount > 0 && (
+                  <button
+                    onClick={() => update({ fixtures: undefined })}
+                    className="text-sm font-medium text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors"
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+              <p className={`text-xs mt-1 ${fixturesError ? 'text-red-600 dark:text-red-400' : 'text-gray-400 dark:text-gray-500'}`}>
+                {fixturesError ?? (fixtureCount > 0
+                  ? `${fixtureCount} recorded ${fixtureCount === 1 ? 'response' : 'responses'}; other requests get the built-in ones.`
+                  : 'Using the built-in responses.')}
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass} htmlFor="settings-concurrency">Parallel Papers</label>
+            <input
+              id="settings-concurrency"
+              type="number"
+              min={1}
+              max={MAX_CONCURRENCY}
+              className={inputClass}
+              value={settings.concurrency}
+              onChange={(e) => update({ concurrency: Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(Number(e.target.value)) || 1)) })}
+            />
+            <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+              Lower this if the provider keeps rate limiting you.
+            </p>
+          </div>
+
+          <div>
+            <label className={labelClass} htmlFor="settings-answer-language">Answer Language</label>
+            <select
+              id="settings-answer-language"
+              className={inputClass}
+              value={settings.answerLanguage}
+              onChange={(e) => update({ answerLanguage: e.target.value })}
+            >
+              <option value="">Same as the question</option>
+              {ANSWER_LANGUAGES.map(code => <option key={code} value={code}>{languageName(code)}</option>)}
+            </select>
+            <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+              Used for answers generated from now on.
+            </p>
+          </div>
+
+          <div className="md:col-span-2">
+            <label className={labelClass} htmlFor="settings-threshold">
+              Similarity Threshold ({Math.round(settings.similarityThreshold * 100)}%)
+            </label>
+            <input
+              id="settings-threshold"
+              type="range"
+              min={0.3}
+              max={0.95}
+              step={0.05}
+              className="w-full accent-black dark:accent-white"
+              value={settings.similarityThreshold}
+              onChange={(e) => update({ similarityThreshold: Number(e.target.value) })}
+            />
+            <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+              Questions at least this similar are proposed as duplicates before the model confirms or splits them.
+            </p>
+          </div>
+
+          <div className="md:col-span-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+              <input
+                type="checkbox"
+                className="accent-black dark:accent-white"
+                checked={settings.offline}
+                onChange={(e) => update({ offline: e.target.checked })}
+              />
+              Analyze offline
+            </label>
+            <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+              Reads text and scanned pages on this device and groups questions by similarity alone; nothing is sent to a provider.
+              The English OCR model is downloaded once on first use. Answers still need a provider.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AnalysisGroup, AnswerLength } from '../types';
+import {
+  clearStudyProgress, describeInterval, loadStudyProgress, NEW_CARDS_PER_SESSION, ReviewGrade, reviewCard, saveStudyProgress,
+  StudyProgress, studyQueue, studyStats
+} from '../services/studyService';
+import { defaultAnswerLength } from '../services/answerService';
+import { RichText } from './RichText';
+
+interface StudyViewProps {
+  groups: AnalysisGroup[];
+  /** Progress is stored per saved analysis; without an id it lasts until the page is left. */
+  analysisId?: string;
+  onGenerateAnswer: (groupId: string, length: AnswerLength) => Promise<void>;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; key: string }[] = [
+  { grade: 'again', label: 'Again', key: '1' },
+  { grade: 'hard', label: 'Hard', key: '2' },
+  { grade: 'good', label: 'Good', key: '3' },
+  { grade: 'easy', label: 'Easy', key: '4' }
+];
+
+const sectionTitleClass = "text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-4";
+const actionClass = "text-sm font-medium text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white disabled:opacity-40 transition-colors";
+
+export const StudyView: React.FC<StudyViewProps> = ({ groups, analysisId, onGenerateAnswer }) => {
+  const [progress, setProgress] = useState<StudyProgress>(() => analysisId ? loadStudyProgress(analysisId) : {});
+  // Group ids left in the running session; null when no session is running.
+  const [session, setSession] = useState<string[] | null>(null);
+  const [reviewed, setReviewed] = useState(0);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isWriting, setIsWriting] = useState(false);
+  const [answerError, setAnswerError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (analysisId) saveStudyProgress(analysisId, progress);
+  }, [analysisId, progress]);
+
+  const stats = useMemo(() => studyStats(groups, progress), [groups, progress]);
+  const queue = useMemo(() => studyQueue(groups, progress), [groups, progress]);
+  const card = session && session.length > 0 ? groups.find(g => g.id === session[0]) : undefined;
+
+  // Groups merged away or deleted while studying leave the session.
+  useEffect(() => {
+    setSession(prev => prev && prev.filter(id => groups.some(g => g.id === id)));
+  }, [groups]);
+
+  const startSession = () => {
+    setSession(queue.map(g => g.id));
+    setReviewed(0);
+    setIsRevealed(false);
+  };
+
+  const writeAnswer = async (group: AnalysisGroup) => {
+    setIsWriting(true);
+    setAnswerError(null);
+    try {
+      await onGenerateAnswer(group.id, defaultAnswerLength(group.type));
+    } catch (err: any) {
+      console.error(`Error generating answer for ${group.id}:`, err);
+      setAnswerError(err.message || "Could not generate an answer.");
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  const reveal = () => {
+    if (!card) return;
+    setIsRevealed(true);
+    if (!card.answer && !isWriting) writeAnswer(card);
+  };
+
+  // A forgotten card goes to the back of the session and comes round again.
+  const grade = (value: ReviewGrade) => {
+    if (!card) return;
+    setProgress(prev => ({ ...prev, [card.id]: reviewCard(prev[card.id], value, card.frequency) }));
+    setSession(prev => prev && (value === 'again' ? [...prev.slice(1), prev[0]] : prev.slice(1)));
+    setReviewed(n => n + 1);
+    setIsRevealed(false);
+    setAnswerError(null);
+  };
+
+  // Space reveals the answer; 1-4 grade it.
+  useEffect(() => {
+    if (!card) return;
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName) || e.ctrlKey || e.metaKey) return;
+      if (!isRevealed && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        reveal();
+        return;
+      }
+      const match = isRevealed && GRADES.find(g => g.key === e.key);
+      if (match) {
+        e.preventDefault();
+        grade(match.grade);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const resetProgress = () => {
+    if (!window.confirm("Forget all study progress for this analysis? Every card becomes new again.")) return;
+    if (analysisId) clearStudyProgress(analysisId);
+    setProgress({});
+    setSession(null);
+  };
+
+  if (card) {
+    return (
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between text-xs text-gray-400 dark:text-gray-500">
+          <span>{reviewed} reviewed · {session!.length} left</span>
+          <button onClick={() => setSession(null)} className={actionClass}>End session</button>
+        </div>
+
+        <div className="bg-white dark:bg-neutral-900 rounded-2xl border border-gray-100 dark:border-neutral-800 p-8 space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="bg-gray-100 text-gray-600 dark:bg-neutral-800 dark:text-gray-400 text-[10px] font-bold px-2 py-1 rounded uppercase tracking-wider">{card.type}</span>
+            <span className="text-xs text-gray-400">Asked {card.frequency} {card.frequency === 1 ? 'time' : 'times'}</span>
+            {!progress[card.id] && <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">New</span>}
+          </div>
+          <p className="text-xl font-bold text-gray-900 dark:text-gray-100 leading-tight"><RichText text={card.normalizedQuestion} inline /></p>
+
+          {isRevealed ? (
+            <div className="pt-6 border-t border-gray-50 dark:border-neutral-800">
+              {answerError && <p className="text-sm text-red-600 dark:text-red-400 mb-4">{answerError}</p>}
+              {card.answer ? (
+                <RichText text={card.answer} className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed" />
+              ) : (
+                <p className="text-sm text-gray-400">{isWriting ? 'Writing the model answer...' : 'No model answer yet.'}</p>
+              )}
+            </div>
+          ) : (
+            <button onClick={reveal} className={actionClass}>Show answer (Space)</button>
+          )}
+        </div>
+
+        {isRevealed && (
+          <div className="grid grid-cols-4 gap-3">
+            {GRADES.map(({ grade: value, label, key }) => (
+              <button
+                key={value}
+                onClick={() => grade(value)}
+                className="flex flex-col items-center py-3 rounded-xl border border-gray-200 dark:border-neutral-700 hover:border-black dark:hover:border-white transition-colors"
+              >
+                <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">{label}</span>
+                <span className="text-[11px] font-mono text-gray-400">
+                  {describeInterval(reviewCard(progress[card.id], value, card.frequency))} · {key}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <p className={sectionTitleClass}>Flashcards</p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-8">
+          {([['New', stats.newCards], ['Due', stats.due], ['Learning', stats.learning], ['Mastered', stats.mastered]] as const).map(([label, value]) => (
+            <div key={label}>
+              <p className="text-xs font-semibold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-1">{label}</p>
+              <p className="text-3xl font-bold text-black dark:text-white">{value}</p>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {session && <p className="text-sm text-gray-500 dark:text-gray-400">Session done: {reviewed} {reviewed === 1 ? 'card' : 'cards'} reviewed.</p>}
+
+      <div className="flex flex-wrap items-center gap-6">
+        <button
+          onClick={startSession}
+          disabled={queue.length === 0}
+          className="px-6 py-2.5 rounded-full font-semibold text-sm bg-black text-white hover:bg-gray-800 dark:bg-white dark:text-black dark:hover:bg-gray-200 disabled:opacity-40 transition-all"
+        >
+          {queue.length === 0 ? 'Nothing due' : `Study ${queue.length} cards`}
+        </button>
+        {Object.keys(progress).length > 0 && <button onClick={resetProgress} className={actionClass}>Reset progress</button>}
+      </div>
+      <p className="text-xs text-gray-400 dark:text-gray-500">
+        Each question group is a card. Frequently asked questions come back sooner; up to {NEW_CARDS_PER_SESSION} new cards are added per session.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisGroup, Syllabus } from '../types';
+import { computeWeightage, parseSyllabusText } from '../services/syllabusService';
+import { availableYears, UNCLASSIFIED_CHAPTER } from '../services/groupFilters';
+
+interface SyllabusViewProps {
+  syllabus?: Syllabus;
+  groups: AnalysisGroup[];
+  onChange: (syllabus: Syllabus | undefined) => void;
+  onReadFile: (file: File) => Promise<Syllabus>;
+  onClassify: () => void;
+  onBrowseChapter: (chapterId: string) => void;
+}
+
+const PLACEHOLDER = `Unit 1: Life Processes
+  Chapter: Photosynthesis
+    - Light reaction
+    - Dark reaction
+  Chapter: Respiration
+Unit 2: Mechanics
+  Laws of Motion: inertia, momentum, Newton's laws`;
+
+const sectionTitleClass = "text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-4";
+const actionClass = "text-sm font-medium text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white disabled:opacity-40 transition-colors";
+
+export const SyllabusView: React.FC<SyllabusViewProps> = ({ syllabus, groups, onChange, onReadFile, onClassify, onBrowseChapter }) => {
+  const [draft, setDraft] = useState('');
+  const [isReading, setIsReading] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const years = useMemo(() => availableYears(groups), [groups]);
+  const weightage = useMemo(() => syllabus ? computeWeightage(groups, syllabus, years) : [], [groups, syllabus, years]);
+  const unclassified = groups.filter(g => !g.chapterId).length;
+  const totalQuestions = weightage.reduce((acc, row) => acc + row.questions, 0);
+  const hasMarks = weightage.some(row => row.marks > 0);
+
+  const savePasted = () => {
+    const parsed = parseSyllabusText(draft);
+    if (parsed.units.every(unit => unit.chapters.length === 0)) {
+      setReadError("No chapters were found. Put each chapter on its own line under its unit.");
+      return;
+    }
+    setReadError(null);
+    onChange(parsed);
+    setDraft('');
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setIsReading(true);
+    setReadError(null);
+    try {
+      onChange(await onReadFile(file));
+    } catch (err: any) {
+      console.error("Syllabus Error:", err);
+      setReadError(err.message || "Could not read the syllabus.");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const replaceSyllabus = () => {
+    if (window.confirm("Remove this syllabus? Chapter assignments of all questions are cleared.")) onChange(undefined);
+  };
+
+  if (!syllabus) {
+    return (
+      <div className="max-w-2xl space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Add the syllabus to see which units and chapters the questions come from. Paste an outline, or upload a
+          text, PDF or image copy.
+        </p>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={PLACEHOLDER}
+          rows={10}
+          className="w-full px-3 py-2 text-sm font-mono bg-white dark:bg-neutral-900 border border-gray-200 dark:border-neutral-700 rounded-lg text-gray-900 dark:text-gray-100 focus:outline-none focus:border-gray-400 dark:focus:border-neutral-500"
+          aria-label="Syllabus outline"
+        />
+        {readError && <p className="text-sm text-red-600 dark:text-red-400">{readError}</p>}
+        <div className="flex items-center gap-6">
+          <button onClick={savePasted} disabled={!draft.trim() || isReading} className={actionClass}>Use this outline</button>
+          <label className={`${actionClass} cursor-pointer`}>
+            {isReading ? 'Reading syllabus...' : 'Upload syllabus'}
+            <input type="file" accept=".txt,.md,.pdf,.png,.jpg,.jpeg" className="hidden" onChange={handleFile} disabled={isReading} />
+          </label>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {unclassified === 0
+            ? 'Every question group is placed in the syllabus.'
+            : `${unclassified} of ${groups.length} groups are not placed in the syllabus yet.`}
+        </p>
+        <div className="flex items-center gap-6">
+          <button onClick={onClassify} className={actionClass}>
+            {unclassified === 0 ? 'Reclassify all' : `Classify ${unclassified} groups`}
+          </button>
+          {unclassified > 0 && (
+            <button onClick={() => onBrowseChapter(UNCLASSIFIED_CHAPTER)} className={actionClass}>Show unplaced</button>
+          )}
+          <button onClick={replaceSyllabus} className={actionClass}>Remove syllabus</button>
+        </div>
+      </div>
+
+      <section>
+        <p className={sectionTitleClass}>Topic weightage (question occurrences)</p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-400 dark:text-gray-500 border-b border-gray-100 dark:border-neutral-800">
+                <th className="text-left font-medium py-2 pr-4">Chapter</th>
+                {years.map(year => <th key={year} className="text-right font-mono font-medium px-2">{year}</th>)}
+                <th className="text-right font-medium px-2">Total</th>
+                {hasMarks && <th className="text-right font-medium px-2">Marks</th>}
+                <th className="text-right font-medium pl-2">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {syllabus.units.map(unit => {
+                const rows = weightage.filter(row => row.unit.id === unit.id);
+                const unitTotal = rows.reduce((acc, row) => acc + row.questions, 0);
+                return (
+                  <React.Fragment key={unit.id}>
+                    <tr className="border-b border-gray-50 dark:border-neutral-900">
+                      <td className="py-2 pr-4 font-bold text-black dark:text-white">{unit.name}</td>
+                      {years.map((year, i) => (
+                        <td key={year} className="text-right font-mono px-2 text-gray-600 dark:text-gray-300">
+                          {rows.reduce((acc, row) => acc + row.byYear[i], 0) || ''}
+                        </td>
+                      ))}
+                      <td className="text-right font-mono font-bold px-2 text-black dark:text-white">{unitTotal}</td>
+                      {hasMarks && (
+                        <td className="text-right font-mono font-bold px-2 text-black dark:text-white">{rows.reduce((acc, row) => acc + row.marks, 0)}</td>
+                      )}
+                      <td className="text-right font-mono pl-2 text-gray-500">{totalQuestions ? Math.round(100 * unitTotal / totalQuestions) : 0}%</td>
+                    </tr>
+                    {rows.map(row => (
+                      <tr key={row.chapter.id} className="border-b border-gray-50 dark:border-neutral-900">
+                        <td className="py-2 pr-4 pl-4">
+                          <button
+                            onClick={() => onBrowseChapter(row.chapter.id)}
+                            disabled={row.groups === 0}
+                            className="text-left text-gray-600 hover:text-black dark:text-gray-400 dark:hover:text-white disabled:hover:text-gray-600 transition-colors"
+                            title={row.chapter.topics.join(', ')}
+                          >
+                            {row.chapter.name}
+                            {row.groups > 0 && <span className="ml-2 text-xs text-gray-400">{row.groups} groups ↗</span>}
+                          </button>
+                        </td>
+                        {row.byYear.map((count, i) => (
+                          <td key={years[i]} className="text-right font-mono px-2 text-gray-400">{count || ''}</td>
+                        ))}
+                        <td className="text-right font-mono px-2 text-gray-600 dark:text-gray-300">{row.questions}</td>
+                        {hasMarks && <td className="text-right font-mono px-2 text-gray-600 dark:text-gray-300">{row.marks}</td>}
+                        <td className="text-right font-mono pl-2 text-gray-400">{totalQuestions ? Math.round(100 * row.questions / totalQuestions) : 0}%</td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+};
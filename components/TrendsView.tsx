@@ -0,0 +1,172 @@
+import React, { useMemo } from 'react';
+import { AnalysisGroup, QuestionType } from '../types';
+import { computeTrendAnalytics, HEATMAP_MAX_ROWS } from '../services/analyticsService';
+import { QUESTION_TYPE_ORDER } from '../services/groupFilters';
+
+interface TrendsViewProps {
+  groups: AnalysisGroup[];
+}
+
+// Shades stand in for colours so the charts stay within the black/white theme.
+const TYPE_SHADES: Record<QuestionType, string> = {
+  'Long Question': 'bg-black dark:bg-white',
+  'Short Question': 'bg-gray-500 dark:bg-gray-400',
+  'Very Short Question': 'bg-gray-300 dark:bg-neutral-600',
+  'MCQ': 'bg-gray-200 dark:bg-neutral-800'
+};
+
+const sectionTitleClass = "text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-4";
+
+const truncate = (text: string, max = 60) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+export const TrendsView: React.FC<TrendsViewProps> = ({ groups }) => {
+  const analytics = useMemo(() => computeTrendAnalytics(groups), [groups]);
+  const { years, latestYear, heatmap, histogram, typesByYear, due, newThisYear } = analytics;
+
+  if (years.length === 0) {
+    return (
+      <p className="text-sm text-center text-gray-400 dark:text-gray-500 py-12">
+        No paper years were detected, so there are no trends to show.
+      </p>
+    );
+  }
+
+  const maxCell = Math.max(1, ...heatmap.flatMap(row => row.counts));
+  const maxBucket = Math.max(1, ...histogram.map(b => b.groups));
+
+  return (
+    <div className="space-y-16">
+
+      {/* Question x year heatmap */}
+      <section>
+        <p className={sectionTitleClass}>
+          When each question appeared {groups.length > HEATMAP_MAX_ROWS ? `(top ${HEATMAP_MAX_ROWS} by frequency)` : ''}
+        </p>
+        <div className="overflow-x-auto">
+          <table className="text-xs border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th></th>
+                {years.map(year => (
+                  <th key={year} className="font-mono font-medium text-gray-400 dark:text-gray-500 px-1">{year}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {heatmap.map(({ group, counts }) => (
+                <tr key={group.id}>
+                  <td className="pr-4 text-gray-600 dark:text-gray-400 max-w-xs truncate" title={group.normalizedQuestion}>
+                    {truncate(group.normalizedQuestion)}
+                  </td>
+                  {counts.map((count, i) => (
+                    <td key={years[i]} className="p-0 text-black dark:text-white" title={`${years[i]}: ${count}`}>
+                      <div className="relative w-8 h-6 rounded bg-gray-50 dark:bg-neutral-900 overflow-hidden">
+                        {count > 0 && (
+                          <div className="absolute inset-0 bg-current" style={{ opacity: 0.2 + 0.8 * (count / maxCell) }}></div>
+                        )}
+                      </div>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <div className="grid md:grid-cols-2 gap-12">
+
+        {/* Frequency histogram */}
+        <section>
+          <p className={sectionTitleClass}>How often groups repeat</p>
+          <div className="flex items-end gap-2 h-40">
+            {histogram.map(bucket => (
+              <div key={bucket.label} className="flex-1 flex flex-col items-center justify-end h-full" title={`${bucket.groups} groups`}>
+                <span className="text-[10px] font-mono text-gray-400 mb-1">{bucket.groups || ''}</span>
+                <div className="w-full bg-black dark:bg-white rounded-t" style={{ height: `${(bucket.groups / maxBucket) * 100}%` }}></div>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-2">
+            {histogram.map(bucket => (
+              <span key={bucket.label} className="flex-1 text-center text-[10px] font-mono text-gray-400">{bucket.label}×</span>
+            ))}
+          </div>
+        </section>
+
+        {/* Type distribution per year */}
+        <section>
+          <p className={sectionTitleClass}>Question types per year</p>
+          <div className="space-y-2">
+            {typesByYear.map(({ year, counts, total }) => (
+              <div key={year} className="flex items-center gap-3">
+                <span className="w-10 text-xs font-mono text-gray-400">{year}</span>
+                <div className="flex-1 flex h-4 rounded overflow-hidden bg-gray-50 dark:bg-neutral-900">
+                  {QUESTION_TYPE_ORDER.map(type => counts[type] > 0 && (
+                    <div
+                      key={type}
+                      className={TYPE_SHADES[type]}
+                      style={{ width: `${(counts[type] / total) * 100}%` }}
+                      title={`${type}: ${counts[type]}`}
+                    ></div>
+                  ))}
+                </div>
+                <span className="w-8 text-right text-xs font-mono text-gray-400">{total}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4 mt-4">
+            {QUESTION_TYPE_ORDER.map(type => (
+              <span key={type} className="flex items-center gap-1.5 text-[11px] text-gray-500 dark:text-gray-400">
+                <span className={`w-2.5 h-2.5 rounded-sm ${TYPE_SHADES[type]}`}></span>
+                {type}
+              </span>
+            ))}
+          </div>
+        </section>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-12">
+
+        {/* Questions due by their pattern */}
+        <section>
+          <p className={sectionTitleClass}>Due in {latestYear !== undefined ? latestYear + 1 : 'the next exam'}</p>
+          {due.length === 0 ? (
+            <p className="text-sm text-gray-400 dark:text-gray-500">No question follows a regular pattern that points to the next exam.</p>
+          ) : (
+            <ul className="space-y-3">
+              {due.map(({ group, period, lastYear, overdue }) => (
+                <li key={group.id} className="text-sm">
+                  <p className="text-gray-900 dark:text-gray-200">{group.normalizedQuestion}</p>
+                  <p className="text-xs text-gray-400 mt-0.5">
+                    Every {period === 1 ? 'year' : `${period} years`} · last asked {lastYear}
+                    {overdue && <span className="ml-2 font-bold uppercase tracking-wider text-[10px] text-gray-600 dark:text-gray-300">Overdue</span>}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* First seen in the latest paper */}
+        <section>
+          <p className={sectionTitleClass}>New in {latestYear}</p>
+          {newThisYear.length === 0 ? (
+            <p className="text-sm text-gray-400 dark:text-gray-500">
+              {years.length < 2 ? 'Add papers from earlier years to see what is new.' : 'Every question in the latest paper had appeared before.'}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {newThisYear.map(group => (
+                <li key={group.id} className="text-sm text-gray-900 dark:text-gray-200">
+                  {group.normalizedQuestion}
+                  <span className="ml-2 text-xs text-gray-400">{group.type}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
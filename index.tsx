@@ -1,5 +1,6 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import 'katex/dist/katex.min.css';
 import App from './App';
 
 const rootElement = document.getElementById('root');
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisGroup, QuestionType } from '../types';
+import { computeTrendAnalytics, HEATMAP_MAX_ROWS } from './analyticsService';
+
+// A group asked once in each of `years`.
+const group = (id: string, years: string[], type: QuestionType = 'Short Question'): AnalysisGroup => ({
+  id,
+  normalizedQuestion: `Question ${id}`,
+  type,
+  years: Array.from(new Set(years)),
+  frequency: years.length,
+  answer: '',
+  variants: years.map(year => ({ text: `Question ${id}`, sourceFile: `paper-${year}.pdf`, year }))
+});
+
+describe('computeTrendAnalytics', () => {
+  it('counts appearances per year and leaves out unknown years', () => {
+    const analytics = computeTrendAnalytics([group('a', ['2019', '2021', '2021']), group('b', ['2020', 'Unknown'], 'MCQ')]);
+    expect(analytics.years).toEqual([2019, 2020, 2021]);
+    expect(analytics.latestYear).toBe(2021);
+    expect(analytics.heatmap.map(row => [row.group.id, row.counts])).toEqual([['a', [1, 0, 2]], ['b', [0, 1, 0]]]);
+    expect(analytics.typesByYear.map(({ year, total, counts }) => [year, total, counts.MCQ])).toEqual([[2019, 1, 0], [2020, 1, 1], [2021, 2, 0]]);
+  });
+
+  it('shows only the most frequent groups in the heatmap', () => {
+    const groups = Array.from({ length: HEATMAP_MAX_ROWS + 5 }, (_, i) => group(`g${i}`, i === 29 ? ['2020', '2021'] : ['2020']));
+    const { heatmap } = computeTrendAnalytics(groups);
+    expect(heatmap).toHaveLength(HEATMAP_MAX_ROWS);
+    expect(heatmap[0].group.id).toBe('g29');
+  });
+
+  it('buckets frequencies into a histogram with an open last bar', () => {
+    const years = (count: number) => Array.from({ length: count }, (_, i) => String(2000 + i));
+    const { histogram } = computeTrendAnalytics([group('a', years(1)), group('b', years(1)), group('c', years(3)), group('d', years(12))]);
+    expect(histogram.map(bar => bar.label)).toEqual(['1', '2', '3', '4', '5', '6', '7', '8+']);
+    expect(histogram.map(bar => bar.groups)).toEqual([2, 0, 1, 0, 0, 0, 0, 1]);
+  });
+
+  it('expects questions asked at regular intervals to come back', () => {
+    const { due } = computeTrendAnalytics([
+      group('everyOtherYear', ['2018', '2020', '2022']),
+      group('overdue', ['2015', '2017', '2019']),
+      group('notYet', ['2017', '2020', '2023']),
+      group('irregular', ['2010', '2011', '2020', '2023']),
+      group('twice', ['2021', '2023'])
+    ]);
+    expect(due.map(d => [d.group.id, d.period, d.lastYear, d.expectedYear, d.overdue])).toEqual([
+      ['overdue', 2, 2019, 2021, true],
+      ['everyOtherYear', 2, 2022, 2024, false]
+    ]);
+  });
+
+  it('lists questions first asked in the latest year, once there are several years', () => {
+    const groups = [group('old', ['2022', '2023']), group('new', ['2023']), group('newer', ['2023', '2023'])];
+    expect(computeTrendAnalytics(groups).newThisYear.map(g => g.id)).toEqual(['newer', 'new']);
+    expect(computeTrendAnalytics([group('only', ['2023'])]).newThisYear).toEqual([]);
+  });
+
+  it('is empty without years', () => {
+    const analytics = computeTrendAnalytics([group('a', ['Unknown'])]);
+    expect(analytics).toMatchObject({ years: [], latestYear: undefined, due: [], newThisYear: [], typesByYear: [] });
+  });
+});
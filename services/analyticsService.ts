@@ -0,0 +1,119 @@
+import { AnalysisGroup, QuestionType } from "../types";
+import { availableYears, parseYear, QUESTION_TYPE_ORDER } from "./groupFilters";
+
+// Heatmap rows beyond this are hard to read; the most frequent groups are shown.
+export const HEATMAP_MAX_ROWS = 25;
+// Frequencies at or above this share the last histogram bar.
+const HISTOGRAM_MAX_BUCKET = 8;
+// Gaps between appearances may differ by this many years and still count as a pattern.
+const PATTERN_TOLERANCE_YEARS = 1;
+
+export interface HeatmapRow {
+  group: AnalysisGroup;
+  counts: number[]; // occurrences per year, aligned with `years`
+}
+
+export interface YearTypeCounts {
+  year: number;
+  counts: Record<QuestionType, number>;
+  total: number;
+}
+
+export interface DueQuestion {
+  group: AnalysisGroup;
+  period: number; // typical years between appearances
+  lastYear: number;
+  expectedYear: number;
+  overdue: boolean; // the pattern says it should already have come back
+}
+
+export interface TrendAnalytics {
+  years: number[];
+  latestYear?: number;
+  heatmap: HeatmapRow[];
+  histogram: { label: string; groups: number }[];
+  typesByYear: YearTypeCounts[];
+  due: DueQuestion[];
+  newThisYear: AnalysisGroup[];
+}
+
+const groupYears = (group: AnalysisGroup): number[] =>
+  Array.from(new Set(group.variants.map(v => parseYear(v.year)).filter((y): y is number => y !== undefined)))
+    .sort((a, b) => a - b);
+
+const emptyTypeCounts = () =>
+  Object.fromEntries(QUESTION_TYPE_ORDER.map(type => [type, 0])) as Record<QuestionType, number>;
+
+/**
+ * Finds groups whose appearances are spaced regularly (e.g. every other year) and says
+ * when they should come back, relative to the exam after the latest paper.
+ */
+const findDueQuestions = (groups: AnalysisGroup[], latestYear: number): DueQuestion[] => {
+  const nextExamYear = latestYear + 1;
+  return groups
+    .map(group => {
+      const years = groupYears(group);
+      // Two gaps (three appearances) is the least that can be called a pattern.
+      if (years.length < 3) return null;
+      const gaps = years.slice(1).map((year, i) => year - years[i]);
+      if (Math.max(...gaps) - Math.min(...gaps) > PATTERN_TOLERANCE_YEARS) return null;
+
+      const period = Math.round(gaps.reduce((acc, gap) => acc + gap, 0) / gaps.length);
+      const lastYear = years[years.length - 1];
+      const expectedYear = lastYear + period;
+      if (expectedYear > nextExamYear) return null;
+      return { group, period, lastYear, expectedYear, overdue: expectedYear < nextExamYear };
+    })
+    .filter((due): due is DueQuestion => due !== null)
+    .sort((a, b) => a.expectedYear - b.expectedYear || b.group.frequency - a.group.frequency);
+};
+
+/**
+ * Everything the trends dashboard shows, computed from the variants' years.
+ * Papers whose year could not be detected are left out of the per-year views.
+ */
+export const computeTrendAnalytics = (groups: AnalysisGroup[]): TrendAnalytics => {
+  const years = availableYears(groups);
+  const latestYear = years[years.length - 1];
+  const yearIndex = new Map(years.map((year, i) => [year, i]));
+
+  const heatmap = [...groups]
+    .sort((a, b) => b.frequency - a.frequency)
+    .slice(0, HEATMAP_MAX_ROWS)
+    .map(group => {
+      const counts = years.map(() => 0);
+      group.variants.forEach(v => {
+        const index = yearIndex.get(parseYear(v.year) ?? NaN);
+        if (index !== undefined) counts[index]++;
+      });
+      return { group, counts };
+    });
+
+  const bucketSizes = new Array(HISTOGRAM_MAX_BUCKET).fill(0);
+  groups.forEach(group => bucketSizes[Math.min(Math.max(group.frequency, 1), HISTOGRAM_MAX_BUCKET) - 1]++);
+  const histogram = bucketSizes.map((count, i) => ({
+    label: i + 1 === HISTOGRAM_MAX_BUCKET ? `${HISTOGRAM_MAX_BUCKET}+` : String(i + 1),
+    groups: count
+  }));
+
+  const typesByYear: YearTypeCounts[] = years.map(year => ({ year, counts: emptyTypeCounts(), total: 0 }));
+  groups.forEach(group => group.variants.forEach(v => {
+    const index = yearIndex.get(parseYear(v.year) ?? NaN);
+    if (index === undefined) return;
+    typesByYear[index].counts[group.type]++;
+    typesByYear[index].total++;
+  }));
+
+  return {
+    years,
+    latestYear,
+    heatmap,
+    histogram,
+    typesByYear,
+    due: latestYear === undefined ? [] : findDueQuestions(groups, latestYear),
+    // With a single year of papers every question would count as new.
+    newThisYear: years.length < 2
+      ? []
+      : groups.filter(group => groupYears(group)[0] === latestYear).sort((a, b) => b.frequency - a.frequency)
+  };
+};
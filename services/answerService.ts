@@ -0,0 +1,75 @@
+import { AnalysisGroup, AnswerLength } from "../types";
+import { LLMProvider } from "./providers";
+import { averageMarks, formatMarks } from "./questionMarks";
+import { languageName, variantLanguages } from "./language";
+
+const LENGTH_GUIDANCE: Record<AnswerLength, string> = {
+  brief: "Answer in 1-3 sentences. For an MCQ, state the correct option first, then a one-line justification.",
+  standard: "Answer in roughly 150-250 words, with the key points as a short list.",
+  detailed: "Write a thorough answer of roughly 400-600 words with short headings, key points, examples and, where relevant, diagrams described in words."
+};
+
+/**
+ * The length a student would be expected to write for this kind of question.
+ */
+export const defaultAnswerLength = (type: AnalysisGroup['type']): AnswerLength => {
+  switch (type) {
+    case 'MCQ':
+    case 'Very Short Question':
+      return 'brief';
+    case 'Short Question':
+      return 'standard';
+    case 'Long Question':
+      return 'detailed';
+  }
+};
+
+/**
+ * The language an answer is written in: the one chosen in settings, or else the language the
+ * question was asked in most.
+ */
+export const answerLanguage = (group: AnalysisGroup, chosen?: string): string =>
+  chosen || variantLanguages(group.variants)[0] || 'en';
+
+export interface GenerateAnswerOptions {
+  length?: AnswerLength;
+  language?: string; // ISO 639-1; see answerLanguage
+  onChunk?: (chunk: string) => void;
+}
+
+/**
+ * Writes (or rewrites) the model answer for a single group, streaming it through `onChunk`.
+ * Runs independently of grouping so answers are only paid for when someone reads them.
+ */
+export const generateAnswer = async (
+  group: AnalysisGroup,
+  provider: LLMProvider,
+  { length = defaultAnswerLength(group.type), language = answerLanguage(group), onChunk }: GenerateAnswerOptions = {}
+): Promise<string> => {
+  // A few distinct wordings help the model cover what examiners actually ask.
+  const wordings = Array.from(new Set(group.variants.map(v => v.text))).slice(0, 4);
+  const marks = averageMarks(group.variants);
+
+  const answer = await provider.streamText({
+    task: 'answering',
+    parts: [
+      { text: `You are an expert teacher writing a model answer for an exam question.
+
+        QUESTION (${group.type}${marks !== undefined ? `, ${formatMarks(marks)}` : ''}):
+        ${group.normalizedQuestion}
+
+        IT HAS ALSO BEEN ASKED AS:
+        ${wordings.map(w => `- ${w}`).join('\n        ')}
+
+        LENGTH: ${LENGTH_GUIDANCE[length]}
+
+        LANGUAGE: Write the answer in ${languageName(language)}, in its usual script, whatever language the question is in.
+        Keep formulas, units and chemical equations in their standard notation.
+
+        Write a **HIGH QUALITY, ACADEMIC ANSWER** in Markdown. Use tables where they help,
+        $...$ or $$...$$ for mathematics and \\ce{...} for chemical equations. Return only the answer.` }
+    ]
+  }, onChunk);
+
+  return answer.trim();
+};
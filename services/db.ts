@@ -0,0 +1,57 @@
+/**
+ * Minimal promise wrapper around the browser's IndexedDB.
+ * Every persistent store used by the app is declared here so upgrades live in one place.
+ */
+
+const DB_NAME = 'examrepo';
+const DB_VERSION = 2;
+
+export const STORES = {
+  analyses: 'analyses',
+  extractions: 'extractions'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.analyses)) {
+          db.createObjectStore(STORES.analyses, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.extractions)) {
+          db.createObjectStore(STORES.extractions, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against one object store and resolves with its result.
+ */
+export const withStore = async <T,>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,20 @@
+/**
+ * Problems the services recover from on their own: a retried request, a paper that failed
+ * while the rest went on, an unreadable header. They go to the browser console unless another
+ * host (the command-line analyzer) installs its own reporter with `setDiagnostics`.
+ */
+
+export type DiagnosticLevel = 'warn' | 'error';
+
+export type DiagnosticReporter = (level: DiagnosticLevel, message: string, detail?: unknown) => void;
+
+const consoleReporter: DiagnosticReporter = (level, message, detail) =>
+  detail === undefined ? console[level](message) : console[level](message, detail);
+
+let current = consoleReporter;
+
+export const reportProblem: DiagnosticReporter = (level, message, detail) => current(level, message, detail);
+
+export const setDiagnostics = (reporter: DiagnosticReporter) => {
+  current = reporter;
+};
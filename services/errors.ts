@@ -0,0 +1,124 @@
+/**
+ * Typed failures from the model pipeline, so the UI can explain what went wrong
+ * and decide whether retrying makes sense.
+ */
+
+export type LLMErrorKind = 'parse' | 'schema' | 'rate_limit' | 'safety' | 'quota' | 'network' | 'cancelled' | 'unknown';
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    readonly kind: LLMErrorKind,
+    readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+export class ParseError extends LLMError {
+  constructor(message: string, readonly rawText: string) {
+    super(message, 'parse', true);
+    this.name = 'ParseError';
+  }
+}
+
+export class SchemaValidationError extends LLMError {
+  constructor(readonly issues: string[], readonly rawText: string) {
+    super(`Response did not match the expected format: ${issues.slice(0, 3).join('; ')}`, 'schema', true);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+export class RateLimitError extends LLMError {
+  constructor(message: string, readonly retryAfterMs?: number) {
+    super(message, 'rate_limit', true);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class SafetyBlockError extends LLMError {
+  constructor(message: string) {
+    super(message, 'safety', false);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class QuotaExceededError extends LLMError {
+  constructor(message: string) {
+    super(message, 'quota', false);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class NetworkError extends LLMError {
+  constructor(message: string) {
+    super(message, 'network', true);
+    this.name = 'NetworkError';
+  }
+}
+
+export class CancelledError extends LLMError {
+  constructor(message = "Cancelled.") {
+    super(message, 'cancelled', false);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Maps an HTTP status and error body from any provider onto a typed error.
+ */
+export const errorFromStatus = (status: number, detail: string, retryAfterMs?: number): LLMError => {
+  const text = detail.toLowerCase();
+  if (status === 429 || text.includes('resource_exhausted')) {
+    // Both providers use 429 for "slow down" and for "out of credit", and Gemini mentions
+    // "quota" in both cases, so only daily limits or missing credit count as exhausted quota.
+    const isDailyOrCredit = /insufficient_quota|per ?day|perday|credit balance/.test(text);
+    const isPerMinute = /per ?minute|retrydelay|rate limit/.test(text);
+    if (isDailyOrCredit && !isPerMinute) {
+      return new QuotaExceededError(detail || "API quota exhausted.");
+    }
+    const suggestedDelay = /retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/i.exec(detail);
+    return new RateLimitError(
+      detail || "Rate limited by the model provider.",
+      retryAfterMs ?? (suggestedDelay ? Number(suggestedDelay[1]) * 1000 : undefined)
+    );
+  }
+  if (status >= 500) return new NetworkError(`Model provider returned ${status}. ${detail}`.trim());
+  return new LLMError(`Model provider returned ${status}. ${detail}`.trim(), 'unknown', false);
+};
+
+/**
+ * Normalises anything thrown by an SDK or fetch into an LLMError.
+ */
+export const toLLMError = (err: unknown): LLMError => {
+  if (err instanceof LLMError) return err;
+  if (err instanceof Error && err.name === 'AbortError') return new CancelledError();
+  const message = err instanceof Error ? err.message : String(err);
+  // SDK errors carry the HTTP status of the failed request.
+  const status = typeof err === 'object' && err !== null && 'status' in err && typeof err.status === 'number' ? err.status : undefined;
+  if (status) return errorFromStatus(status, message);
+  if (err instanceof TypeError && /fetch|network/i.test(message)) return new NetworkError(message);
+  return new LLMError(message, 'unknown', false);
+};
+
+const KIND_MESSAGES: Record<LLMErrorKind, string> = {
+  parse: "The model returned malformed output, even after retrying.",
+  schema: "The model's answer was missing required information, even after retrying.",
+  rate_limit: "The model provider is rate limiting requests. Wait a moment and retry.",
+  safety: "The model refused this content because of its safety filters.",
+  quota: "Your API quota or credit is exhausted. Check billing, or switch provider in settings.",
+  network: "Could not reach the model provider. Check your connection and retry.",
+  cancelled: "The run was cancelled.",
+  unknown: "Something went wrong while talking to the model."
+};
+
+/**
+ * A short, specific message for the UI.
+ */
+export const describeError = (err: unknown): string => {
+  if (err instanceof LLMError) {
+    return err.kind === 'unknown' ? err.message || KIND_MESSAGES.unknown : KIND_MESSAGES[err.kind];
+  }
+  return err instanceof Error && err.message ? err.message : KIND_MESSAGES.unknown;
+};
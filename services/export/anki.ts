@@ -0,0 +1,29 @@
+import { SavedAnalysis } from "../../types";
+import { toCsvRows } from "./csv";
+import { averageMarks, formatMarks } from "../questionMarks";
+import { escapeHtml, inlineMarkdownToHtml, markdownToHtml } from "../markdown";
+
+// Anki shows fields as HTML and typesets \(…\) and \[…\] with its own MathJax.
+const ANKI_HTML = { math: 'tex' } as const;
+
+// Anki tags cannot contain spaces.
+const tag = (text: string) => text.trim().replace(/\s+/g, '_');
+
+/**
+ * A deck for Anki's "Import File": front, back and tags per group, with the header lines
+ * that tell Anki the separator, that fields are HTML and which column holds the tags.
+ */
+export const toAnkiCsv = (analysis: SavedAnalysis): string => {
+  const rows = analysis.groups.map(group => {
+    const marks = averageMarks(group.variants);
+    const meta = [group.type, marks !== undefined ? formatMarks(marks) : null, `asked ${group.frequency}×`, group.years.join(', ')]
+      .filter(Boolean)
+      .join(' · ');
+    return [
+      inlineMarkdownToHtml(group.normalizedQuestion, ANKI_HTML),
+      `${group.answer ? markdownToHtml(group.answer, ANKI_HTML) : '<i>No model answer yet.</i>'}<br><br><small>${escapeHtml(meta)}</small>`,
+      [tag(group.type), ...group.years.map(year => tag(`year::${year}`)), ...(group.topic ? [tag(group.topic)] : [])].join(' ')
+    ];
+  });
+  return ['#separator:Comma', '#html:true', '#tags column:3', toCsvRows(rows)].join('\r\n');
+};
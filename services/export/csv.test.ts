@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisGroup, SavedAnalysis } from '../../types';
+import { toCsv } from './csv';
+
+const withQuestions = (...questions: string[]): SavedAnalysis => ({
+  id: 'analysis-1',
+  name: 'Science',
+  createdAt: 1,
+  updatedAt: 1,
+  files: [],
+  extractions: [],
+  summary: { totalPapers: 1, totalQuestionsExtracted: questions.length, totalRepeatedGroups: 0 },
+  groups: questions.map((text, index): AnalysisGroup => ({
+    id: `g${index}`,
+    normalizedQuestion: text,
+    type: 'Short Question',
+    years: ['2021'],
+    frequency: 1,
+    answer: '',
+    variants: [{ text, sourceFile: 'science-2021.pdf', year: '2021' }]
+  }))
+});
+
+const questionCells = (csv: string) => csv.replace(/^\uFEFF/, '').split('\r\n').slice(1).map(row => row.split(',')[0]);
+
+describe('toCsv', () => {
+  it('neutralises cells a spreadsheet would run as a formula', () => {
+    const csv = toCsv(withQuestions('=HYPERLINK("http://x")', '+1 is odd?', '-5 + 3', '@SUM(A1)', '\tIndented', 'Define work.'));
+    expect(questionCells(csv)).toEqual([`"'=HYPERLINK(""http://x"")"`, `'+1 is odd?`, `'-5 + 3`, `'@SUM(A1)`, `'\tIndented`, 'Define work.']);
+  });
+
+  it('neutralises a leading carriage return inside a quoted cell', () => {
+    expect(toCsv(withQuestions('\r=1+1'))).toContain(`"'\r=1+1"`);
+  });
+
+  it('quotes commas, quotes and line breaks', () => {
+    expect(toCsv(withQuestions('Name two, with "examples"\nand units'))).toContain('"Name two, with ""examples""\nand units"');
+  });
+
+  it('leaves numbers and formula characters inside the text alone', () => {
+    const [, row] = toCsv(withQuestions('Find x if 2x = 4')).split('\r\n');
+    expect(row).toBe('Find x if 2x = 4,Short Question,,2021,1,');
+  });
+});
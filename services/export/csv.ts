@@ -0,0 +1,24 @@
+import { SavedAnalysis } from "../../types";
+import { averageMarks } from "../questionMarks";
+
+const escapeCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Spreadsheets run text starting with these as a formula; a leading apostrophe makes it plain text again.
+const neutralizeFormula = (value: string | number): string | number =>
+  typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+export const toCsvRows = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+/**
+ * One row per group. Starts with a byte-order mark so Excel opens it as UTF-8.
+ * Question text comes from the model or OCR, so cells that would read as formulas are neutralised.
+ */
+export const toCsv = (analysis: SavedAnalysis): string =>
+  '\uFEFF' + toCsvRows([
+    ['Question', 'Type', 'Average Marks', 'Years', 'Frequency', 'Edited By Hand'],
+    ...analysis.groups.map(g => [g.normalizedQuestion, g.type, averageMarks(g.variants) ?? '', g.years.join('; '), g.frequency, g.editedByHand ? 'Yes' : ''])
+  ].map(row => row.map(neutralizeFormula)));
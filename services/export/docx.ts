@@ -0,0 +1,185 @@
+import { SavedAnalysis } from "../../types";
+import { createZip } from "./zip";
+import { averageMarks, formatMarks } from "../questionMarks";
+import { MdBlock, MdInline, parseInline, parseMarkdown } from "../markdown";
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface RunFormat {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  math?: boolean;
+  link?: boolean;
+}
+
+// Run properties in the order the schema requires.
+const run = (text: string, format: RunFormat = {}): string => {
+  const props = [
+    format.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/>' : format.math ? '<w:rFonts w:ascii="Cambria Math" w:hAnsi="Cambria Math"/>' : '',
+    format.bold ? '<w:b/>' : '',
+    format.italic || format.math ? '<w:i/>' : '',
+    format.strike ? '<w:strike/>' : '',
+    format.link ? '<w:color w:val="1D4ED8"/><w:u w:val="single"/>' : ''
+  ].join('');
+  const content = text.split('\n').map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`).join('<w:br/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${content}</w:r>`;
+};
+
+// Formulas keep their TeX source: converting to Word equations is beyond a hand-written writer.
+const inlineRuns = (nodes: MdInline[], format: RunFormat = {}): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text': return run(node.text, format);
+      case 'strong': return inlineRuns(node.children, { ...format, bold: true });
+      case 'em': return inlineRuns(node.children, { ...format, italic: true });
+      case 'del': return inlineRuns(node.children, { ...format, strike: true });
+      case 'code': return run(node.text, { ...format, code: true });
+      case 'math': return run(node.tex, { ...format, math: true });
+      case 'link': return inlineRuns(node.children, { ...format, link: true });
+      case 'break': return '<w:r><w:br/></w:r>';
+    }
+  }).join('');
+
+const LIST_INDENT = 360;
+
+const paragraphXml = (content: string, style?: string, indent = 0, extra = ''): string => {
+  const props = `${style ? `<w:pStyle w:val="${style}"/>` : ''}${indent ? `<w:ind w:left="${indent * LIST_INDENT}"/>` : ''}${extra}`;
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+};
+
+const paragraph = (text: string, style?: string): string => paragraphXml(inlineRuns(parseInline(text)), style);
+
+// Usable page width in twentieths of a point (A4 less both margins).
+const TEXT_WIDTH = 9638;
+
+const table = (block: Extract<MdBlock, { type: 'table' }>): string => {
+  const columns = block.header.length;
+  const cell = (content: MdInline[], c: number, header: boolean) => {
+    const align = block.align[c] === 'center' ? 'center' : block.align[c] === 'right' ? 'right' : '';
+    return `<w:tc><w:tcPr><w:tcW w:w="${Math.floor(TEXT_WIDTH / columns)}" w:type="dxa"/></w:tcPr>`
+      + `${paragraphXml(inlineRuns(content, { bold: header }), undefined, 0, align ? `<w:jc w:val="${align}"/>` : '')}</w:tc>`;
+  };
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="BBBBBB"/>`;
+  return `<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders></w:tblPr>`
+    + `<w:tblGrid>${block.header.map(() => `<w:gridCol w:w="${Math.floor(TEXT_WIDTH / columns)}"/>`).join('')}</w:tblGrid>`
+    + `<w:tr>${block.header.map((h, c) => cell(h, c, true)).join('')}</w:tr>`
+    + block.rows.map(row => `<w:tr>${row.map((d, c) => cell(d, c, false)).join('')}</w:tr>`).join('')
+    + '</w:tbl>';
+};
+
+/**
+ * Maps a parsed model answer to Word paragraphs. Lists are prefixed paragraphs indented by
+ * depth rather than Word numbering, which would need a numbering part of its own.
+ */
+const blockParagraphs = (blocks: MdBlock[], depth = 0, quoted = false): string[] =>
+  blocks.flatMap(block => {
+    const style = quoted ? 'Quote' : depth ? 'ListParagraph' : undefined;
+    switch (block.type) {
+      case 'heading': return [paragraphXml(inlineRuns(block.children), 'Heading3', depth)];
+      case 'paragraph': return [paragraphXml(inlineRuns(block.children), style, depth)];
+      case 'blockquote': return blockParagraphs(block.children, depth, true);
+      case 'code': return [paragraphXml(run(block.text, { code: true }), 'Code', depth)];
+      case 'math': return [paragraphXml(run(block.tex, { math: true }), style, depth, '<w:jc w:val="center"/>')];
+      case 'hr': return [paragraphXml('', undefined, 0, '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="BBBBBB"/></w:pBdr>')];
+      case 'table': return [table(block), paragraphXml('')];
+      case 'list':
+        return block.items.flatMap((item, n) => {
+          const marker = run(block.ordered ? `${block.start + n}. ` : '• ');
+          const [first, ...rest] = item;
+          const lead = first?.type === 'paragraph'
+            ? [paragraphXml(marker + inlineRuns(first.children), quoted ? 'Quote' : 'ListParagraph', depth + 1)]
+            : [paragraphXml(marker, quoted ? 'Quote' : 'ListParagraph', depth + 1), ...(first ? blockParagraphs([first], depth + 1, quoted) : [])];
+          return [...lead, ...blockParagraphs(rest, depth + 1, quoted)];
+        });
+    }
+  });
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const heading = (id: string, name: string, size: number) => `
+  <w:style w:type="paragraph" w:styleId="${id}">
+    <w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>
+    <w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/></w:pPr>
+    <w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr>
+  </w:style>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal">
+    <w:name w:val="Normal"/>
+    <w:pPr><w:spacing w:after="120"/></w:pPr>
+    <w:rPr><w:sz w:val="22"/></w:rPr>
+  </w:style>
+  ${heading('Title', 'Title', 40)}
+  ${heading('Heading2', 'heading 2', 28)}
+  ${heading('Heading3', 'heading 3', 24)}
+  <w:style w:type="paragraph" w:styleId="Meta">
+    <w:name w:val="Meta"/><w:basedOn w:val="Normal"/>
+    <w:rPr><w:color w:val="6B7280"/><w:sz w:val="18"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="ListParagraph">
+    <w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:spacing w:after="60"/><w:ind w:left="360"/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Quote">
+    <w:name w:val="Quote"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:pBdr><w:left w:val="single" w:sz="12" w:space="8" w:color="BBBBBB"/></w:pBdr><w:ind w:left="360"/></w:pPr>
+    <w:rPr><w:i/><w:color w:val="444444"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Code">
+    <w:name w:val="Code"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F4F4F4"/></w:pPr>
+    <w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/><w:sz w:val="18"/></w:rPr>
+  </w:style>
+</w:styles>`;
+
+export const toDocx = (analysis: SavedAnalysis): Uint8Array => {
+  const { summary, groups } = analysis;
+  const body: string[] = [
+    paragraph(analysis.name, 'Title'),
+    paragraph(`${summary.totalPapers} papers · ${summary.totalQuestionsExtracted} questions extracted · ${groups.length} question groups`, 'Meta')
+  ];
+
+  groups.forEach((group, index) => {
+    const marks = averageMarks(group.variants);
+    body.push(
+      paragraph(`${index + 1}. ${group.normalizedQuestion}`, 'Heading2'),
+      paragraph(`${group.type}${marks !== undefined ? ` · ${formatMarks(marks)}` : ''} · asked ${group.frequency} ${group.frequency === 1 ? 'time' : 'times'} · ${group.years.join(', ')}${group.editedByHand ? ' · edited by hand' : ''}`, 'Meta')
+    );
+    if (group.answer) {
+      body.push(paragraph(group.answerApproved ? 'Model Answer (approved)' : 'Model Answer', 'Heading3'), ...blockParagraphs(parseMarkdown(group.answer)));
+    }
+  });
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:body>${body.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134"/></w:sectPr></w:body>
+</w:document>`;
+
+  return createZip([
+    { path: '[Content_Types].xml', content: CONTENT_TYPES },
+    { path: '_rels/.rels', content: ROOT_RELS },
+    { path: 'word/_rels/document.xml.rels', content: DOCUMENT_RELS },
+    { path: 'word/document.xml', content: document },
+    { path: 'word/styles.xml', content: STYLES }
+  ]);
+};
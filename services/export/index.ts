@@ -0,0 +1,51 @@
+import { SavedAnalysis } from "../../types";
+import { toAnkiCsv } from "./anki";
+import { toCsv } from "./csv";
+import { toDocx } from "./docx";
+import { toJson } from "./json";
+import { toMarkdown } from "./markdown";
+import { printStudyGuide } from "./printable";
+
+export { parseAnalysisJson } from "./json";
+export { printHtml, toAnswerKeyHtml, toPracticePaperHtml } from "./printable";
+
+export type ExportFormat = 'pdf' | 'docx' | 'md' | 'csv' | 'anki' | 'json';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; description: string }[] = [
+  { id: 'pdf', label: 'PDF study guide', description: 'Printable booklet with answers' },
+  { id: 'docx', label: 'Word (.docx)', description: 'Editable study guide' },
+  { id: 'md', label: 'Markdown', description: 'Plain text with formatting' },
+  { id: 'csv', label: 'CSV', description: 'One row per question group' },
+  { id: 'anki', label: 'Anki deck (.csv)', description: 'Flashcards for Anki\'s Import File' },
+  { id: 'json', label: 'JSON', description: 'Full data, re-importable' }
+];
+
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1_000);
+};
+
+const fileBaseName = (analysis: SavedAnalysis) =>
+  analysis.name.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'analysis';
+
+export const exportAnalysis = (analysis: SavedAnalysis, format: ExportFormat) => {
+  const name = fileBaseName(analysis);
+  switch (format) {
+    case 'pdf':
+      return printStudyGuide(analysis);
+    case 'docx':
+      return downloadFile(toDocx(analysis), `${name}.docx`, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    case 'md':
+      return downloadFile(toMarkdown(analysis), `${name}.md`, 'text/markdown;charset=utf-8');
+    case 'csv':
+      return downloadFile(toCsv(analysis), `${name}.csv`, 'text/csv;charset=utf-8');
+    case 'anki':
+      return downloadFile(toAnkiCsv(analysis), `${name}-anki.csv`, 'text/csv;charset=utf-8');
+    case 'json':
+      return downloadFile(toJson(analysis), `${name}.json`, 'application/json');
+  }
+};
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AnalysisGroup, SavedAnalysis } from '../../types';
+import { setDiagnostics } from '../diagnostics';
+import { parseAnalysisJson, toJson } from './json';
+
+const group = (id: string): AnalysisGroup => ({
+  id,
+  normalizedQuestion: 'Define photosynthesis.',
+  type: 'Short Question',
+  years: ['2021'],
+  frequency: 1,
+  answer: '',
+  variants: [{ text: 'Define photosynthesis.', sourceFile: 'science-2021.pdf', year: '2021', marks: 3 }]
+});
+
+const analysis: SavedAnalysis = {
+  id: 'analysis-1',
+  name: 'Science',
+  createdAt: 1,
+  updatedAt: 2,
+  files: [{ name: 'science-2021.pdf', size: 1024, type: 'application/pdf', lastModified: 1, detectedYear: '2021' }],
+  extractions: [{ year: '2021', sourceFile: 'science-2021.pdf', questions: [{ text: 'Define photosynthesis.', marks: 3 }] }],
+  groups: [group('g1'), group('g2')],
+  summary: { totalPapers: 1, totalQuestionsExtracted: 1, totalRepeatedGroups: 0 },
+  syllabus: { units: [{ id: 'u1', name: 'Biology', chapters: [{ id: 'u1.c1', name: 'Plants', topics: ['Photosynthesis'] }] }] }
+};
+
+// An export with some of its fields replaced, as a damaged or hand-edited file would have them.
+const exported = (changes: Record<string, unknown>) => JSON.stringify({ ...JSON.parse(toJson(analysis)), ...changes });
+
+describe('parseAnalysisJson', () => {
+  let warnings: string[];
+
+  beforeEach(() => {
+    warnings = [];
+    setDiagnostics((_level, message) => warnings.push(message));
+  });
+
+  it('restores an export under a new id', () => {
+    const { id, updatedAt, ...restored } = parseAnalysisJson(toJson(analysis));
+    expect(id).not.toBe(analysis.id);
+    const { id: _id, updatedAt: _updatedAt, ...original } = analysis;
+    expect(restored).toEqual(original);
+    expect(warnings).toEqual([]);
+  });
+
+  it('rejects files that are not analysis exports', () => {
+    expect(() => parseAnalysisJson('{')).toThrow('not valid JSON');
+    expect(() => parseAnalysisJson('null')).toThrow('not an analysis export');
+    expect(() => parseAnalysisJson(JSON.stringify({ groups: [] }))).toThrow('not an analysis export');
+    expect(() => parseAnalysisJson(exported({ version: 99 }))).toThrow('newer version');
+  });
+
+  it('names the damaged group', () => {
+    const damaged = [group('g1'), { ...group('g2'), variants: [{ text: 'No source' }] }];
+    expect(() => parseAnalysisJson(exported({ groups: damaged }))).toThrow('Question group 2');
+    expect(() => parseAnalysisJson(exported({ groups: [{ ...group('g1'), type: 'Essay' }] }))).toThrow('Question group 1');
+    expect(() => parseAnalysisJson(exported({ summary: { totalPapers: '1' } }))).toThrow('summary');
+  });
+
+  it('rejects groups that share an id', () => {
+    expect(() => parseAnalysisJson(exported({ groups: [group('g1'), group('g2'), group('g1')] }))).toThrow('Question group 3 in this file has the same id');
+  });
+
+  it('leaves out damaged papers, extractions and syllabus with a warning', () => {
+    const restored = parseAnalysisJson(exported({
+      files: [analysis.files[0], { name: 'scan.png', size: '12 KB' }],
+      extractions: [{ year: 2021, sourceFile: 'science-2021.pdf', questions: [] }, analysis.extractions[0], { sourceFile: 'x', year: '2020', questions: [{ marks: 2 }] }],
+      syllabus: { units: [{ id: 'u1', name: 'Biology', chapters: 'Plants' }] }
+    }));
+    expect(restored.files).toEqual(analysis.files);
+    expect(restored.extractions).toEqual(analysis.extractions);
+    expect(restored.syllabus).toBeUndefined();
+    expect(restored.groups).toEqual(analysis.groups);
+    expect(warnings).toHaveLength(3);
+  });
+
+  it('replaces papers or extractions that are not a list', () => {
+    const restored = parseAnalysisJson(exported({ files: 'science-2021.pdf', extractions: undefined }));
+    expect(restored.files).toEqual([]);
+    expect(restored.extractions).toEqual([]);
+    expect(warnings).toEqual(['The paper details of an imported analysis are damaged and were left out.']);
+  });
+});
@@ -0,0 +1,148 @@
+import { SavedAnalysis } from "../../types";
+import { createAnalysisId } from "../libraryService";
+import { QUESTION_TYPE_ORDER } from "../groupFilters";
+import { reportProblem } from "../diagnostics";
+
+const EXPORT_FORMAT = 'examrepo-analysis';
+const EXPORT_VERSION = 1;
+
+interface AnalysisExport extends SavedAnalysis {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+}
+
+export const toJson = (analysis: SavedAnalysis): string => {
+  const payload: AnalysisExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...analysis
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, type: 'string' | 'number' | 'boolean') =>
+  value === undefined || typeof value === type;
+
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// An extracted question, or the same fields of a group's variant.
+const isQuestion = (value: unknown): value is Record<string, unknown> =>
+  isObject(value) &&
+  typeof value.text === 'string' &&
+  ['questionNumber', 'section', 'parentNumber', 'alternativeTo', 'language', 'session'].every(key => isOptional(value[key], 'string')) &&
+  isOptional(value.marks, 'number') &&
+  isOptional(value.page, 'number') &&
+  isOptional(value.multipleChoice, 'boolean') &&
+  (value.translations === undefined || (Array.isArray(value.translations) &&
+    value.translations.every(t => isObject(t) && typeof t.language === 'string' && typeof t.text === 'string')));
+
+const isVariant = (value: unknown) =>
+  isQuestion(value) && typeof value.sourceFile === 'string' && typeof value.year === 'string' && isOptional(value.paperId, 'string');
+
+const isMetadata = (value: unknown) =>
+  value === undefined || (isObject(value) && Object.values(value).every(field => isOptional(field, 'string')));
+
+const isExtraction = (value: unknown) =>
+  isObject(value) &&
+  typeof value.year === 'string' &&
+  typeof value.sourceFile === 'string' &&
+  isOptional(value.paperId, 'string') &&
+  isMetadata(value.metadata) &&
+  Array.isArray(value.questions) && value.questions.every(isQuestion);
+
+const isFile = (value: unknown) =>
+  isObject(value) &&
+  typeof value.name === 'string' &&
+  typeof value.size === 'number' &&
+  typeof value.type === 'string' &&
+  typeof value.lastModified === 'number' &&
+  ['pageCount', 'extractedQuestionsCount'].every(key => isOptional(value[key], 'number')) &&
+  isOptional(value.detectedYear, 'string') &&
+  isMetadata(value.metadata);
+
+const isSyllabus = (value: unknown) =>
+  isObject(value) && Array.isArray(value.units) && value.units.every(unit =>
+    isObject(unit) && typeof unit.id === 'string' && typeof unit.name === 'string' &&
+    Array.isArray(unit.chapters) && unit.chapters.every(chapter =>
+      isObject(chapter) && typeof chapter.id === 'string' && typeof chapter.name === 'string' && isStringArray(chapter.topics)));
+
+// What the views rely on when they render a group.
+const isGroup = (value: unknown) =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.normalizedQuestion === 'string' &&
+  (QUESTION_TYPE_ORDER as unknown[]).includes(value.type) &&
+  isStringArray(value.years) &&
+  typeof value.frequency === 'number' &&
+  typeof value.answer === 'string' &&
+  ['answerLanguage', 'chapterId', 'topic'].every(key => isOptional(value[key], 'string')) &&
+  isOptional(value.similarity, 'number') &&
+  Array.isArray(value.variants) && value.variants.length > 0 && value.variants.every(isVariant);
+
+const isSummary = (value: unknown) =>
+  isObject(value) && ['totalPapers', 'totalQuestionsExtracted', 'totalRepeatedGroups'].every(key => typeof value[key] === 'number');
+
+// The papers and syllabus only add to the groups, so damaged entries are left out rather than failing the import.
+const validEntries = <T>(value: unknown, isValid: (entry: unknown) => boolean, what: string): T[] => {
+  if (value === undefined) return [];
+  const entries = Array.isArray(value) ? value : [];
+  const valid = entries.filter(isValid);
+  if (!Array.isArray(value)) {
+    reportProblem('warn', `The ${what} of an imported analysis are damaged and were left out.`);
+  } else if (valid.length < entries.length) {
+    reportProblem('warn', `Left out ${entries.length - valid.length} damaged ${what} of an imported analysis.`);
+  }
+  return valid as T[];
+};
+
+/**
+ * Restores an analysis from a JSON export without calling any model.
+ * The result gets a fresh id so importing never overwrites a library entry.
+ */
+export const parseAnalysisJson = (text: string): SavedAnalysis => {
+  let data: Partial<AnalysisExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isObject(data) || data.format !== EXPORT_FORMAT || !Array.isArray(data.groups) || !data.summary) {
+    throw new Error("This file is not an analysis export.");
+  }
+  if ((data.version ?? 0) > EXPORT_VERSION) {
+    throw new Error("This export was made by a newer version of the app.");
+  }
+  const broken = data.groups.findIndex(group => !isGroup(group));
+  if (broken >= 0 || !isSummary(data.summary)) {
+    throw new Error(broken >= 0
+      ? `Question group ${broken + 1} in this file is incomplete or damaged, so it cannot be imported.`
+      : "The summary in this file is incomplete or damaged, so it cannot be imported.");
+  }
+  // Edits, merges and undo find groups by id.
+  const ids = data.groups.map(group => group.id);
+  const repeated = ids.findIndex((id, index) => ids.indexOf(id) !== index);
+  if (repeated >= 0) {
+    throw new Error(`Question group ${repeated + 1} in this file has the same id as an earlier one, so it cannot be imported.`);
+  }
+  const syllabus = data.syllabus === undefined || isSyllabus(data.syllabus) ? data.syllabus : undefined;
+  if (data.syllabus !== syllabus) reportProblem('warn', 'Left out the damaged syllabus of an imported analysis.');
+
+  const { format, version, exportedAt, ...analysis } = data as AnalysisExport;
+  const now = Date.now();
+  return {
+    ...analysis,
+    id: createAnalysisId(),
+    name: analysis.name || 'Imported analysis',
+    files: validEntries(analysis.files, isFile, 'paper details'),
+    extractions: validEntries(analysis.extractions, isExtraction, 'extractions'),
+    syllabus,
+    createdAt: analysis.createdAt || now,
+    updatedAt: now
+  };
+};
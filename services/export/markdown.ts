@@ -0,0 +1,37 @@
+import { SavedAnalysis } from "../../types";
+import { averageMarks, formatMarks } from "../questionMarks";
+
+export const toMarkdown = (analysis: SavedAnalysis): string => {
+  const { summary, groups } = analysis;
+  const lines: string[] = [
+    `# ${analysis.name}`,
+    '',
+    `- Papers: ${summary.totalPapers}`,
+    `- Questions extracted: ${summary.totalQuestionsExtracted}`,
+    `- Question groups: ${groups.length}`,
+    ''
+  ];
+
+  groups.forEach((group, index) => {
+    const marks = averageMarks(group.variants);
+    lines.push(
+      `## ${index + 1}. ${group.normalizedQuestion}`,
+      '',
+      `**${group.type}**${marks !== undefined ? ` · ${formatMarks(marks)}` : ''} · asked ${group.frequency} ${group.frequency === 1 ? 'time' : 'times'} · ${group.years.join(', ')}${group.editedByHand ? ' · edited by hand' : ''}`,
+      ''
+    );
+
+    lines.push('**Appeared as:**', '');
+    group.variants.forEach(v => {
+      const source = [v.sourceFile, v.year, v.page ? `p. ${v.page}` : null, v.marks ? formatMarks(v.marks) : null].filter(Boolean).join(', ');
+      lines.push(`- "${v.text}" (${source})`);
+    });
+    lines.push('');
+
+    if (group.answer) {
+      lines.push(`### Model Answer${group.answerApproved ? ' (approved)' : ''}`, '', group.answer, '');
+    }
+  });
+
+  return lines.join('\n');
+};
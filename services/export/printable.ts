@@ -0,0 +1,102 @@
+import { AnalysisGroup, PracticePaper, SavedAnalysis } from "../../types";
+import { averageMarks, formatMarks } from "../questionMarks";
+import { escapeHtml, inlineMarkdownToHtml, markdownToHtml } from "../markdown";
+// Inlined with its font URLs pointing at the app's own copies, so printing works offline.
+import katexCss from "katex/dist/katex.min.css?inline";
+
+// Answers keep their Markdown structure; formulas are typeset by KaTeX.
+const answerHtml = (answer: string): string => `<div class="answer">${markdownToHtml(answer)}</div>`;
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #111; max-width: 780px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-family: Inter, Arial, sans-serif; font-size: 26px; margin-bottom: 4px; }
+  h2 { font-family: Inter, Arial, sans-serif; font-size: 17px; margin: 28px 0 4px; }
+  h3 { font-size: 12px; text-transform: uppercase; letter-spacing: .08em; color: #555; margin: 12px 0 4px; }
+  .answer h1, .answer h2, .answer h3, .answer h4, .answer h5, .answer h6 { font-family: inherit; font-size: 14px; text-transform: none; letter-spacing: 0; color: #111; margin: 10px 0 4px; }
+  .answer ul, .answer ol { padding-left: 22px; margin: 6px 0; }
+  .answer table { border-collapse: collapse; margin: 8px 0; font-size: 13px; }
+  .answer th, .answer td { border: 1px solid #bbb; padding: 3px 8px; }
+  .answer blockquote { border-left: 2px solid #bbb; margin: 8px 0; padding-left: 12px; color: #444; }
+  .answer pre { background: #f4f4f4; padding: 8px; font-size: 12px; white-space: pre-wrap; }
+  .answer code { font-family: Menlo, Consolas, monospace; font-size: 12px; }
+  .meta { font-family: Inter, Arial, sans-serif; font-size: 12px; color: #666; }
+  .group { break-inside: avoid-page; border-top: 1px solid #ddd; padding-top: 4px; }
+  .question { display: flex; gap: 12px; break-inside: avoid-page; margin: 12px 0; }
+  .question .marks { margin-left: auto; white-space: nowrap; font-family: Inter, Arial, sans-serif; font-size: 12px; color: #666; }
+  @page { margin: 18mm; }
+`;
+
+const printablePage = (title: string, body: string) => `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="UTF-8"><title>${escapeHtml(title)}</title><style>${katexCss}${PRINT_STYLES}</style></head>
+<body>
+${body}
+</body>
+</html>`;
+
+export const toPrintableHtml = (analysis: SavedAnalysis): string => {
+  const { summary, groups } = analysis;
+  const sections = groups.map((group, index) => {
+    const marks = averageMarks(group.variants);
+    return `
+    <section class="group">
+      <h2>${index + 1}. ${inlineMarkdownToHtml(group.normalizedQuestion)}</h2>
+      <p class="meta">${escapeHtml(group.type)}${marks !== undefined ? ` · ${formatMarks(marks)}` : ''} · asked ${group.frequency} ${group.frequency === 1 ? 'time' : 'times'} · ${escapeHtml(group.years.join(', '))}${group.editedByHand ? ' · edited by hand' : ''}</p>
+      ${group.answer ? `<h3>Model Answer${group.answerApproved ? ' (approved)' : ''}</h3>${answerHtml(group.answer)}` : ''}
+    </section>`;
+  }).join('');
+
+  return printablePage(analysis.name, `
+  <h1>${escapeHtml(analysis.name)}</h1>
+  <p class="meta">${summary.totalPapers} papers · ${summary.totalQuestionsExtracted} questions extracted · ${groups.length} question groups</p>
+  ${sections}`);
+};
+
+const paperHeader = (paper: PracticePaper, subtitle?: string) => `
+  <h1>${escapeHtml(paper.title)}${subtitle ? ` — ${subtitle}` : ''}</h1>
+  <p class="meta">Time: ${paper.durationMinutes} minutes · Maximum marks: ${paper.totalMarks}</p>`;
+
+/**
+ * The question paper as a student gets it: no answers, no hints about where questions came from.
+ */
+export const toPracticePaperHtml = (paper: PracticePaper): string =>
+  printablePage(paper.title, `${paperHeader(paper)}
+  ${paper.sections.filter(s => s.questions.length > 0).map(section => `
+    <h2>${escapeHtml(section.name)}</h2>
+    ${section.questions.map(q => `
+      <div class="question"><strong>${q.number}.</strong><span>${inlineMarkdownToHtml(q.text)}</span><span class="marks">[${q.marks}]</span></div>`).join('')}`).join('')}`);
+
+/**
+ * The answer key; picked questions use the current answer of their group.
+ */
+export const toAnswerKeyHtml = (paper: PracticePaper, groups: AnalysisGroup[]): string => {
+  const answers = new Map(groups.map(g => [g.id, g.answer]));
+  return printablePage(`${paper.title} — Answer Key`, `${paperHeader(paper, 'Answer Key')}
+  ${paper.sections.flatMap(s => s.questions).map(q => {
+    const answer = q.groupId ? answers.get(q.groupId) : q.answer;
+    return `
+    <section class="group">
+      <h2>${q.number}. ${inlineMarkdownToHtml(q.text)}</h2>
+      <p class="meta">${q.marks} ${q.marks === 1 ? 'mark' : 'marks'}${q.topic ? ` · ${escapeHtml(q.topic)}` : ''}${q.groupId ? '' : ' · newly written'}</p>
+      ${answer ? answerHtml(answer) : '<p class="meta">No answer written yet.</p>'}
+    </section>`;
+  }).join('')}`);
+};
+
+/**
+ * Opens the page in a new window and the browser's print dialog, where it can be saved as PDF.
+ * The dialog waits for the page to load so the formula fonts are in place.
+ */
+export const printHtml = (html: string) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) throw new Error("Allow pop-ups for this site to print.");
+  printWindow.document.write(html);
+  // Set after write: opening the document clears handlers set before it.
+  printWindow.onload = () => {
+    printWindow.focus();
+    printWindow.print();
+  };
+  printWindow.document.close();
+};
+
+export const printStudyGuide = (analysis: SavedAnalysis) => printHtml(toPrintableHtml(analysis));
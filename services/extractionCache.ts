@@ -0,0 +1,103 @@
+import { ExtractionResult, UploadedFile } from "../types";
+import { STORES, withStore } from "./db";
+import { EXTRACTION_PROMPT_VERSION, extractQuestionsFromPaper } from "./geminiService";
+import { isUnchangedFile } from "./pageRenderer";
+import { extractQuestionsLocally, LOCAL_EXTRACTOR_ID, LOCAL_EXTRACTOR_VERSION } from "./localExtraction";
+import { LLMProvider } from "./providers";
+import { RunController } from "./jobQueue";
+
+export interface CachedExtraction {
+  key: string;
+  result: ExtractionResult;
+  cachedAt: number;
+}
+
+/** Where cached extractions are kept: IndexedDB in the browser, a folder for the command line. */
+export interface ExtractionStore {
+  get(key: string): Promise<CachedExtraction | undefined>;
+  put(entry: CachedExtraction): Promise<void>;
+}
+
+const indexedDBStore: ExtractionStore = {
+  get: (key) => withStore<CachedExtraction | undefined>(STORES.extractions, 'readonly', store => store.get(key)),
+  put: async (entry) => {
+    await withStore(STORES.extractions, 'readwrite', store => store.put(entry));
+  }
+};
+
+let extractionStore = indexedDBStore;
+
+export const setExtractionStore = (store: ExtractionStore) => {
+  extractionStore = store;
+};
+
+type PaperSource = Pick<UploadedFile, 'file' | 'pages'>;
+
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * A paper is identified by its files and what was done to each page. A paper whose pages
+ * are still the file as uploaded shares that file's hash, and so its cached extraction.
+ */
+export const hashPaper = async (paper: PaperSource): Promise<string> => {
+  if (!paper.pages || await isUnchangedFile(paper.file, paper.pages)) return hashFile(paper.file);
+  const fileHashes = new Map<File, Promise<string>>();
+  const pageKeys = await Promise.all(paper.pages.map(async page => {
+    if (!fileHashes.has(page.file)) fileHashes.set(page.file, hashFile(page.file));
+    const crop = page.crop ? [page.crop.x, page.crop.y, page.crop.width, page.crop.height].map(n => n.toFixed(4)).join(',') : '';
+    return `${await fileHashes.get(page.file)}#${page.pdfPage ?? ''}@${page.rotation}[${crop}]`;
+  }));
+  return hashFile(new Blob([pageKeys.join('\n')]));
+};
+
+/**
+ * A cached extraction is only valid for the same bytes, model and prompt version.
+ */
+export const extractionCacheKey = (contentHash: string, providerId: string, model: string) =>
+  `${contentHash}:${providerId}:${model}:v${EXTRACTION_PROMPT_VERSION}`;
+
+export const getCachedExtraction = async (
+  paper: PaperSource,
+  providerId: string,
+  model: string
+): Promise<ExtractionResult | undefined> => {
+  const key = extractionCacheKey(await hashPaper(paper), providerId, model);
+  const entry = await extractionStore.get(key);
+  // The same bytes may have been uploaded under another name.
+  return entry && { ...entry.result, sourceFile: paper.file.name };
+};
+
+/**
+ * Step 1 with a local cache in front: only new or changed papers reach the provider.
+ * Without a provider the paper is read on this device; those results are cached under the
+ * local extractor's id so they never stand in for a model's.
+ */
+export const extractQuestionsCached = async (
+  paper: PaperSource,
+  provider: LLMProvider | null,
+  { force = false, controller }: { force?: boolean; controller?: RunController } = {}
+): Promise<{ result: ExtractionResult; fromCache: boolean }> => {
+  const key = extractionCacheKey(
+    await hashPaper(paper),
+    provider?.id ?? LOCAL_EXTRACTOR_ID,
+    provider?.model ?? LOCAL_EXTRACTOR_VERSION
+  );
+
+  if (!force) {
+    const entry = await extractionStore.get(key);
+    if (entry) return { result: { ...entry.result, sourceFile: paper.file.name }, fromCache: true };
+  }
+
+  const result = provider
+    ? await extractQuestionsFromPaper(paper, provider, controller)
+    : await extractQuestionsLocally(paper, controller);
+  // Empty results are usually a failed read; do not pin them in the cache.
+  if (result.questions.length > 0) {
+    const entry: CachedExtraction = { key, result, cachedAt: Date.now() };
+    await extractionStore.put(entry);
+  }
+  return { result, fromCache: false };
+};
@@ -0,0 +1,66 @@
+import { AnalysisProgress, ExtractionResult, UploadedFile } from "../types";
+import { extractQuestionsCached } from "./extractionCache";
+import { applyPaperMetadata } from "./paperMetadata";
+import { CancelledError, describeError } from "./errors";
+import { RunController, runQueue } from "./jobQueue";
+import { LLMProvider } from "./providers";
+import { reportProblem } from "./diagnostics";
+
+export interface ExtractPapersOptions {
+  concurrency: number;
+  controller: RunController;
+  onProgress?: (progress: AnalysisProgress) => void;
+  onStart?: (paper: UploadedFile) => void;
+  onDone?: (paper: UploadedFile, extraction: ExtractionResult, fromCache: boolean) => void;
+  onError?: (paper: UploadedFile, message: string) => void;
+  /** The paper was started, but the run was cancelled before it finished. */
+  onCancel?: (paper: UploadedFile) => void;
+  /**
+   * Reads a paper when its turn in the queue comes, so a large batch is never all in memory.
+   * Without it, papers are extracted as given.
+   */
+  loadPaper?: (paper: UploadedFile) => Promise<UploadedFile>;
+}
+
+/**
+ * Step 1 for a batch of papers: extracts each through the cache and the bounded queue, with
+ * the paper's known metadata applied. Resolves with one entry per paper (its extraction, or
+ * null if it failed) and the failure reasons by paper id. Rejects with CancelledError when
+ * the run is cancelled. A null provider reads the papers offline.
+ */
+export const extractPapers = async (
+  papers: UploadedFile[],
+  provider: LLMProvider | null,
+  { concurrency, controller, onProgress, onStart, onDone, onError, onCancel, loadPaper }: ExtractPapersOptions
+): Promise<{ results: (ExtractionResult | null)[]; errors: Map<string, string> }> => {
+  let processedCount = 0;
+  const errors = new Map<string, string>();
+  onProgress?.({ stage: 'extraction', completed: 0, total: papers.length });
+
+  const settled = await runQueue(papers, async (paper) => {
+    onStart?.(paper);
+    try {
+      const loaded = loadPaper ? await loadPaper(paper) : paper;
+      const { result, fromCache } = await extractQuestionsCached(loaded, provider, {
+        force: loaded.forceExtract,
+        controller
+      });
+      const extraction = { ...applyPaperMetadata(result, loaded), paperId: paper.id };
+      onDone?.(paper, extraction, fromCache);
+      return extraction;
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        onCancel?.(paper);
+        throw err;
+      }
+      reportProblem('error', `Error processing ${paper.file.name}:`, err);
+      errors.set(paper.id, describeError(err));
+      onError?.(paper, errors.get(paper.id)!);
+      throw err;
+    } finally {
+      onProgress?.({ stage: 'extraction', completed: ++processedCount, total: papers.length });
+    }
+  }, { concurrency, controller });
+
+  return { results: settled.map(r => r.status === 'fulfilled' ? r.value : null), errors };
+};
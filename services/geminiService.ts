@@ -1,67 +1,34 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisGroup, ExtractionResult } from "../types";
+import { Type, Schema } from "@google/genai";
+import { AnalysisGroup, AnalysisProgress, ExtractedQuestion, ExtractionResult, PaperMetadata, QuestionVariant, UploadedFile } from "../types";
+import { ContentPart, LLMProvider } from "./providers";
+import { generateValidatedJSON } from "./structuredOutput";
+import { RunController } from "./jobQueue";
+import { inferQuestionType } from "./questionMarks";
+import { hasPages, isImage, pageToJpeg, paperPages } from "./pageRenderer";
+import { blobToBase64 } from "./platform";
+import { mergeMetadata, normalizeYear } from "./paperMetadata";
+import { detectLanguage, mergeBilingualCopies, normalizeLanguage, questionTexts } from "./language";
+import { averageSimilarity, clusterBySimilarity, cosineSimilarity, DEFAULT_SIMILARITY_THRESHOLD, TfIdfVectorizer, Vectorizer } from "./similarityService";
+import { reportProblem } from "./diagnostics";
 
-// Constants for Image Optimization
-const MAX_IMAGE_DIMENSION = 1536; // 1536px is sufficient for OCR
-const IMAGE_QUALITY = 0.8; // 80% quality reduces size significantly with good text clarity
+// Bump whenever the extraction prompt or schema changes, so cached extractions are not reused.
+export const EXTRACTION_PROMPT_VERSION = 6;
 
-/**
- * Compresses and resizes images client-side before sending to API.
- * This reduces bandwidth usage and speeds up processing.
- */
-const compressImage = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = (event) => {
-      const img = new Image();
-      img.src = event.target?.result as string;
-      
-      img.onload = () => {
-        let width = img.width;
-        let height = img.height;
-
-        // Calculate new dimensions if resizing is needed
-        if (width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION) {
-          if (width > height) {
-            height *= MAX_IMAGE_DIMENSION / width;
-            width = MAX_IMAGE_DIMENSION;
-          } else {
-            width *= MAX_IMAGE_DIMENSION / height;
-            height = MAX_IMAGE_DIMENSION;
-          }
-        }
-
-        const canvas = document.createElement('canvas');
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        
-        if (!ctx) {
-          // Fallback to original if canvas context fails
-          resolve((event.target?.result as string).split(',')[1]);
-          return;
-        }
-
-        // Draw and compress
-        ctx.drawImage(img, 0, 0, width, height);
-        const dataUrl = canvas.toDataURL('image/jpeg', IMAGE_QUALITY);
-        resolve(dataUrl.split(',')[1]); // Remove data URL prefix
-      };
+// Pages sent per extraction request; longer papers are extracted one page range at a time.
+const PAGES_PER_REQUEST = 8;
 
-      img.onerror = (error) => reject(error);
-    };
-    reader.onerror = (error) => reject(error);
-  });
-};
+// Batch sizes for the staged grouping pipeline.
+// Each response stays far below the model's output limit, however many papers are uploaded.
+const CLUSTER_BATCH_SIZE = 150; // unique questions per clustering call
+const MERGE_BATCH_SIZE = 250; // clusters per cross-batch merge call
 
 // Helper to convert file to base64
-const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
+export const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
   
   // If it's an image, compress it first
-  if (file.type.startsWith('image/')) {
+  if (isImage(file)) {
     try {
-      const compressedBase64 = await compressImage(file);
+      const compressedBase64 = await pageToJpeg({ id: file.name, file, rotation: 0 });
       return {
         inlineData: {
           data: compressedBase64,
@@ -69,131 +36,409 @@ const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: s
         },
       };
     } catch (e) {
-      console.warn("Image compression failed, falling back to original file", e);
+      reportProblem('warn', "Image compression failed, falling back to original file", e);
       // Fallthrough to standard reader below
     }
   }
 
   // Standard handling for PDFs and Text (or failed image compression)
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      // Remove data url prefix (e.g. "data:application/pdf;base64,")
-      const base64Data = base64String.split(',')[1];
-      resolve({
-        inlineData: {
-          data: base64Data,
-          mimeType: file.type,
+  return { inlineData: { data: await blobToBase64(file), mimeType: file.type } };
+};
+
+// Schema for extraction
+const extractionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    year: { type: Type.STRING, description: "The year of the exam paper found in the text/header. If not found, use 'Unknown'." },
+    session: { type: Type.STRING, description: "The month or term of the exam, and 'Supplementary' for a supplementary/compartment sitting, e.g. 'March Supplementary'. Empty if not printed." },
+    board: { type: Type.STRING, description: "The examining board or university, as printed. Empty if not printed." },
+    subject: { type: Type.STRING, description: "The subject of the paper, e.g. 'Physics'. Empty if not printed." },
+    courseCode: { type: Type.STRING, description: "The course, subject or paper code, e.g. 'PHY101'. Empty if not printed." },
+    paperSet: { type: Type.STRING, description: "The set or series of the paper, e.g. 'A' for Set A. Empty if not printed." },
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING, description: "The question text without its numbering or marks, in the language and script printed." },
+          language: { type: Type.STRING, description: "ISO 639-1 code of the language of 'text', e.g. 'en', 'hi'." },
+          translations: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                language: { type: Type.STRING, description: "ISO 639-1 code." },
+                text: { type: Type.STRING, description: "The same question as printed in this language." }
+              },
+              required: ["language", "text"]
+            },
+            description: "On a bilingual paper, the same question as printed in the other language(s). Empty otherwise."
+          },
+          questionNumber: { type: Type.STRING, description: "The original label as printed, e.g. '3', 'Q4(b)'. Empty if none." },
+          section: { type: Type.STRING, description: "The section the question is in, e.g. 'A', 'B'. Empty if the paper has no sections." },
+          marks: { type: Type.NUMBER, description: "Marks allotted to this question or sub-part, as printed. 0 if not printed." },
+          parentNumber: { type: Type.STRING, description: "For a sub-part such as 4(b), the number of its main question ('4'). Empty otherwise." },
+          alternativeTo: { type: Type.STRING, description: "For an internal choice printed after 'OR', the questionNumber of the question it can replace. Empty otherwise." },
+          multipleChoice: { type: Type.BOOLEAN, description: "True if the question is printed with options to choose from." },
+          page: { type: Type.INTEGER, description: "The number of the page where the question appears, as labelled before each page image." }
         },
-      });
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+        required: ["text"]
+      },
+      description: "List of all exam questions extracted from the document. Exclude instructions, headers, and footers."
+    }
+  },
+  required: ["year", "questions"]
 };
 
+const EXTRACTION_INSTRUCTIONS = `Extract every exam question from this document.
+        
+        STRICT NORMALIZATION RULES:
+        1. Remove all numbering and labels (e.g., '1.', 'Q1.', '(a)', '2)') from the text, but record them in 'questionNumber'.
+        2. Remove printed marks (e.g., '[5]', '(2 marks)') from the text, but record them in 'marks'.
+        3. Correct OCR spelling mistakes in English text only. Copy text in any other language exactly as printed,
+           in its original script: never "correct", transliterate or translate it.
+        4. If a question is broken across multiple lines, merge it into a single coherent sentence.
+        5. Keep the COMPLETE, exact meaning of the question.
+        6. Do NOT shorten or summarize the question.
+        7. Detect the Year of the exam, and the session, board or university, subject, course code and set printed on the paper.
+        8. Record the page each question appears on.
+        9. Record the language of each question in 'language' as an ISO 639-1 code ('en', 'hi', 'ta'...).
+
+        PAPER STRUCTURE:
+        - Record the section (A, B, C...) each question belongs to, if the paper is divided into sections.
+        - Return each sub-part ((a), (b), (i)...) as its own question with its own marks and 'parentNumber'.
+          If a sub-part only makes sense with the shared stem of its main question, include the stem in its text.
+        - Return both sides of an internal choice ("OR") as separate questions; set 'alternativeTo' on the one printed after "OR".
+        - If marks are printed once for a whole section (e.g., "Each question carries 2 marks"), apply them to every question in it.
+        - Set 'multipleChoice' for questions printed with options; keep the options in the text.
+
+        BILINGUAL PAPERS:
+        - If each question is printed in two languages (e.g. English and Hindi, side by side or one after the other),
+          return it ONCE: the first version printed in 'text' and 'language', the other version(s) in 'translations'.`;
+
+// Told to the model when it only sees part of a long paper.
+const pageRangeNote = (first: number, last: number, total: number) => `
+
+        PAGE RANGE:
+        These are pages ${first}-${last} of a ${total}-page paper; the other pages are extracted separately.${first > 1 ? `
+        - Skip text at the top of page ${first} that only continues a question from an earlier page.` : ''}
+        - Include a question that starts on page ${last} even if it continues on a later page.
+        - If the year is not printed on these pages, use 'Unknown'; leave the other paper details empty.`;
+
+type RawExtraction = PaperMetadata & { year: string; questions: ExtractedQuestion[] };
+
+const requestExtraction = (parts: ContentPart[], provider: LLMProvider, controller?: RunController) =>
+  generateValidatedJSON<RawExtraction>(provider, { task: 'extraction', schema: extractionSchema, parts }, { controller });
+
 /**
- * Step 1: Extract raw questions from a single file.
- * Uses Gemini to OCR/Extract text and identify the year.
+ * Step 1: Extract raw questions from a single paper.
+ * Uses the configured provider to OCR/Extract text and identify the year. PDFs and images are
+ * rendered locally page by page (with the user's rotation and crop), and long papers are sent
+ * in ranges of pages so no request exceeds the provider's inline size limit.
  */
-export const extractQuestionsFromFile = async (
-  file: File
+export const extractQuestionsFromPaper = async (
+  paper: Pick<UploadedFile, 'file' | 'pages'>,
+  provider: LLMProvider,
+  controller?: RunController
 ): Promise<ExtractionResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // Schema for extraction
-  const extractionSchema: Schema = {
+  const responses: RawExtraction[] = [];
+
+  if (!hasPages(paper.file)) {
+    responses.push(await requestExtraction([await fileToGenerativePart(paper.file), { text: EXTRACTION_INSTRUCTIONS }], provider, controller));
+  } else {
+    const pages = await paperPages(paper);
+    const ranges = chunk(pages, PAGES_PER_REQUEST);
+    for (const [index, range] of ranges.entries()) {
+      const first = index * PAGES_PER_REQUEST + 1;
+      const last = first + range.length - 1;
+      // Encoded one range at a time, so a long paper never holds every page in memory.
+      const images = await Promise.all(range.map(pageToJpeg));
+      const parts: ContentPart[] = images.flatMap((data, i) => [
+        { text: `Page ${first + i}:` },
+        { inlineData: { data, mimeType: 'image/jpeg' } }
+      ]);
+      parts.push({ text: EXTRACTION_INSTRUCTIONS + (ranges.length > 1 ? pageRangeNote(first, last, pages.length) : '') });
+      responses.push(await requestExtraction(parts, provider, controller));
+    }
+  }
+
+  // Enforce Rule 5: Remove duplicate copies locally from this file
+  const seen = new Set<string>();
+  const uniqueQuestions: ExtractedQuestion[] = [];
+  responses.flatMap(r => r.questions).forEach(q => {
+    if (!q.text || seen.has(q.text)) return;
+    seen.add(q.text);
+    const translations = (q.translations ?? [])
+      .map(t => ({ language: normalizeLanguage(t.language) ?? detectLanguage(t.text) ?? '', text: t.text?.trim() ?? '' }))
+      .filter(t => t.text && t.text !== q.text);
+    uniqueQuestions.push({
+      text: q.text,
+      language: normalizeLanguage(q.language) ?? detectLanguage(q.text),
+      translations: translations.length > 0 ? translations : undefined,
+      questionNumber: q.questionNumber || undefined,
+      section: q.section || undefined,
+      marks: q.marks && q.marks > 0 ? q.marks : undefined,
+      parentNumber: q.parentNumber || undefined,
+      alternativeTo: q.alternativeTo || undefined,
+      multipleChoice: q.multipleChoice || undefined,
+      page: q.page || undefined
+    });
+  });
+
+  // The cover page usually carries the paper's details; later ranges may not show them.
+  const metadata = mergeMetadata(...responses.map(({ questions, ...details }) => details).reverse());
+  return {
+    // Bilingual papers the model still read twice are counted once.
+    questions: mergeBilingualCopies(uniqueQuestions),
+    year: metadata.year ?? "Unknown",
+    sourceFile: paper.file.name,
+    metadata
+  };
+};
+
+// A cluster of input question ids believed to share one meaning.
+interface Cluster {
+  id: string;
+  normalizedQuestion: string;
+  type: AnalysisGroup['type'];
+  memberIds: string[];
+}
+
+interface PreProcessedQuestion {
+  id: string;
+  question: string;
+  language?: string;
+  translations?: string[]; // the same question as a bilingual paper printed it in other languages
+  years: string[];
+  candidate: string; // local similarity cluster the question was placed in
+}
+
+export interface AnalyzeOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  /** Cosine similarity (0-1) at which two questions are proposed as the same. */
+  similarityThreshold?: number;
+  vectorizer?: Vectorizer;
+  /** Pauses between batches and cancels in-flight requests. */
+  controller?: RunController;
+}
+
+const QUESTION_TYPES: AnalysisGroup['type'][] = ["Long Question", "Short Question", "Very Short Question", "MCQ"];
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+};
+
+const clusterSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
     type: Type.OBJECT,
     properties: {
-      year: { type: Type.STRING, description: "The year of the exam paper found in the text/header. If not found, use 'Unknown'." },
-      questions: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING },
-        description: "List of all exam questions extracted from the document. Exclude instructions, headers, and footers."
-      }
+      normalizedQuestion: { type: Type.STRING, description: "The cleanest, most complete version of the question." },
+      type: { type: Type.STRING, enum: QUESTION_TYPES },
+      memberIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The 'id' of every input question merged into this group." }
     },
-    required: ["year", "questions"]
-  };
-
-  const filePart = await fileToGenerativePart(file);
+    required: ["normalizedQuestion", "type", "memberIds"]
+  }
+};
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: {
-      parts: [
-        filePart,
-        { text: `Extract every exam question from this document.
+/**
+ * Stage 1 (map): group one batch of unique questions by meaning.
+ * Ids the model forgets become singleton clusters so no question is ever dropped.
+ */
+const clusterBatch = async (
+  batch: PreProcessedQuestion[],
+  provider: LLMProvider,
+  nextId: () => string,
+  controller?: RunController
+): Promise<Cluster[]> => {
+  const rawClusters = await generateValidatedJSON<Omit<Cluster, 'id'>[]>(provider, {
+    task: 'clustering',
+    schema: clusterSchema,
+    parts: [
+      { text: `You are an expert Exam Question Analyzer.
         
-        STRICT NORMALIZATION RULES:
-        1. Remove all numbering and labels (e.g., '1.', 'Q1.', '(a)', '2)').
-        2. Correct any OCR spelling mistakes automatically.
-        3. If a question is broken across multiple lines, merge it into a single coherent sentence.
-        4. Keep the COMPLETE, exact meaning of the question.
-        5. Do NOT shorten or summarize the question.
-        6. Detect the Year of the exam.` }
-      ]
-    },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: extractionSchema,
-    }
+        INPUT DATA:
+        I have pre-grouped identical text strings. The input is a JSON list of objects: { "id": "...", "question": "...", "years": [...], "candidate": "..." }.
+        Questions sharing a "candidate" value were proposed as near-duplicates by a local text-similarity engine.
+        Questions may be in different languages ("language" is its code; "translations" holds the same question printed in other languages).
+
+        YOUR TASK:
+        1. **Semantic Grouping**: Confirm each candidate cluster, or SPLIT it where questions actually ask different things (similar wording is not the same meaning). Also merge questions from different candidates that have the SAME MEANING but different wording (e.g., "Define Photosynthesis" == "What do you mean by Photosynthesis?").
+           The same question asked in different languages has the SAME MEANING: merge it across languages.
+        2. **Membership**: For each group, list the "id" of EVERY input question it contains in 'memberIds'. Every input id must belong to exactly one group.
+        3. For each group, create a 'normalizedQuestion' (best version) and determine 'type'. Write 'normalizedQuestion' in the language most of its members use, in its original script; in English if they are evenly split.
+        4. Do NOT write answers.
+
+        INPUT JSON:
+        ${JSON.stringify(batch)}` }
+    ]
+  }, { controller });
+
+  const batchIds = new Set(batch.map(q => q.id));
+  const claimed = new Set<string>();
+  const clusters: Cluster[] = [];
+
+  rawClusters.forEach(raw => {
+    const memberIds = raw.memberIds.filter(id => batchIds.has(id) && !claimed.has(id));
+    if (memberIds.length === 0) return;
+    memberIds.forEach(id => claimed.add(id));
+    clusters.push({
+      id: nextId(),
+      normalizedQuestion: raw.normalizedQuestion,
+      type: QUESTION_TYPES.includes(raw.type) ? raw.type : "Short Question",
+      memberIds
+    });
+  });
+
+  batch.filter(q => !claimed.has(q.id)).forEach(q => {
+    clusters.push({ id: nextId(), normalizedQuestion: q.question, type: "Short Question", memberIds: [q.id] });
   });
 
-  const text = response.text;
-  if (!text) throw new Error("No response from Gemini");
-
-  try {
-    const result = JSON.parse(text);
-    // Enforce Rule 5: Remove duplicate copies locally from this file
-    const uniqueQuestions = Array.from(new Set(result.questions || [])) as string[];
-    
-    return {
-      questions: uniqueQuestions,
-      year: result.year || "Unknown",
-      sourceFile: file.name
-    };
-  } catch (e) {
-    console.error("Failed to parse extraction JSON", e);
-    return { questions: [], year: "Unknown", sourceFile: file.name };
+  return clusters;
+};
+
+const mergeSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      normalizedQuestion: { type: Type.STRING, description: "The best wording for the merged group." },
+      type: { type: Type.STRING, enum: QUESTION_TYPES },
+      clusterIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Ids of the input groups that ask the same thing." }
+    },
+    required: ["normalizedQuestion", "type", "clusterIds"]
   }
 };
 
 /**
- * Step 2: Analyze the aggregated list of questions.
- * Groups them, finds frequencies, and generates answers.
+ * Stage 2 (reduce): merge clusters from different batches that turn out to be the same question.
+ * The model only reports merges; clusters it does not mention pass through unchanged.
  */
-export const analyzeRepeatedQuestions = async (
-  allExtractions: ExtractionResult[]
-): Promise<AnalysisGroup[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const mergeBatch = async (
+  batch: Cluster[],
+  provider: LLMProvider,
+  nextId: () => string,
+  controller?: RunController
+): Promise<Cluster[]> => {
+  const merges = await generateValidatedJSON<{ normalizedQuestion: string; type: AnalysisGroup['type']; clusterIds: string[] }[]>(provider, {
+    task: 'merging',
+    schema: mergeSchema,
+    parts: [
+      { text: `You are an expert Exam Question Analyzer.
+
+        INPUT DATA:
+        A JSON list of question groups: { "id": "...", "question": "..." }. Groups were built from separate batches, so some may ask the SAME THING,
+        possibly in different languages.
+
+        YOUR TASK:
+        1. Find groups that have the SAME MEANING and report each set in 'clusterIds' (at least 2 ids).
+        2. Give each merged set a 'normalizedQuestion' and 'type'.
+        3. Do NOT list groups that have no duplicate.
+
+        INPUT JSON:
+        ${JSON.stringify(batch.map(c => ({ id: c.id, question: c.normalizedQuestion })))}` }
+    ]
+  }, { controller });
+
+  const byId = new Map(batch.map(c => [c.id, c]));
+  const consumed = new Set<string>();
+  const merged: Cluster[] = [];
+
+  merges.forEach(raw => {
+    const members = raw.clusterIds
+      .filter(id => byId.has(id) && !consumed.has(id))
+      .map(id => byId.get(id)!);
+    if (members.length < 2) return;
+    members.forEach(c => consumed.add(c.id));
+    merged.push({
+      id: nextId(),
+      normalizedQuestion: raw.normalizedQuestion || members[0].normalizedQuestion,
+      type: QUESTION_TYPES.includes(raw.type) ? raw.type : members[0].type,
+      memberIds: members.flatMap(c => c.memberIds)
+    });
+  });
+
+  return [...merged, ...batch.filter(c => !consumed.has(c.id))];
+};
 
+/**
+ * Packs candidate clusters into batches without splitting any candidate across two batches
+ * (unless a single candidate is larger than a whole batch).
+ */
+const packCandidates = (candidates: PreProcessedQuestion[][], size: number): PreProcessedQuestion[][] => {
+  const batches: PreProcessedQuestion[][] = [];
+  let current: PreProcessedQuestion[] = [];
+  candidates.forEach(candidate => {
+    if (current.length > 0 && current.length + candidate.length > size) {
+      batches.push(current);
+      current = [];
+    }
+    current.push(...candidate);
+    while (current.length > size) {
+      batches.push(current.slice(0, size));
+      current = current.slice(size);
+    }
+  });
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+/**
+ * Flattens extractions into unique questions, keeping every occurrence for traceability.
+ */
+const flattenQuestions = (allExtractions: ExtractionResult[]) => {
   // ---------------------------------------------------------
   // CLIENT-SIDE OPTIMIZATION:
   // Flatten and deduplicate exact matches before sending to AI.
   // This reduces input tokens and processing load significantly.
   // ---------------------------------------------------------
-  const questionMap = new Map<string, { text: string; years: string[] }>();
+  const questionMap = new Map<string, { id: string; text: string; language?: string; translations?: string[]; years: string[]; occurrences: QuestionVariant[] }>();
 
   allExtractions.forEach(ex => {
-    const safeYear = ex.year || "Unknown";
+    // Labels such as "March 2021 (Supplementary)" from older analyses count as their year.
+    const safeYear = normalizeYear(ex.year) ?? "Unknown";
+    const session = ex.metadata?.session;
     ex.questions.forEach(q => {
-      if (!q || typeof q !== 'string') return;
+      if (!q || typeof q.text !== 'string') return;
       
-      const cleanText = q.trim();
+      const cleanText = q.text.trim();
       if (cleanText.length < 3) return; // Skip noise/empty
 
-      // Normalize key for matching (lowercase, collapse spaces)
-      // This handles exact string matches client-side (e.g. copy-pasted questions)
-      const key = cleanText.toLowerCase().replace(/\s+/g, ' ');
+      const key = matchKey(cleanText);
+
+      const occurrence: QuestionVariant = {
+        text: cleanText,
+        language: q.language,
+        translations: q.translations,
+        sourceFile: ex.sourceFile,
+        paperId: ex.paperId,
+        year: safeYear,
+        session,
+        questionNumber: q.questionNumber,
+        section: q.section,
+        marks: q.marks,
+        parentNumber: q.parentNumber,
+        alternativeTo: q.alternativeTo,
+        multipleChoice: q.multipleChoice,
+        page: q.page
+      };
 
       if (questionMap.has(key)) {
         const entry = questionMap.get(key)!;
         entry.years.push(safeYear);
+        entry.occurrences.push(occurrence);
       } else {
         questionMap.set(key, {
+          id: `q${questionMap.size + 1}`,
           text: cleanText,
-          years: [safeYear]
+          language: q.language,
+          translations: q.translations?.map(t => t.text),
+          years: [safeYear],
+          occurrences: [occurrence]
         });
       }
     });
@@ -201,65 +446,310 @@ export const analyzeRepeatedQuestions = async (
 
   // Construct the pre-processed payload
   // We combine years for identical strings here, so the AI only sees unique text strings.
-  const preProcessedData = Array.from(questionMap.values()).map(item => ({
+  // Each entry carries a short id so the groups can be mapped back to their source papers.
+  const questions: PreProcessedQuestion[] = Array.from(questionMap.values()).map(item => ({
+    id: item.id,
     question: item.text,
-    years: item.years // keep all years, duplication of years handled by AI aggregation or set if strictly needed
+    language: item.language,
+    translations: item.translations,
+    years: item.years,
+    candidate: ''
   }));
+  const occurrencesById = new Map(Array.from(questionMap.values()).map(item => [item.id, item.occurrences]));
 
-  const analysisSchema: Schema = {
-    type: Type.ARRAY,
-    items: {
-      type: Type.OBJECT,
-      properties: {
-        id: { type: Type.STRING },
-        normalizedQuestion: { type: Type.STRING, description: "The cleanest, most complete version of the question." },
-        type: { type: Type.STRING, enum: ["Long Question", "Short Question", "Very Short Question", "MCQ"] },
-        years: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Combined list of years from all merged variants." },
-        frequency: { type: Type.NUMBER, description: "Total count of appearances across all years." },
-        variants: { type: Type.ARRAY, items: { type: Type.STRING }, description: "2 to 4 distinct example variants." },
-        answer: { type: Type.STRING, description: "A detailed, exam-quality model answer." }
-      },
-      required: ["id", "normalizedQuestion", "type", "years", "frequency", "variants", "answer"]
+  return { questions, occurrencesById };
+};
+
+// Normalize key for matching (lowercase, collapse spaces)
+// This handles exact string matches client-side (e.g. copy-pasted questions)
+const matchKey = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// What local similarity compares: a bilingual question's translations let it meet
+// questions printed in either of its languages.
+const similarityText = (question: PreProcessedQuestion) => [question.question, ...(question.translations ?? [])].join('\n');
+
+export const uniqueYears = (variants: QuestionVariant[]) => Array.from(new Set(variants.map(v => v.year))).sort();
+
+/**
+ * Stages 1 and 2 of the grouping: the model confirms or splits the similarity candidates in
+ * batches, then merges clusters across batches.
+ */
+const clusterWithModel = async (
+  candidates: PreProcessedQuestion[][],
+  provider: LLMProvider,
+  nextClusterId: () => string,
+  onProgress?: AnalyzeOptions['onProgress'],
+  controller?: RunController
+): Promise<Cluster[]> => {
+  // Stage 1: cluster each batch independently.
+  const clusterBatches = packCandidates(candidates, CLUSTER_BATCH_SIZE);
+  let clusters: Cluster[] = [];
+  for (let i = 0; i < clusterBatches.length; i++) {
+    onProgress?.({ stage: 'clustering', completed: i, total: clusterBatches.length });
+    clusters.push(...await clusterBatch(clusterBatches[i], provider, nextClusterId, controller));
+  }
+  onProgress?.({ stage: 'clustering', completed: clusterBatches.length, total: clusterBatches.length });
+
+  // Stage 2: merge across batches until one batch covers everything or a round finds nothing.
+  // Sorting by wording keeps likely duplicates in the same merge batch.
+  if (clusterBatches.length > 1) {
+    while (true) {
+      const sorted = [...clusters].sort((a, b) => a.normalizedQuestion.localeCompare(b.normalizedQuestion));
+      const mergeBatches = chunk(sorted, MERGE_BATCH_SIZE);
+      const next: Cluster[] = [];
+      for (let i = 0; i < mergeBatches.length; i++) {
+        onProgress?.({ stage: 'merging', completed: i, total: mergeBatches.length });
+        next.push(...await mergeBatch(mergeBatches[i], provider, nextClusterId, controller));
+      }
+      onProgress?.({ stage: 'merging', completed: mergeBatches.length, total: mergeBatches.length });
+
+      const madeProgress = next.length < clusters.length;
+      clusters = next;
+      if (mergeBatches.length === 1 || !madeProgress) break;
     }
-  };
+  } else {
+    onProgress?.({ stage: 'merging', completed: 0, total: 0 });
+  }
+
+  return clusters;
+};
+
+// The wording a group is shown under without a model: the one printed most often, then the fullest.
+const representativeWording = (members: PreProcessedQuestion[], occurrencesById: Map<string, QuestionVariant[]>) =>
+  [...members].sort((a, b) =>
+    (occurrencesById.get(b.id)?.length ?? 0) - (occurrencesById.get(a.id)?.length ?? 0) || b.question.length - a.question.length
+  )[0].question;
+
+/**
+ * Runs the grouping stages over unique questions and builds the final groups. Without a
+ * provider (offline analysis) the local similarity clusters are used as they are.
+ * `idPrefix` keeps group ids unique when new groups are added to an existing analysis.
+ */
+const groupQuestions = async (
+  questions: PreProcessedQuestion[],
+  occurrencesById: Map<string, QuestionVariant[]>,
+  provider: LLMProvider | null,
+  { onProgress, similarityThreshold, vectorizer, controller }: Required<Omit<AnalyzeOptions, 'onProgress' | 'controller'>> & Pick<AnalyzeOptions, 'onProgress' | 'controller'>,
+  idPrefix = 'c'
+): Promise<AnalysisGroup[]> => {
+  if (questions.length === 0) {
+    onProgress?.({ stage: 'clustering', completed: 0, total: 0 });
+    onProgress?.({ stage: 'merging', completed: 0, total: 0 });
+    return [];
+  }
+
+  // Local similarity pre-clustering: reproducible candidates for the model to confirm or split.
+  const vectors = await vectorizer.vectorize(questions.map(similarityText));
+  const vectorById = new Map(questions.map((q, i) => [q.id, vectors[i]]));
+  const candidates = clusterBySimilarity(vectors, similarityThreshold).map((indices, k) =>
+    indices.map(i => ({ ...questions[i], candidate: `k${k + 1}` }))
+  );
+
+  let clusterCounter = 0;
+  const nextClusterId = () => `${idPrefix}${++clusterCounter}`;
+
+  let clusters: Cluster[];
+  if (provider) {
+    clusters = await clusterWithModel(candidates, provider, nextClusterId, onProgress, controller);
+  } else {
+    // Offline, the similarity candidates are the groups.
+    clusters = candidates.map(members => ({
+      id: nextClusterId(),
+      normalizedQuestion: representativeWording(members, occurrencesById),
+      type: 'Short Question',
+      memberIds: members.map(m => m.id)
+    }));
+    onProgress?.({ stage: 'clustering', completed: 1, total: 1 });
+    onProgress?.({ stage: 'merging', completed: 0, total: 0 });
+  }
+
+  // Rebuild variants, years and frequency locally from the member ids,
+  // so every group traces back to the exact papers and pages it came from.
+  return clusters
+    .map(cluster => {
+      const variants = cluster.memberIds.flatMap(id => occurrencesById.get(id) || []);
+      const memberVectors = cluster.memberIds.map(id => vectorById.get(id)).filter(v => v !== undefined);
+      return {
+        id: cluster.id,
+        normalizedQuestion: cluster.normalizedQuestion,
+        type: inferQuestionType(variants, cluster.type),
+        years: uniqueYears(variants),
+        frequency: variants.length,
+        variants,
+        answer: '', // written on demand by answerService
+        similarity: averageSimilarity(memberVectors)
+      };
+    })
+    .filter(group => group.variants.length > 0);
+};
+
+/**
+ * Step 2: Analyze the aggregated list of questions.
+ * Runs a staged map-reduce pipeline so large paper sets never exceed a single response:
+ * pre-cluster locally by similarity, let the model confirm/split the candidates in batches,
+ * then merge clusters across batches. Answers are generated separately, on demand.
+ * A null provider skips the model and keeps the similarity clusters (offline analysis).
+ */
+export const analyzeRepeatedQuestions = async (
+  allExtractions: ExtractionResult[],
+  provider: LLMProvider | null,
+  {
+    onProgress,
+    similarityThreshold = DEFAULT_SIMILARITY_THRESHOLD,
+    vectorizer = new TfIdfVectorizer(),
+    controller
+  }: AnalyzeOptions = {}
+): Promise<AnalysisGroup[]> => {
+  const { questions, occurrencesById } = flattenQuestions(allExtractions);
+  const groups = await groupQuestions(questions, occurrencesById, provider, { onProgress, similarityThreshold, vectorizer, controller });
+  return groups.sort((a, b) => b.frequency - a.frequency);
+};
+
+const matchSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      groupId: { type: Type.STRING, description: "The id of the existing group asking the same question, or an empty string if none does." }
+    },
+    required: ["id", "groupId"]
+  }
+};
+
+// How many existing groups are offered to the model as possible matches for each new question.
+const MATCH_CANDIDATES_PER_QUESTION = 3;
+const MATCH_BATCH_SIZE = 60;
+
+/**
+ * Asks the model which (if any) of the locally proposed existing groups each new question belongs to.
+ */
+const matchBatch = async (
+  batch: { id: string; question: string; candidates: { groupId: string; question: string }[] }[],
+  provider: LLMProvider,
+  controller?: RunController
+): Promise<Map<string, string>> => {
+  const proposed = await generateValidatedJSON<{ id: string; groupId: string }[]>(provider, {
+    task: 'matching',
+    schema: matchSchema,
+    parts: [
+      { text: `You are an expert Exam Question Analyzer.
 
-  // We use gemini-2.5-flash for its large context window and speed.
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: {
-      parts: [
-        { text: `You are an expert Exam Question Analyzer.
-        
         INPUT DATA:
-        I have pre-grouped identical text strings. The input is a JSON list of objects: { "question": "...", "years": [...] }.
+        A JSON list of NEW questions: { "id": "...", "question": "...", "candidates": [{ "groupId": "...", "question": "..." }] }.
+        Each candidate is an EXISTING question group that looks textually similar.
 
         YOUR TASK:
-        1. **Semantic Grouping**: Analyze the list and merge questions that have the SAME MEANING but different wording (e.g., "Define Photosynthesis" == "What do you mean by Photosynthesis?").
-        2. **Aggregation**: For each semantic group, combine their "years" lists and sum their occurrences to calculate total frequency.
-        3. **Analysis**:
-           - Create a 'normalizedQuestion' (best version).
-           - Determine 'type'.
-           - Select 2-4 distinct 'variants' from the inputs.
-           - Generate a **HIGH QUALITY, DETAILED ACADEMIC ANSWER**.
-        4. **Output**: Return a JSON array sorted by frequency (descending).
+        For each new question, return the 'groupId' of the candidate that asks the SAME THING (same meaning, possibly different wording or language).
+        Return an empty string if none of the candidates is the same question. Similar topic is not enough.
 
         INPUT JSON:
-        ${JSON.stringify(preProcessedData)}` }
-      ]
-    },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: analysisSchema
-    }
+        ${JSON.stringify(batch)}` }
+    ]
+  }, { controller });
+
+  const allowed = new Map(batch.map(q => [q.id, new Set(q.candidates.map(c => c.groupId))]));
+  const matches = new Map<string, string>();
+  proposed.forEach(m => {
+    if (m.groupId && allowed.get(m.id)?.has(m.groupId)) matches.set(m.id, m.groupId);
+  });
+  return matches;
+};
+
+/**
+ * Incremental analysis: folds newly extracted papers into an existing result.
+ * New questions are matched against existing groups (exact text first, then local similarity
+ * confirmed by the model); existing groups only gain variants, so answers and manual edits survive.
+ * Unmatched questions are grouped among themselves and appended as new groups.
+ */
+export const addPapersToAnalysis = async (
+  existingGroups: AnalysisGroup[],
+  newExtractions: ExtractionResult[],
+  provider: LLMProvider | null,
+  {
+    onProgress,
+    similarityThreshold = DEFAULT_SIMILARITY_THRESHOLD,
+    vectorizer = new TfIdfVectorizer(),
+    controller
+  }: AnalyzeOptions = {}
+): Promise<AnalysisGroup[]> => {
+  const { questions, occurrencesById } = flattenQuestions(newExtractions);
+
+  // 1. Exact text matches against any existing wording need no model call.
+  const groupByExactText = new Map<string, string>();
+  existingGroups.forEach(group => {
+    groupByExactText.set(matchKey(group.normalizedQuestion), group.id);
+    group.variants.forEach(v => questionTexts(v).forEach(({ text }) => groupByExactText.set(matchKey(text), group.id)));
+  });
+
+  const assignments = new Map<string, string>(); // question id -> group id
+  questions.forEach(q => {
+    const groupId = [q.question, ...(q.translations ?? [])].map(text => groupByExactText.get(matchKey(text))).find(Boolean);
+    if (groupId) assignments.set(q.id, groupId);
+  });
+
+  // 2. Local similarity proposes candidate groups for the rest.
+  const unmatched = questions.filter(q => !assignments.has(q.id));
+  const groupTexts = existingGroups.map(g => [g.normalizedQuestion, ...new Set(g.variants.flatMap(v => questionTexts(v).map(t => t.text)))]);
+  const vectors = await vectorizer.vectorize([...unmatched.map(similarityText), ...groupTexts.flat()]);
+  const questionVectors = vectors.slice(0, unmatched.length);
+  let offset = unmatched.length;
+  const groupVectors = groupTexts.map(texts => {
+    const slice = vectors.slice(offset, offset + texts.length);
+    offset += texts.length;
+    return slice;
   });
 
-  const text = response.text;
-  if (!text) throw new Error("No analysis response from AI");
+  const toConfirm = unmatched
+    .map((q, i) => {
+      const candidates = existingGroups
+        .map((group, g) => ({
+          group,
+          score: Math.max(...groupVectors[g].map(v => cosineSimilarity(questionVectors[i], v)))
+        }))
+        .filter(c => c.score >= similarityThreshold)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MATCH_CANDIDATES_PER_QUESTION)
+        .map(c => ({ groupId: c.group.id, question: c.group.normalizedQuestion }));
+      return { id: q.id, question: q.question, candidates };
+    })
+    .filter(q => q.candidates.length > 0);
 
-  try {
-    return JSON.parse(text) as AnalysisGroup[];
-  } catch (e) {
-    console.error("JSON Parse Error in Analysis", e);
-    throw new Error("Failed to parse analysis results.");
+  // 3. The model confirms or rejects each proposed match; offline, the closest candidate is taken.
+  if (provider) {
+    const matchBatches = chunk(toConfirm, MATCH_BATCH_SIZE);
+    for (let i = 0; i < matchBatches.length; i++) {
+      onProgress?.({ stage: 'matching', completed: i, total: matchBatches.length });
+      (await matchBatch(matchBatches[i], provider, controller)).forEach((groupId, id) => assignments.set(id, groupId));
+    }
+    onProgress?.({ stage: 'matching', completed: matchBatches.length, total: matchBatches.length });
+  } else {
+    toConfirm.forEach(q => assignments.set(q.id, q.candidates[0].groupId));
+    onProgress?.({ stage: 'matching', completed: 1, total: 1 });
   }
-};
\ No newline at end of file
+
+  // 4. Fold matched occurrences into their groups; only variants, years and frequency change.
+  const addedVariants = new Map<string, QuestionVariant[]>();
+  assignments.forEach((groupId, questionId) => {
+    addedVariants.set(groupId, [...(addedVariants.get(groupId) || []), ...(occurrencesById.get(questionId) || [])]);
+  });
+  const updatedGroups = existingGroups.map(group => {
+    const added = addedVariants.get(group.id);
+    if (!added) return group;
+    const variants = [...group.variants, ...added];
+    const type = group.editedByHand ? group.type : inferQuestionType(variants, group.type);
+    return { ...group, variants, type, years: uniqueYears(variants), frequency: variants.length };
+  });
+
+  // 5. Everything left over becomes new groups through the regular pipeline.
+  const leftovers = questions.filter(q => !assignments.has(q.id));
+  const newGroups = await groupQuestions(
+    leftovers,
+    occurrencesById,
+    provider,
+    { onProgress, similarityThreshold, vectorizer, controller },
+    `add${Date.now().toString(36)}-`
+  );
+
+  return [...updatedGroups, ...newGroups].sort((a, b) => b.frequency - a.frequency);
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisGroup, QuestionVariant } from '../types';
+import { mergeGroups, moveVariants, reapplyManualEdits, updateGroup } from './groupEditing';
+
+const variant = (text: string, paperId: string, year: string): QuestionVariant =>
+  ({ text, sourceFile: 'physics.pdf', paperId, year, questionNumber: '1' });
+
+const group = (id: string, variants: QuestionVariant[], changes: Partial<AnalysisGroup> = {}): AnalysisGroup => ({
+  id,
+  normalizedQuestion: variants[0].text,
+  type: 'Short Question',
+  years: variants.map(v => v.year),
+  frequency: variants.length,
+  answer: '',
+  variants,
+  ...changes
+});
+
+const ohm2019 = variant("State Ohm's law.", '1', '2019');
+const ohm2020 = variant("Write Ohm's law.", '2', '2020');
+const ohm2021 = variant("State Ohm's law and its limits.", '3', '2021');
+const lens2020 = variant('Derive the lens formula.', '2', '2020');
+
+describe('mergeGroups', () => {
+  it('folds the other groups into the first and keeps its wording and answer', () => {
+    const groups = [
+      group('a', [ohm2019], { answer: 'V = IR', answerApproved: true }),
+      group('b', [ohm2020, ohm2021]),
+      group('c', [lens2020])
+    ];
+    const [merged, other] = mergeGroups(['a', 'b'])(groups);
+    expect(merged).toMatchObject({
+      id: 'a',
+      normalizedQuestion: "State Ohm's law.",
+      answer: 'V = IR',
+      answerApproved: true,
+      variants: [ohm2019, ohm2020, ohm2021],
+      years: ['2019', '2020', '2021'],
+      frequency: 3,
+      editedByHand: true
+    });
+    expect(other.id).toBe('c');
+  });
+
+  it('changes nothing without a second group', () => {
+    const groups = [group('a', [ohm2019])];
+    expect(mergeGroups(['a'])(groups)).toBe(groups);
+    expect(mergeGroups(['missing', 'a'])(groups)).toBe(groups);
+  });
+});
+
+describe('moveVariants', () => {
+  const groups = [group('a', [ohm2019, ohm2020, lens2020], { similarity: 0.8 }), group('b', [ohm2021])];
+
+  it('moves variants into another group and recounts both', () => {
+    const [b, a] = moveVariants('a', [0, 1], 'b')(groups);
+    expect(b).toMatchObject({ id: 'b', variants: [ohm2021, ohm2019, ohm2020], frequency: 3, editedByHand: true });
+    expect(a).toMatchObject({ id: 'a', variants: [lens2020], years: ['2020'], frequency: 1, similarity: undefined });
+  });
+
+  it('splits variants into a new group named after the first of them', () => {
+    const split = moveVariants('a', [2], null)(groups);
+    expect(split).toHaveLength(3);
+    expect(split.find(g => g.id !== 'a' && g.id !== 'b')).toMatchObject({
+      normalizedQuestion: 'Derive the lens formula.',
+      type: 'Short Question',
+      variants: [lens2020],
+      answer: '',
+      editedByHand: true
+    });
+  });
+
+  it('removes a group left without variants', () => {
+    expect(moveVariants('b', [0], 'a')(groups).map(g => g.id)).toEqual(['a']);
+  });
+
+  it('changes nothing for no variants or a move onto the same group', () => {
+    expect(moveVariants('a', [], 'b')(groups)).toBe(groups);
+    expect(moveVariants('a', [0], 'a')(groups)).toBe(groups);
+    expect(moveVariants('a', [9], 'b')(groups)).toBe(groups);
+  });
+});
+
+describe('updateGroup', () => {
+  const groups = [group('a', [ohm2019], { answer: 'Generated', answerApproved: false })];
+
+  it('marks a reworded or retyped group as edited', () => {
+    expect(updateGroup('a', { normalizedQuestion: "State Ohm's law." })(groups)[0].editedByHand).toBeFalsy();
+    expect(updateGroup('a', { normalizedQuestion: 'Ohm\'s law?' })(groups)[0].editedByHand).toBe(true);
+    expect(updateGroup('a', { type: 'MCQ' })(groups)[0].editedByHand).toBe(true);
+  });
+
+  it('approves an answer written by hand unless told otherwise', () => {
+    expect(updateGroup('a', { answer: 'V = IR' })(groups)[0]).toMatchObject({ answer: 'V = IR', answerApproved: true });
+    expect(updateGroup('a', { answer: 'V = IR', answerApproved: false })(groups)[0].answerApproved).toBe(false);
+    expect(updateGroup('a', { chapterId: 'u1.c1' })(groups)[0].answerApproved).toBe(false);
+  });
+});
+
+describe('reapplyManualEdits', () => {
+  it('tells apart papers that share a file name', () => {
+    const from2019 = variant("State Ohm's law.", '1', '2019');
+    const from2020 = variant("State Ohm's law.", '2', '2020');
+    const previous = [group('g1', [from2019], { editedByHand: true }), group('g2', [from2020])];
+    const fresh = [group('g1', [from2019, from2020])];
+
+    const groups = reapplyManualEdits(fresh, previous);
+    expect(groups.map(g => g.variants)).toEqual([[from2019], [from2020]]);
+  });
+
+  it('keeps edited and approved groups and takes their variants out of the fresh ones', () => {
+    const edited = group('g1', [ohm2019, ohm2020], { editedByHand: true, normalizedQuestion: "Ohm's law" });
+    const approved = group('g2', [lens2020], { answer: 'By hand', answerApproved: true });
+    const fresh = [group('g1', [ohm2019, ohm2020, ohm2021]), group('g2', [lens2020])];
+
+    const groups = reapplyManualEdits(fresh, [edited, approved]);
+    expect(groups.slice(0, 2)).toEqual([edited, approved]);
+    expect(groups[2]).toMatchObject({ variants: [ohm2021], years: ['2021'], frequency: 1 });
+    expect(groups[2].id).not.toBe('g1');
+  });
+
+  it('gives fresh groups the answer and chapter of an earlier group with the same wording', () => {
+    const earlier = group('old', [ohm2019], { answer: 'V = IR', chapterId: 'u1.c1', topic: 'Current' });
+    const [fresh] = reapplyManualEdits([group('new', [ohm2019, ohm2020])], [earlier]);
+    expect(fresh).toMatchObject({ id: 'new', answer: 'V = IR', chapterId: 'u1.c1', topic: 'Current', frequency: 2 });
+  });
+});
@@ -0,0 +1,128 @@
+import { AnalysisGroup, QuestionVariant } from "../types";
+import { uniqueYears } from "./geminiService";
+
+export type GroupEdit = (groups: AnalysisGroup[]) => AnalysisGroup[];
+
+export type GroupPatch = Partial<Pick<AnalysisGroup, 'normalizedQuestion' | 'type' | 'answer' | 'answerApproved' | 'chapterId' | 'topic'>>;
+
+let splitCounter = 0;
+const nextManualId = () => `manual${Date.now().toString(36)}-${++splitCounter}`;
+
+const byFrequency = (a: AnalysisGroup, b: AnalysisGroup) => b.frequency - a.frequency;
+
+// Identifies one occurrence of a question across two groupings of the same papers. Two papers may
+// share a file name (2019/physics.pdf and 2020/physics.pdf), so the paper's id is part of it.
+const variantKey = (v: QuestionVariant) => `${v.paperId ?? ''}\u0000${v.sourceFile}\u0000${v.questionNumber ?? ''}\u0000${v.text}`;
+
+/**
+ * Replaces a group's variants and recomputes what derives from them.
+ * The stored similarity described the model's merge, so it no longer applies.
+ */
+const withVariants = (group: AnalysisGroup, variants: QuestionVariant[]): AnalysisGroup => ({
+  ...group,
+  variants,
+  years: uniqueYears(variants),
+  frequency: variants.length,
+  similarity: undefined,
+  editedByHand: true
+});
+
+/**
+ * Folds every other group into the first id; its wording, type and answer are kept.
+ */
+export const mergeGroups = (ids: string[]): GroupEdit => groups => {
+  const target = groups.find(g => g.id === ids[0]);
+  const absorbed = groups.filter(g => ids.includes(g.id) && g.id !== ids[0]);
+  if (!target || absorbed.length === 0) return groups;
+
+  const merged = withVariants(target, [...target.variants, ...absorbed.flatMap(g => g.variants)]);
+  return groups
+    .filter(g => !absorbed.includes(g))
+    .map(g => g.id === target.id ? merged : g)
+    .sort(byFrequency);
+};
+
+/**
+ * Moves the variants at `indices` out of one group, into another group or, with `toId` null,
+ * into a new group of their own (a split). Groups left without variants are removed.
+ */
+export const moveVariants = (fromId: string, indices: number[], toId: string | null): GroupEdit => groups => {
+  const source = groups.find(g => g.id === fromId);
+  if (!source || indices.length === 0 || toId === fromId) return groups;
+
+  const moving = source.variants.filter((_, i) => indices.includes(i));
+  const staying = source.variants.filter((_, i) => !indices.includes(i));
+  if (moving.length === 0) return groups;
+
+  let updated = groups.map(g => {
+    if (g.id === fromId) return withVariants(g, staying);
+    if (g.id === toId) return withVariants(g, [...g.variants, ...moving]);
+    return g;
+  });
+
+  if (toId === null) {
+    updated.push(withVariants({
+      id: nextManualId(),
+      normalizedQuestion: moving[0].text,
+      type: source.type,
+      years: [],
+      frequency: 0,
+      variants: [],
+      answer: ''
+    }, moving));
+  }
+
+  updated = updated.filter(g => g.variants.length > 0);
+  return updated.sort(byFrequency);
+};
+
+/**
+ * Rewording or retyping a group marks it as edited; writing an answer by hand counts as approving it.
+ */
+export const updateGroup = (id: string, patch: GroupPatch): GroupEdit => groups =>
+  groups.map(g => {
+    if (g.id !== id) return g;
+    const reworded = (patch.normalizedQuestion !== undefined && patch.normalizedQuestion !== g.normalizedQuestion)
+      || (patch.type !== undefined && patch.type !== g.type);
+    return {
+      ...g,
+      ...patch,
+      answerApproved: patch.answerApproved ?? (patch.answer !== undefined ? true : g.answerApproved),
+      editedByHand: g.editedByHand || reworded
+    };
+  });
+
+const normalizeWording = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Carries a person's work over to a fresh grouping of the same papers.
+ * Hand-edited groups, and groups whose answer a person approved or wrote, are kept exactly and
+ * their variants are taken out of the fresh groups; fresh groups with the same wording as an
+ * earlier group inherit its answer and syllabus chapter.
+ */
+export const reapplyManualEdits = (fresh: AnalysisGroup[], previous: AnalysisGroup[]): AnalysisGroup[] => {
+  const pinned = previous.filter(g => g.editedByHand || g.answerApproved);
+  const pinnedVariants = new Set(pinned.flatMap(g => g.variants.map(variantKey)));
+  const pinnedIds = new Set(pinned.map(g => g.id));
+  const rerunSuffix = Date.now().toString(36);
+  const previousByWording = new Map(previous.map(g => [normalizeWording(g.normalizedQuestion), g]));
+
+  const remaining = fresh
+    .map(group => {
+      const variants = group.variants.filter(v => !pinnedVariants.has(variantKey(v)));
+      // Fresh runs number their groups from scratch, so ids can collide with kept ones.
+      if (pinnedIds.has(group.id)) group = { ...group, id: `${group.id}-${rerunSuffix}` };
+      const earlier = previousByWording.get(normalizeWording(group.normalizedQuestion));
+      const answered = earlier ? {
+        ...group,
+        ...(!group.answer && earlier.answer ? { answer: earlier.answer, answerApproved: earlier.answerApproved } : {}),
+        ...(!group.chapterId && earlier.chapterId ? { chapterId: earlier.chapterId, topic: earlier.topic } : {})
+      } : group;
+      return variants.length === group.variants.length
+        ? answered
+        : { ...answered, variants, years: uniqueYears(variants), frequency: variants.length };
+    })
+    .filter(group => group.variants.length > 0);
+
+  return [...pinned, ...remaining].sort(byFrequency);
+};
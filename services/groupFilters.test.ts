@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisGroup } from '../types';
+import { availableSources, availableYears, DEFAULT_FILTERS, filterGroups, hasActiveFilters, parseYear, UNCLASSIFIED_CHAPTER } from './groupFilters';
+
+const group = (id: string, changes: Partial<AnalysisGroup> = {}): AnalysisGroup => ({
+  id,
+  normalizedQuestion: `Question ${id}`,
+  type: 'Short Question',
+  years: ['2021'],
+  frequency: 1,
+  answer: '',
+  variants: [{ text: `Question ${id}`, sourceFile: 'science-2021.pdf', year: '2021' }],
+  ...changes
+});
+
+const groups = [
+  group('ohm', {
+    normalizedQuestion: "State Ohm's law.",
+    type: 'Very Short Question',
+    years: ['2019', '2022'],
+    frequency: 2,
+    chapterId: 'u1.c1',
+    variants: [
+      { text: "State Ohm's law.", sourceFile: 'physics-2019.pdf', year: '2019', marks: 1 },
+      { text: 'ओम का नियम लिखिए।', translations: [{ language: 'en', text: "Write Ohm's law." }], sourceFile: 'physics-2022.pdf', year: '2022', marks: 1 }
+    ]
+  }),
+  group('lens', { normalizedQuestion: 'Derive the lens formula.', type: 'Long Question', years: ['2020'], answer: 'Using similar triangles...', variants: [{ text: 'Derive the lens formula.', sourceFile: 'physics-2020.pdf', year: '2020', marks: 5 }] }),
+  group('cell', { normalizedQuestion: 'What is a cell?', type: 'MCQ', years: ['Unknown'], frequency: 3, chapterId: 'u2.c1' })
+];
+
+const ids = (changes: Partial<typeof DEFAULT_FILTERS>) => filterGroups(groups, { ...DEFAULT_FILTERS, ...changes }).map(g => g.id);
+
+describe('filterGroups', () => {
+  it('sorts by frequency without filters', () => {
+    expect(ids({})).toEqual(['cell', 'ohm', 'lens']);
+  });
+
+  it('searches every word, in questions, translations and answers, ignoring case', () => {
+    expect(ids({ query: 'ohm LAW' })).toEqual(['ohm']);
+    expect(ids({ query: 'write ohm' })).toEqual(['ohm']);
+    expect(ids({ query: 'नियम' })).toEqual(['ohm']);
+    expect(ids({ query: 'similar triangles' })).toEqual(['lens']);
+    expect(ids({ query: 'ohm lens' })).toEqual([]);
+  });
+
+  it('filters by type, frequency, paper and chapter', () => {
+    expect(ids({ types: ['Long Question', 'MCQ'] })).toEqual(['cell', 'lens']);
+    expect(ids({ minFrequency: 2 })).toEqual(['cell', 'ohm']);
+    expect(ids({ repeatedOnly: true, minFrequency: 1 })).toEqual(['cell', 'ohm']);
+    expect(ids({ sourceFile: 'physics-2022.pdf' })).toEqual(['ohm']);
+    expect(ids({ chapterId: 'u2.c1' })).toEqual(['cell']);
+    expect(ids({ chapterId: UNCLASSIFIED_CHAPTER })).toEqual(['lens']);
+  });
+
+  it('matches a year range on any appearance and never matches unknown years', () => {
+    expect(ids({ yearFrom: 2020, yearTo: 2020 })).toEqual(['lens']);
+    expect(ids({ yearFrom: 2021 })).toEqual(['ohm']);
+    expect(ids({ yearTo: 2019 })).toEqual(['ohm']);
+  });
+
+  it('sorts by recency, type and marks, then by frequency', () => {
+    expect(ids({ sort: 'recency' })).toEqual(['ohm', 'lens', 'cell']);
+    expect(ids({ sort: 'type' })).toEqual(['lens', 'ohm', 'cell']);
+    expect(ids({ sort: 'marks' })).toEqual(['lens', 'ohm', 'cell']);
+  });
+
+  it('leaves the input order alone', () => {
+    filterGroups(groups, { ...DEFAULT_FILTERS, sort: 'type' });
+    expect(groups.map(g => g.id)).toEqual(['ohm', 'lens', 'cell']);
+  });
+});
+
+describe('filter helpers', () => {
+  it('reads years from labels', () => {
+    expect(parseYear('2019-20')).toBe(2019);
+    expect(parseYear('March 2021 (Supplementary)')).toBe(2021);
+    expect(parseYear('Unknown')).toBeUndefined();
+  });
+
+  it('lists the years and papers in the analysis', () => {
+    expect(availableYears(groups)).toEqual([2019, 2020, 2022]);
+    expect(availableSources(groups)).toEqual(['physics-2019.pdf', 'physics-2020.pdf', 'physics-2022.pdf', 'science-2021.pdf']);
+  });
+
+  it('knows when any filter is set', () => {
+    expect(hasActiveFilters(DEFAULT_FILTERS)).toBe(false);
+    expect(hasActiveFilters({ ...DEFAULT_FILTERS, sort: 'marks' })).toBe(false);
+    expect(hasActiveFilters({ ...DEFAULT_FILTERS, query: '  ' })).toBe(false);
+    expect(hasActiveFilters({ ...DEFAULT_FILTERS, yearTo: 2020 })).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+import { AnalysisGroup, GroupFilters, QuestionType } from "../types";
+import { averageMarks } from "./questionMarks";
+
+export const QUESTION_TYPE_ORDER: QuestionType[] = ["Long Question", "Short Question", "Very Short Question", "MCQ"];
+
+// Chapter filter value for groups the syllabus classification did not place.
+export const UNCLASSIFIED_CHAPTER = '__unclassified__';
+
+export const DEFAULT_FILTERS: GroupFilters = {
+  query: '',
+  types: [],
+  minFrequency: 1,
+  sourceFile: '',
+  chapterId: '',
+  repeatedOnly: false,
+  sort: 'frequency'
+};
+
+/**
+ * Numeric year of a detected year label ("2019", "2019-20", "March 2021"), or undefined for "Unknown".
+ */
+export const parseYear = (label: string): number | undefined => {
+  const match = /\b(19|20)\d{2}\b/.exec(label);
+  return match ? Number(match[0]) : undefined;
+};
+
+const latestYear = (group: AnalysisGroup) =>
+  Math.max(-Infinity, ...group.years.map(parseYear).filter((y): y is number => y !== undefined));
+
+/** Every numeric year seen in the analysis, ascending. */
+export const availableYears = (groups: AnalysisGroup[]): number[] =>
+  Array.from(new Set(groups.flatMap(g => g.years.map(parseYear)).filter((y): y is number => y !== undefined)))
+    .sort((a, b) => a - b);
+
+/** Every source paper referenced by a variant, in name order. */
+export const availableSources = (groups: AnalysisGroup[]): string[] =>
+  Array.from(new Set(groups.flatMap(g => g.variants.map(v => v.sourceFile)))).sort((a, b) => a.localeCompare(b));
+
+export const hasActiveFilters = (filters: GroupFilters) =>
+  filters.query.trim() !== '' ||
+  filters.types.length > 0 ||
+  filters.yearFrom !== undefined ||
+  filters.yearTo !== undefined ||
+  filters.minFrequency > 1 ||
+  filters.sourceFile !== '' ||
+  filters.chapterId !== '' ||
+  filters.repeatedOnly;
+
+const matchesQuery = (group: AnalysisGroup, terms: string[]) => {
+  const haystack = [
+    group.normalizedQuestion,
+    group.answer,
+    ...group.variants.flatMap(v => [v.text, ...(v.translations ?? []).map(t => t.text)])
+  ].join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+// A group is in a year range if any of its appearances is; "Unknown" years never match a range.
+const inYearRange = (group: AnalysisGroup, from?: number, to?: number) => {
+  if (from === undefined && to === undefined) return true;
+  return group.years.some(label => {
+    const year = parseYear(label);
+    return year !== undefined && (from === undefined || year >= from) && (to === undefined || year <= to);
+  });
+};
+
+// Groups without printed marks sort last.
+const marksOf = (group: AnalysisGroup) => averageMarks(group.variants) ?? 0;
+
+const COMPARATORS: Record<GroupFilters['sort'], (a: AnalysisGroup, b: AnalysisGroup) => number> = {
+  frequency: (a, b) => b.frequency - a.frequency,
+  recency: (a, b) => latestYear(b) - latestYear(a) || b.frequency - a.frequency,
+  type: (a, b) => QUESTION_TYPE_ORDER.indexOf(a.type) - QUESTION_TYPE_ORDER.indexOf(b.type) || b.frequency - a.frequency,
+  marks: (a, b) => marksOf(b) - marksOf(a) || b.frequency - a.frequency
+};
+
+/**
+ * Applies the toolbar filters and sort. Search is case-insensitive and every word must appear
+ * somewhere in the group's question, its variants (in any language printed) or its answer.
+ */
+export const filterGroups = (groups: AnalysisGroup[], filters: GroupFilters): AnalysisGroup[] => {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const minFrequency = Math.max(filters.minFrequency, filters.repeatedOnly ? 2 : 1);
+
+  return groups
+    .filter(group =>
+      group.frequency >= minFrequency &&
+      (filters.types.length === 0 || filters.types.includes(group.type)) &&
+      (!filters.sourceFile || group.variants.some(v => v.sourceFile === filters.sourceFile)) &&
+      (!filters.chapterId || (group.chapterId ?? UNCLASSIFIED_CHAPTER) === filters.chapterId) &&
+      inYearRange(group, filters.yearFrom, filters.yearTo) &&
+      (terms.length === 0 || matchesQuery(group, terms))
+    )
+    .sort(COMPARATORS[filters.sort]);
+};
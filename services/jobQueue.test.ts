@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { CancelledError } from './errors';
+import { backoffDelay, RunController, runQueue, sleep } from './jobQueue';
+
+// A task the test finishes by hand.
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => { resolve = done; });
+  return { promise, resolve };
+};
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('runQueue', () => {
+  it('keeps at most `concurrency` items in flight and results in input order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await runQueue([30, 10, 20, 0, 5], async (ms, index) => {
+      peak = Math.max(peak, ++inFlight);
+      await sleep(ms);
+      inFlight--;
+      return index * 2;
+    }, { concurrency: 2 });
+    expect(peak).toBe(2);
+    expect(results.map(r => r.status === 'fulfilled' && r.value)).toEqual([0, 2, 4, 6, 8]);
+  });
+
+  it('settles a failed item without stopping the others', async () => {
+    const results = await runQueue(['a', 'b', 'c'], async item => {
+      if (item === 'b') throw new Error('unreadable');
+      return item.toUpperCase();
+    }, { concurrency: 1 });
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 'A' },
+      { status: 'rejected', reason: new Error('unreadable') },
+      { status: 'fulfilled', value: 'C' }
+    ]);
+  });
+
+  it('handles no items and more workers than items', async () => {
+    expect(await runQueue([], async () => 1)).toEqual([]);
+    expect(await runQueue([1], async n => n, { concurrency: 8 })).toEqual([{ status: 'fulfilled', value: 1 }]);
+  });
+
+  it('holds new items while paused and lets in-flight ones finish', async () => {
+    const controller = new RunController();
+    const first = deferred();
+    const started: number[] = [];
+    const queue = runQueue([0, 1, 2], async index => {
+      started.push(index);
+      if (index === 0) await first.promise;
+    }, { concurrency: 1, controller });
+
+    await tick();
+    controller.pause();
+    first.resolve();
+    await tick();
+    expect(started).toEqual([0]);
+
+    controller.resume();
+    await queue;
+    expect(started).toEqual([0, 1, 2]);
+  });
+
+  it('rejects with CancelledError when cancelled, even while paused', async () => {
+    const controller = new RunController();
+    const started: number[] = [];
+    const queue = runQueue([0, 1, 2], async index => { started.push(index); }, { concurrency: 1, controller });
+    controller.pause();
+    await tick();
+    controller.cancel();
+    await expect(queue).rejects.toBeInstanceOf(CancelledError);
+    expect(started).toEqual([0]);
+  });
+
+  it('turns an item failing after cancel into a cancellation', async () => {
+    const controller = new RunController();
+    const queue = runQueue([0], async () => {
+      controller.cancel();
+      throw new Error('aborted request');
+    }, { controller });
+    await expect(queue).rejects.toBeInstanceOf(CancelledError);
+  });
+});
+
+describe('RunController', () => {
+  it('holds every checkpoint during a cool-down', async () => {
+    const controller = new RunController();
+    controller.coolDown(40);
+    controller.coolDown(10); // never shortens it
+    const start = Date.now();
+    await controller.checkpoint();
+    expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects with CancelledError once aborted', async () => {
+    const controller = new AbortController();
+    const sleeping = sleep(10_000, controller.signal);
+    controller.abort();
+    await expect(sleeping).rejects.toBeInstanceOf(CancelledError);
+    await expect(sleep(1, controller.signal)).rejects.toBeInstanceOf(CancelledError);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles with each attempt, with jitter, up to a cap', () => {
+    for (const attempt of [1, 2, 3]) {
+      const delay = backoffDelay(attempt, 1000);
+      expect(delay).toBeGreaterThanOrEqual(1000 * 2 ** (attempt - 1) / 2);
+      expect(delay).toBeLessThanOrEqual(1000 * 2 ** (attempt - 1));
+    }
+    expect(backoffDelay(20, 1000)).toBe(30_000);
+  });
+
+  it("follows the provider's retry hint, within the cap", () => {
+    expect(backoffDelay(1, 1000, 5000)).toBe(5000);
+    expect(backoffDelay(1, 1000, 120_000)).toBe(30_000);
+  });
+});
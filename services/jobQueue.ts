@@ -0,0 +1,131 @@
+import { CancelledError } from "./errors";
+
+export const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 8;
+
+const MAX_DELAY_MS = 30_000;
+
+/**
+ * Exponential backoff with jitter, or the provider's own retry hint when it sent one.
+ */
+export const backoffDelay = (attempt: number, baseDelayMs: number, retryAfterMs?: number) => {
+  if (retryAfterMs) return Math.min(retryAfterMs, MAX_DELAY_MS);
+  const exponential = baseDelayMs * 2 ** (attempt - 1);
+  // Full jitter keeps parallel requests from retrying in lockstep.
+  return Math.min(MAX_DELAY_MS, exponential / 2 + Math.random() * exponential / 2);
+};
+
+/**
+ * Resolves after `ms`, or rejects with CancelledError as soon as `signal` aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Shared control for one run of the pipeline.
+ * Cancelling aborts in-flight requests; pausing holds new work at the next checkpoint
+ * while in-flight requests finish; a rate limit cools every worker down together.
+ */
+export class RunController {
+  private abortController = new AbortController();
+  private paused = false;
+  private resumeWaiters: (() => void)[] = [];
+  private cooldownUntil = 0;
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isPaused() {
+    return this.paused;
+  }
+
+  get isCancelled() {
+    return this.signal.aborted;
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+    this.wakeWaiters();
+  }
+
+  cancel() {
+    this.abortController.abort();
+    this.wakeWaiters();
+  }
+
+  /** Holds back every worker until `ms` from now (never shortens an existing cool-down). */
+  coolDown(ms: number) {
+    this.cooldownUntil = Math.max(this.cooldownUntil, Date.now() + ms);
+  }
+
+  /**
+   * Resolves once work may start: not paused and not cooling down.
+   * Rejects with CancelledError once the run is cancelled.
+   */
+  async checkpoint(): Promise<void> {
+    while (true) {
+      if (this.isCancelled) throw new CancelledError();
+      if (this.paused) {
+        await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+        continue;
+      }
+      const wait = this.cooldownUntil - Date.now();
+      if (wait <= 0) return;
+      await sleep(wait, this.signal);
+    }
+  }
+
+  private wakeWaiters() {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` in flight, starting each item only
+ * after the controller's checkpoint. Results keep the input order; a failed item does not stop
+ * the others. Cancellation rejects the whole queue with CancelledError.
+ */
+export const runQueue = async <T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  { concurrency = DEFAULT_CONCURRENCY, controller }: { concurrency?: number; controller?: RunController } = {}
+): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      await controller?.checkpoint();
+      if (next >= items.length) return;
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        if (reason instanceof CancelledError || controller?.isCancelled) throw new CancelledError();
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const limit = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: limit }, runWorker));
+  return results;
+};
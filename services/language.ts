@@ -0,0 +1,144 @@
+import { AnalysisGroup, ExtractedQuestion, QuestionTranslation, QuestionVariant } from "../types";
+
+/** Offered for answers; any ISO 639-1 code works elsewhere. */
+export const ANSWER_LANGUAGES = ['en', 'hi', 'bn', 'mr', 'ta', 'te', 'gu', 'kn', 'ml', 'pa', 'or', 'ur', 'as', 'ne', 'sa', 'fr', 'es', 'de', 'ar', 'zh'];
+
+// Scripts used by one main language in the papers we see. Latin is taken as English, and
+// Devanagari as Hindi, as no script test can tell English from French or Hindi from Marathi.
+const SCRIPTS: { language: string; pattern: RegExp }[] = [
+  { language: 'hi', pattern: /\p{Script=Devanagari}/u },
+  { language: 'bn', pattern: /\p{Script=Bengali}/u },
+  { language: 'pa', pattern: /\p{Script=Gurmukhi}/u },
+  { language: 'gu', pattern: /\p{Script=Gujarati}/u },
+  { language: 'or', pattern: /\p{Script=Oriya}/u },
+  { language: 'ta', pattern: /\p{Script=Tamil}/u },
+  { language: 'te', pattern: /\p{Script=Telugu}/u },
+  { language: 'kn', pattern: /\p{Script=Kannada}/u },
+  { language: 'ml', pattern: /\p{Script=Malayalam}/u },
+  { language: 'ur', pattern: /\p{Script=Arabic}/u },
+  { language: 'zh', pattern: /\p{Script=Han}/u },
+  { language: 'en', pattern: /\p{Script=Latin}/u }
+];
+
+/** A language code as ISO 639-1/2 in lower case ("hi-IN" -> "hi"), or undefined if it is not one. */
+export const normalizeLanguage = (code?: string): string | undefined => {
+  const primary = code?.trim().toLowerCase().split(/[-_]/)[0];
+  return primary && /^[a-z]{2,3}$/.test(primary) ? primary : undefined;
+};
+
+/**
+ * The language a text is written in, judged by the script most of its letters use.
+ * Digits, symbols and the odd English term inside a Hindi question do not count.
+ */
+export const detectLanguage = (text: string): string | undefined => {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    const script = SCRIPTS.find(s => s.pattern.test(char));
+    if (script) counts.set(script.language, (counts.get(script.language) ?? 0) + 1);
+  }
+  const [top] = [...counts].sort((a, b) => b[1] - a[1]);
+  return top?.[0];
+};
+
+let displayNames: Intl.DisplayNames | null | undefined;
+
+/** "hi" -> "Hindi". */
+export const languageName = (code: string): string => {
+  if (displayNames === undefined) {
+    try {
+      displayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+    } catch {
+      displayNames = null;
+    }
+  }
+  return displayNames?.of(code) ?? code.toUpperCase();
+};
+
+/** Every wording of a question: as printed first, then the translations a bilingual paper printed with it. */
+export const questionTexts = (question: Pick<QuestionVariant, 'text' | 'language' | 'translations'>): QuestionTranslation[] => [
+  { language: question.language ?? detectLanguage(question.text) ?? '', text: question.text },
+  ...(question.translations ?? [])
+];
+
+/** The wording of a variant in `language`, if the paper printed it in that language. */
+export const variantTextIn = (variant: QuestionVariant, language: string): string | undefined =>
+  questionTexts(variant).find(t => t.language === language)?.text;
+
+// Fewer letters than this (a unit, a formula) cannot start another language's wording, nor can an option.
+const MIN_WORDING_LETTERS = 12;
+const OPTION_LINE = /^\s*\(?(?:[a-d]|[ivx]{1,4}|\d)[).]/i;
+
+/**
+ * Splits text that runs in two languages, as on a bilingual paper, into one wording per
+ * language in the order printed. Lines are assigned whole; short lines stay with the wording
+ * before them. Text that switches back and forth (a Hindi question with English options)
+ * is one wording in its main language.
+ */
+export const separateLanguages = (text: string): QuestionTranslation[] => {
+  const runs: QuestionTranslation[] = [];
+  text.split('\n').forEach(line => {
+    const language = detectLanguage(line);
+    const letters = line.replace(/[^\p{L}\p{M}]/gu, '').length;
+    const current = runs[runs.length - 1];
+    if (current && (!language || language === current.language || letters < MIN_WORDING_LETTERS || OPTION_LINE.test(line))) current.text += `\n${line}`;
+    else if (language) runs.push({ language, text: line });
+  });
+  const languages = new Set(runs.map(run => run.language));
+  if (languages.size < runs.length) {
+    const whole = text.trim();
+    return whole ? [{ language: detectLanguage(whole) ?? '', text: whole }] : [];
+  }
+  return runs.map(run => ({ ...run, text: run.text.trim() })).filter(run => run.text);
+};
+
+/**
+ * Bilingual papers print each question twice, once per language, under the same number.
+ * Copies that repeat an earlier question's number in another language are folded into it as
+ * translations, so the question is counted once.
+ */
+export const mergeBilingualCopies = (questions: ExtractedQuestion[]): ExtractedQuestion[] => {
+  const merged: ExtractedQuestion[] = [];
+  questions.forEach(question => {
+    const original = question.questionNumber && question.language
+      ? merged.find(m =>
+          m.questionNumber === question.questionNumber &&
+          m.section === question.section &&
+          m.alternativeTo === question.alternativeTo &&
+          m.language && m.language !== question.language &&
+          !m.translations?.some(t => t.language === question.language))
+      : undefined;
+    if (original) {
+      original.translations = [...(original.translations ?? []), { language: question.language!, text: question.text }];
+      original.marks ??= question.marks;
+    } else {
+      merged.push({ ...question });
+    }
+  });
+  return merged;
+};
+
+/** The languages of a set of variants, most used first; translations count too. */
+export const variantLanguages = (variants: QuestionVariant[]): string[] => {
+  const counts = new Map<string, number>();
+  variants.forEach(v => questionTexts(v).forEach(({ language }, i) => {
+    // The printed wording outweighs translations, so a paper's own language wins ties.
+    if (language) counts.set(language, (counts.get(language) ?? 0) + (i === 0 ? 2 : 1));
+  }));
+  return [...counts].sort((a, b) => b[1] - a[1]).map(([language]) => language);
+};
+
+/** The languages an analysis has questions in, most used first. */
+export const analysisLanguages = (groups: AnalysisGroup[]): string[] => variantLanguages(groups.flatMap(g => g.variants));
+
+/**
+ * The group's question as shown in `language`: its normalised wording if that is in the
+ * language, otherwise the wording a paper printed in it. Falls back to the normalised wording.
+ */
+export const groupQuestionIn = (group: AnalysisGroup, language: string): string => {
+  if (!language || detectLanguage(group.normalizedQuestion) === language) return group.normalizedQuestion;
+  for (const variant of group.variants) {
+    const text = variantTextIn(variant, language);
+    if (text) return text;
+  }
+  return group.normalizedQuestion;
+};
@@ -0,0 +1,68 @@
+import { SavedAnalysis, SourceFileMeta, UploadedFile } from "../types";
+import { STORES, withStore } from "./db";
+import { clearStudyProgress } from "./studyService";
+
+const LAST_SESSION_KEY = 'examrepo.lastSession';
+
+export const createAnalysisId = () => `analysis-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 7)}`;
+
+export const toSourceFileMeta = (file: UploadedFile): SourceFileMeta => ({
+  name: file.file.name,
+  size: file.pages ? Array.from(new Set(file.pages.map(p => p.file)), f => f.size).reduce((a, b) => a + b, 0) : file.file.size,
+  type: file.file.type,
+  lastModified: file.file.lastModified,
+  pageCount: file.pages?.length,
+  detectedYear: file.detectedYear,
+  metadata: file.metadata,
+  extractedQuestionsCount: file.extractedQuestionsCount
+});
+
+export const defaultAnalysisName = (files: SourceFileMeta[], date = new Date()) =>
+  `${files.length} ${files.length === 1 ? 'paper' : 'papers'} · ${date.toLocaleDateString()}`;
+
+/**
+ * All saved analyses, most recently updated first.
+ */
+export const listAnalyses = async (): Promise<SavedAnalysis[]> => {
+  const all = await withStore<SavedAnalysis[]>(STORES.analyses, 'readonly', store => store.getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getAnalysis = (id: string): Promise<SavedAnalysis | undefined> =>
+  withStore<SavedAnalysis | undefined>(STORES.analyses, 'readonly', store => store.get(id));
+
+export const saveAnalysis = async (analysis: SavedAnalysis): Promise<SavedAnalysis> => {
+  const saved = { ...analysis, updatedAt: Date.now() };
+  await withStore(STORES.analyses, 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const renameAnalysis = async (id: string, name: string): Promise<SavedAnalysis> => {
+  const existing = await getAnalysis(id);
+  if (!existing) throw new Error("Saved analysis not found.");
+  return saveAnalysis({ ...existing, name });
+};
+
+export const duplicateAnalysis = async (id: string): Promise<SavedAnalysis> => {
+  const existing = await getAnalysis(id);
+  if (!existing) throw new Error("Saved analysis not found.");
+  const now = Date.now();
+  return saveAnalysis({ ...existing, id: createAnalysisId(), name: `${existing.name} (copy)`, createdAt: now });
+};
+
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  await withStore(STORES.analyses, 'readwrite', store => store.delete(id));
+  clearStudyProgress(id);
+  if (getLastSessionId() === id) setLastSessionId(null);
+};
+
+// The id of the analysis that was open when the page was last left, restored on reload.
+export const getLastSessionId = (): string | null => localStorage.getItem(LAST_SESSION_KEY);
+
+export const setLastSessionId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(LAST_SESSION_KEY, id);
+  } else {
+    localStorage.removeItem(LAST_SESSION_KEY);
+  }
+};
@@ -0,0 +1,85 @@
+import { createWorker, Worker } from "tesseract.js";
+import { ExtractedQuestion, ExtractionResult, PaperPage, UploadedFile } from "../types";
+import { hasPages, isPdf, paperPages, pdfPageText, renderPage } from "./pageRenderer";
+import { PageText, splitQuestions } from "./questionSplitter";
+import { detectMetadata, mergeMetadata } from "./paperMetadata";
+import { mergeBilingualCopies, separateLanguages } from "./language";
+import { RunController } from "./jobQueue";
+import { getPlatform } from "./platform";
+
+/** Stands in for the provider and model in cache keys of offline extractions. */
+export const LOCAL_EXTRACTOR_ID = 'local';
+/** Bump when the splitting rules change, so cached offline extractions are redone. */
+export const LOCAL_EXTRACTOR_VERSION = 'rules-3';
+
+const OCR_LANGUAGE = 'eng';
+// A text layer shorter than this is a scan with a few stray characters (a stamp, a page number).
+const MIN_TEXT_LAYER_CHARS = 40;
+
+// One OCR worker for the session; its language model is loaded once, from where the platform keeps it.
+let ocrWorker: Promise<Worker> | null = null;
+
+const getOcrWorker = (): Promise<Worker> => {
+  if (!ocrWorker) {
+    const assets = getPlatform().ocrAssets?.();
+    // A local model needs no copy in Tesseract's own cache (under Node, a file in the working directory).
+    ocrWorker = createWorker(OCR_LANGUAGE, undefined, assets ? { ...assets, cacheMethod: 'none' } : {});
+    ocrWorker.catch(() => { ocrWorker = null; });
+  }
+  return ocrWorker;
+};
+
+/** Stops the OCR worker, if one was started; a command-line run cannot exit while it is alive. */
+export const releaseOcrWorker = async () => {
+  const worker = ocrWorker;
+  ocrWorker = null;
+  if (worker) await (await worker).terminate();
+};
+
+/**
+ * The text of one page: a PDF's own text layer when it has one, otherwise OCR of the rendered page.
+ * A cropped page is always read by OCR, as the text layer covers the whole page.
+ */
+const readPageText = async (page: PaperPage): Promise<string> => {
+  if (isPdf(page.file) && !page.crop) {
+    const text = await pdfPageText(page.file, page.pdfPage ?? 1);
+    if (text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS) return text;
+  }
+  const worker = await getOcrWorker();
+  // A data URL reads the same in the browser and in Node.
+  const { data } = await worker.recognize((await renderPage(page)).toDataURL('image/png'));
+  return data.text;
+};
+
+// A question printed in two languages, one after the other, becomes one question with a translation.
+const withLanguages = (question: ExtractedQuestion): ExtractedQuestion => {
+  const [printed, ...translations] = separateLanguages(question.text);
+  if (!printed) return question;
+  return { ...question, text: printed.text, language: printed.language, translations: translations.length > 0 ? translations : undefined };
+};
+
+/**
+ * Step 1 without a model: reads the paper on this device and splits it into questions by rule.
+ * Numbering, sub-parts, marks and choices are found as printed; wording is not normalised.
+ */
+export const extractQuestionsLocally = async (
+  paper: Pick<UploadedFile, 'file' | 'pages'>,
+  controller?: RunController
+): Promise<ExtractionResult> => {
+  const texts: PageText[] = [];
+
+  if (!hasPages(paper.file)) {
+    // Form feeds mark page breaks in text exported from PDFs.
+    (await paper.file.text()).split('\f').forEach((text, i) => texts.push({ page: i + 1, text }));
+  } else {
+    const pages = await paperPages(paper);
+    for (const [i, page] of pages.entries()) {
+      await controller?.checkpoint();
+      texts.push({ page: i + 1, text: await readPageText(page) });
+    }
+  }
+
+  const { year, header, questions } = splitQuestions(texts);
+  const metadata = mergeMetadata({ year }, detectMetadata(header));
+  return { questions: mergeBilingualCopies(questions.map(withLanguages)), year: metadata.year ?? 'Unknown', sourceFile: paper.file.name, metadata };
+};
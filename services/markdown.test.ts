@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { inlineMarkdownToHtml, markdownToHtml, parseInline, parseMarkdown } from './markdown';
+
+describe('escaping and links', () => {
+  it('keeps raw HTML as text', () => {
+    expect(markdownToHtml('<script>alert(1)</script> & <b>bold</b>')).toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt; &amp; &lt;b&gt;bold&lt;/b&gt;</p>');
+  });
+
+  it('links only to web and mail addresses', () => {
+    expect(inlineMarkdownToHtml('[notes](https://example.com/a_b)')).toBe('<a href="https://example.com/a_b" rel="noopener noreferrer">notes</a>');
+    expect(inlineMarkdownToHtml('[mail](mailto:teacher@example.com)')).toContain('href="mailto:teacher@example.com"');
+    expect(inlineMarkdownToHtml('[click](javascript:alert(1))')).toBe('click');
+    expect(inlineMarkdownToHtml('[click](JavaScript:alert(1))')).toBe('click');
+    expect(inlineMarkdownToHtml('[x](data:text/html;base64,PHNjcmlwdD4=)')).toBe('x');
+    expect(inlineMarkdownToHtml('<javascript:alert(1)>')).toBe('&lt;javascript:alert(1)&gt;');
+  });
+
+  it('cannot break out of the href attribute', () => {
+    const html = inlineMarkdownToHtml('[x](https://example.com/"onmouseover="alert(1))');
+    expect(html).not.toContain('" onmouseover');
+    expect(html).not.toMatch(/href="[^"]*"onmouseover/);
+    expect(html).toContain('&quot;');
+  });
+
+  it('shows escaped punctuation as itself', () => {
+    expect(inlineMarkdownToHtml('\\*not em\\* and \\$5')).toBe('*not em* and $5');
+  });
+});
+
+describe('inline formatting', () => {
+  it('parses emphasis, strike and code spans', () => {
+    expect(parseInline('**bold** *em* ~~gone~~ `a * b`')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' ' },
+      { type: 'em', children: [{ type: 'text', text: 'em' }] },
+      { type: 'text', text: ' ' },
+      { type: 'del', children: [{ type: 'text', text: 'gone' }] },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'a * b' }
+    ]);
+  });
+
+  it('keeps markup inside code spans and leaves snake_case alone', () => {
+    expect(inlineMarkdownToHtml('``a `b` <c>`` and snake_case_name')).toBe('<code>a `b` &lt;c&gt;</code> and snake_case_name');
+  });
+
+  it('leaves unclosed delimiters as text', () => {
+    expect(inlineMarkdownToHtml('2 * 3 and `open')).toBe('2 * 3 and `open');
+  });
+
+  it('reads long text in one pass', () => {
+    const text = 'Plants make food from light [1]. '.repeat(20_000);
+    expect(parseInline(text)).toEqual([{ type: 'text', text }]);
+  });
+});
+
+describe('math and chemistry', () => {
+  const math = (text: string) => parseInline(text).filter(node => node.type === 'math');
+
+  it('reads every math delimiter', () => {
+    expect(math('$a^2$, $$b$$, \\(c\\) and \\[d\\]')).toEqual([
+      { type: 'math', tex: 'a^2', display: false },
+      { type: 'math', tex: 'b', display: true },
+      { type: 'math', tex: 'c', display: false },
+      { type: 'math', tex: 'd', display: true }
+    ]);
+  });
+
+  it('leaves prices as text', () => {
+    expect(math('It costs $5 and $10.')).toEqual([]);
+  });
+
+  it('reads \\ce{} outside math, with nested braces', () => {
+    expect(math('Burn \\ce{CH4 + 2O2 -> CO2 + 2H2O} and \\ce{SO4^{2-}}')).toEqual([
+      { type: 'math', tex: '\\ce{CH4 + 2O2 -> CO2 + 2H2O}', display: false },
+      { type: 'math', tex: '\\ce{SO4^{2-}}', display: false }
+    ]);
+  });
+
+  it('typesets formulas and chemistry with KaTeX', () => {
+    expect(inlineMarkdownToHtml('$x^2$')).toContain('class="katex"');
+    expect(inlineMarkdownToHtml('\\ce{H2O}')).toContain('class="katex"');
+    expect(inlineMarkdownToHtml('$x^2$', { math: 'tex' })).toBe('\\(x^2\\)');
+  });
+
+  it('reads display math blocks over several lines', () => {
+    expect(parseMarkdown('$$\nE = mc^2\n$$\n\\[\n\\ce{A -> B}\n\\]')).toEqual([
+      { type: 'math', tex: 'E = mc^2' },
+      { type: 'math', tex: '\\ce{A -> B}' }
+    ]);
+  });
+});
+
+describe('blocks', () => {
+  it('nests lists by indentation', () => {
+    const html = markdownToHtml('1. Causes\n   - heat\n   - light\n2. Effects\n\n- other');
+    expect(html).toBe('<ol><li><p>Causes</p><ul><li>heat</li><li>light</li></ul></li><li>Effects</li></ol><ul><li>other</li></ul>');
+  });
+
+  it('keeps the start number of an ordered list', () => {
+    expect(markdownToHtml('3. third\n4. fourth')).toBe('<ol start="3"><li>third</li><li>fourth</li></ol>');
+  });
+
+  it('reads tables with alignment and pipes inside code and math', () => {
+    const [table] = parseMarkdown('| Gas | Formula | Mass |\n|:--|:-:|--:|\n| Water | `a|b` | $|x|$ |\n| Oxygen | \\| |');
+    expect(table).toMatchObject({ type: 'table', align: ['left', 'center', 'right'] });
+    expect(markdownToHtml('| Gas | Formula |\n|---|---|\n| Water | `a|b` |')).toBe(
+      '<table><thead><tr><th>Gas</th><th>Formula</th></tr></thead><tbody><tr><td>Water</td><td><code>a|b</code></td></tr></tbody></table>'
+    );
+    if (table.type !== 'table') return;
+    expect(table.rows[0][2]).toEqual([{ type: 'math', tex: '|x|', display: false }]);
+    expect(table.rows[1]).toEqual([[{ type: 'text', text: 'Oxygen' }], [{ type: 'text', text: '|' }], []]);
+  });
+
+  it('keeps fenced code as written', () => {
+    expect(markdownToHtml('```python\nif a < b:\n    print("**x**")\n```')).toBe('<pre><code>if a &lt; b:\n    print(&quot;**x**&quot;)</code></pre>');
+    expect(parseMarkdown('~~~\n$x$\n~~~')).toEqual([{ type: 'code', lang: '', text: '$x$' }]);
+  });
+
+  it('reads headings, quotes, rules and line breaks', () => {
+    expect(markdownToHtml('## Answer\n> Note\n> more\n\n---\nline one\nline two')).toBe(
+      '<h2>Answer</h2><blockquote><p>Note<br>more</p></blockquote><hr><p>line one<br>line two</p>'
+    );
+  });
+});
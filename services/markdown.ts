@@ -0,0 +1,475 @@
+import katex from "katex";
+import "katex/contrib/mhchem";
+
+/**
+ * A small Markdown parser for model answers and question text.
+ * It produces a tree instead of HTML, so every output (React, print HTML, Word) renders
+ * the same structure and raw HTML in model output is never interpreted: it stays text.
+ *
+ * Supported: headings, paragraphs, nested ordered/unordered lists, block quotes, fenced code,
+ * tables, horizontal rules, **strong**, *em*, ~~strike~~, `code`, links, TeX math ($…$, $$…$$,
+ * \(…\), \[…\]) and chemistry (\ce{…}, also outside math). Single newlines are line breaks,
+ * as answers are written line by line.
+ */
+
+export type MdInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MdInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'math'; tex: string; display: boolean }
+  | { type: 'link'; href: string; children: MdInline[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MdBlock =
+  | { type: 'heading'; level: number; children: MdInline[] }
+  | { type: 'paragraph'; children: MdInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MdBlock[][] }
+  | { type: 'blockquote'; children: MdBlock[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'math'; tex: string }
+  | { type: 'table'; align: TableAlign[]; header: MdInline[][]; rows: MdInline[][][] }
+  | { type: 'hr' };
+
+// ---------------------------------------------------------------------------
+// Inline parsing
+// ---------------------------------------------------------------------------
+
+const PUNCTUATION = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const SAFE_LINK = /^(https?:|mailto:)/i;
+// Sticky (y), so they match at a position without copying the rest of the text.
+const BACKTICKS = /`+/y;
+const LINK = /\[([^\]]*)\]\(\s*<?((?:[^\s()<>]|\([^\s()]*\))+)>?(?:\s+"[^"]*")?\s*\)/y;
+const AUTOLINK = /<((?:https?:|mailto:)[^\s<>]+)>/iy;
+
+const matchAt = (pattern: RegExp, text: string, at: number) => {
+  pattern.lastIndex = at;
+  return pattern.exec(text);
+};
+
+// Index of the brace closing the one at `open`, or -1.
+const closingBrace = (text: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '{') depth++;
+    if (text[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Closing `$` of inline math: not escaped, not preceded by a space and not followed by a digit,
+// so prices such as "$5 and $10" stay text.
+const closingDollar = (text: string, from: number): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '\n' && text[i + 1] === '\n') return -1;
+    if (text[i] === '$' && text[i - 1] !== ' ' && !/\d/.test(text[i + 1] ?? '')) return i;
+  }
+  return -1;
+};
+
+// Closing emphasis delimiter: the last of a run (so "***x***" closes after the inner "*x*"),
+// not preceded by whitespace, and for underscores not followed by a word character.
+const closingDelimiter = (text: string, delimiter: string, from: number): number => {
+  let i = text.indexOf(delimiter, from);
+  while (i !== -1) {
+    while (text[i + delimiter.length] === delimiter[0]) i++;
+    const intraword = delimiter[0] === '_' && /\w/.test(text[i + delimiter.length] ?? '');
+    if (i > from && !/\s/.test(text[i - 1]) && !intraword) return i;
+    i = text.indexOf(delimiter, i + delimiter.length);
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): MdInline[] => {
+  const nodes: MdInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: MdInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\n') {
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (ch === '\\') {
+      const next = text[i + 1];
+      if (next === '(' || next === '[') {
+        const close = text.indexOf(next === '(' ? '\\)' : '\\]', i + 2);
+        if (close !== -1) {
+          push({ type: 'math', tex: text.slice(i + 2, close).trim(), display: next === '[' });
+          i = close + 2;
+          continue;
+        }
+      }
+      if (text.startsWith('\\ce{', i)) {
+        const close = closingBrace(text, i + 3);
+        if (close !== -1) {
+          push({ type: 'math', tex: text.slice(i, close + 1), display: false });
+          i = close + 1;
+          continue;
+        }
+      }
+      if (next && PUNCTUATION.test(next)) {
+        buffer += next;
+        i += 2;
+        continue;
+      }
+      buffer += ch;
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = matchAt(BACKTICKS, text, i)![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) {
+        push({ type: 'code', text: text.slice(i + run.length, close).replace(/\n/g, ' ').trim() });
+        i = close + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    if (ch === '$') {
+      if (text.startsWith('$$', i)) {
+        const close = text.indexOf('$$', i + 2);
+        if (close !== -1) {
+          push({ type: 'math', tex: text.slice(i + 2, close).trim(), display: true });
+          i = close + 2;
+          continue;
+        }
+      } else if (text[i + 1] && !/\s/.test(text[i + 1])) {
+        const close = closingDollar(text, i + 1);
+        if (close !== -1) {
+          push({ type: 'math', tex: text.slice(i + 1, close), display: false });
+          i = close + 1;
+          continue;
+        }
+      }
+    }
+
+    if (ch === '*' || ch === '_' || text.startsWith('~~', i)) {
+      const delimiter = text.startsWith('~~', i) ? '~~' : text.startsWith(ch + ch, i) ? ch + ch : ch;
+      // Underscores inside words (snake_case) are not emphasis.
+      const intraword = ch === '_' && /\w/.test(text[i - 1] ?? '');
+      if (!intraword && text[i + delimiter.length] && !/\s/.test(text[i + delimiter.length])) {
+        const close = closingDelimiter(text, delimiter, i + delimiter.length);
+        if (close !== -1) {
+          const type = delimiter === '~~' ? 'del' : delimiter.length === 2 ? 'strong' : 'em';
+          push({ type, children: parseInline(text.slice(i + delimiter.length, close)) });
+          i = close + delimiter.length;
+          continue;
+        }
+      }
+      buffer += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    if (ch === '[') {
+      const link = matchAt(LINK, text, i);
+      if (link) {
+        const children = parseInline(link[1]);
+        if (SAFE_LINK.test(link[2])) push({ type: 'link', href: link[2], children });
+        else { flush(); nodes.push(...children); }
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '<') {
+      const autolink = matchAt(AUTOLINK, text, i);
+      if (autolink) {
+        push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1] }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+  flush();
+  return nodes;
+};
+
+// ---------------------------------------------------------------------------
+// Block parsing
+// ---------------------------------------------------------------------------
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const HR = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+•]|\d{1,9}[.)])\s+(.*)$/;
+const DISPLAY_MATH = /^\s*(\$\$|\\\[)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const indentOf = (line: string) => /^\s*/.exec(line)![0].replace(/\t/g, '    ').length;
+const isBlank = (line: string) => line.trim() === '';
+
+// Splits a table row on pipes that are not escaped or inside code or math.
+const splitRow = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inCode = false;
+  let inMath = false;
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  for (let i = 0; i < trimmed.length; i++) {
+    const ch = trimmed[i];
+    if (ch === '\\' && trimmed[i + 1] === '|') { current += '|'; i++; continue; }
+    if (ch === '`') inCode = !inCode;
+    if (ch === '$' && !inCode) inMath = !inMath;
+    if (ch === '|' && !inCode && !inMath) { cells.push(current.trim()); current = ''; continue; }
+    current += ch;
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const startsTable = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+// Whether a line ends a paragraph by starting a block of its own.
+const startsBlock = (lines: string[], i: number) => {
+  const line = lines[i];
+  return FENCE.test(line) || HEADING.test(line) || HR.test(line) || QUOTE.test(line)
+    || LIST_ITEM.test(line) || DISPLAY_MATH.test(line) || startsTable(lines, i);
+};
+
+export const parseMarkdown = (text: string): MdBlock[] => parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'));
+
+const parseBlocks = (lines: string[]): MdBlock[] => {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) { i++; continue; }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', lang: fence[2], text: body.join('\n') });
+      continue;
+    }
+
+    const mathOpen = DISPLAY_MATH.exec(line);
+    if (mathOpen) {
+      const close = mathOpen[1] === '$$' ? '$$' : '\\]';
+      const first = line.trim().slice(mathOpen[1].length);
+      const body: string[] = [];
+      if (first.includes(close)) {
+        const end = first.indexOf(close);
+        blocks.push({ type: 'math', tex: first.slice(0, end).trim() });
+        const after = first.slice(end + close.length).trim();
+        if (after) blocks.push({ type: 'paragraph', children: parseInline(after) });
+        i++;
+        continue;
+      }
+      if (first.trim()) body.push(first);
+      i++;
+      while (i < lines.length && !lines[i].includes(close)) body.push(lines[i++]);
+      if (i < lines.length) body.push(lines[i].slice(0, lines[i].indexOf(close)));
+      i++;
+      blocks.push({ type: 'math', tex: body.join('\n').trim() });
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] ?? '') });
+      i++;
+      continue;
+    }
+
+    if (startsTable(lines, i)) {
+      const header = splitRow(line);
+      const align: TableAlign[] = splitRow(lines[i + 1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null
+      );
+      const rows: MdInline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, c) => parseInline(cells[c] ?? '')));
+      }
+      blocks.push({ type: 'table', align: header.map((_, c) => align[c] ?? null), header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (QUOTE.test(lines[i]) || !startsBlock(lines, i))) {
+        body.push(lines[i++].replace(QUOTE, ''));
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(body) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const [list, next] = parseList(lines, i);
+      blocks.push(list);
+      i = next;
+      continue;
+    }
+
+    const body: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) body.push(lines[i++].trim());
+    blocks.push({ type: 'paragraph', children: parseInline(body.join('\n')) });
+  }
+
+  return blocks;
+};
+
+/**
+ * Items run until a line at or left of the marker's indentation starts something else.
+ * Lines indented further belong to the item, which is parsed as blocks of its own (nesting).
+ */
+const parseList = (lines: string[], start: number): [MdBlock, number] => {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const baseIndent = indentOf(lines[start]);
+  const ordered = /\d/.test(first[2]);
+  const items: MdBlock[][] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i]);
+    if (!match || indentOf(lines[i]) !== baseIndent || /\d/.test(match[2]) !== ordered) break;
+
+    const contentIndent = baseIndent + match[2].length + 1;
+    const body: string[] = [match[3]];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        // A blank line only continues the item if indented content follows.
+        const nextContent = lines.slice(i + 1).findIndex(l => !isBlank(l));
+        if (nextContent === -1 || indentOf(lines[i + 1 + nextContent]) <= baseIndent) break;
+        body.push('');
+        i++;
+        continue;
+      }
+      const indent = indentOf(line);
+      if (indent > baseIndent) {
+        body.push(line.replace(/\t/g, '    ').slice(Math.min(indent, contentIndent)));
+      } else if (!startsBlock(lines, i)) {
+        body.push(line.trim()); // lazy continuation of the item's paragraph
+      } else {
+        break;
+      }
+      i++;
+    }
+    items.push(parseBlocks(body));
+
+    // Blank lines between items of the same list.
+    let next = i;
+    while (next < lines.length && isBlank(lines[next])) next++;
+    const following = next < lines.length ? LIST_ITEM.exec(lines[next]) : null;
+    if (!following || indentOf(lines[next]) !== baseIndent || /\d/.test(following[2]) !== ordered) break;
+    i = next;
+  }
+
+  return [{ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, i];
+};
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/**
+ * KaTeX HTML for a formula. KaTeX escapes its input and `trust` stays off, so commands such as
+ * \href or \htmlId cannot add markup; malformed TeX is shown as the source in red.
+ */
+export const renderMath = (tex: string, display: boolean): string =>
+  katex.renderToString(tex, { displayMode: display, throwOnError: false, trust: false, output: 'htmlAndMathml' });
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export interface HtmlRenderOptions {
+  /**
+   * 'katex' renders formulas (the page needs the KaTeX stylesheet); 'tex' leaves them as
+   * \(…\) / \[…\] for viewers with their own MathJax, such as Anki.
+   */
+  math?: 'katex' | 'tex';
+}
+
+const inlineHtml = (nodes: MdInline[], options: HtmlRenderOptions): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text': return escapeHtml(node.text);
+      case 'strong': return `<strong>${inlineHtml(node.children, options)}</strong>`;
+      case 'em': return `<em>${inlineHtml(node.children, options)}</em>`;
+      case 'del': return `<del>${inlineHtml(node.children, options)}</del>`;
+      case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+      case 'link': return `<a href="${escapeHtml(node.href)}" rel="noopener noreferrer">${inlineHtml(node.children, options)}</a>`;
+      case 'break': return '<br>';
+      case 'math':
+        return options.math === 'tex'
+          ? escapeHtml(node.display ? `\\[${node.tex}\\]` : `\\(${node.tex}\\)`)
+          : renderMath(node.tex, node.display);
+    }
+  }).join('');
+
+const blocksHtml = (blocks: MdBlock[], options: HtmlRenderOptions): string =>
+  blocks.map(block => {
+    switch (block.type) {
+      case 'heading': return `<h${block.level}>${inlineHtml(block.children, options)}</h${block.level}>`;
+      case 'paragraph': return `<p>${inlineHtml(block.children, options)}</p>`;
+      case 'blockquote': return `<blockquote>${blocksHtml(block.children, options)}</blockquote>`;
+      case 'code': return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+      case 'hr': return '<hr>';
+      case 'math':
+        return options.math === 'tex' ? `<p>${escapeHtml(`\\[${block.tex}\\]`)}</p>` : renderMath(block.tex, true);
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+        return `<${tag}${start}>${block.items.map(item => `<li>${itemHtml(item, options)}</li>`).join('')}</${tag}>`;
+      }
+      case 'table': {
+        const cell = (tag: string, content: MdInline[], c: number) =>
+          `<${tag}${block.align[c] ? ` style="text-align:${block.align[c]}"` : ''}>${inlineHtml(content, options)}</${tag}>`;
+        return `<table><thead><tr>${block.header.map((h, c) => cell('th', h, c)).join('')}</tr></thead>`
+          + `<tbody>${block.rows.map(row => `<tr>${row.map((d, c) => cell('td', d, c)).join('')}</tr>`).join('')}</tbody></table>`;
+      }
+    }
+  }).join('');
+
+// A list item that is a single paragraph renders without <p>, as in a tight list.
+const itemHtml = (item: MdBlock[], options: HtmlRenderOptions) =>
+  item.length === 1 && item[0].type === 'paragraph' ? inlineHtml(item[0].children, options) : blocksHtml(item, options);
+
+export const markdownToHtml = (text: string, options: HtmlRenderOptions = {}): string =>
+  blocksHtml(parseMarkdown(text), options);
+
+/** For single-line text such as question wording: formatting and math, no blocks. */
+export const inlineMarkdownToHtml = (text: string, options: HtmlRenderOptions = {}): string =>
+  inlineHtml(parseInline(text), options);
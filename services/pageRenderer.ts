@@ -0,0 +1,149 @@
+import * as pdfjs from "pdfjs-dist";
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist";
+import { PageCrop, PaperPage, UploadedFile } from "../types";
+import { DecodedImage, getPlatform } from "./platform";
+
+// Constants for Image Optimization
+export const MAX_PAGE_DIMENSION = 1536; // 1536px is sufficient for OCR
+const PAGE_QUALITY = 0.8; // 80% quality reduces size significantly with good text clarity
+// Small PDF pages are rendered at most this many times their natural size.
+const MAX_PDF_SCALE = 4;
+
+const FULL_PAGE: PageCrop = { x: 0, y: 0, width: 1, height: 1 };
+
+export const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+export const isImage = (file: File) => file.type.startsWith('image/');
+// Papers that can be rendered page by page; text files are read as they are.
+export const hasPages = (file: File) => isPdf(file) || isImage(file);
+
+// Parsing a PDF is the slow part, so each file is opened once and shared by all of its pages.
+const openDocuments = new WeakMap<File, Promise<PDFDocumentProxy>>();
+
+const openPdf = (file: File): Promise<PDFDocumentProxy> => {
+  let document = openDocuments.get(file);
+  if (!document) {
+    const { pdfWorkerSrc, pdfVerbosity } = getPlatform();
+    if (pdfWorkerSrc) pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerSrc;
+    document = file.arrayBuffer().then(data => pdfjs.getDocument({ data: new Uint8Array(data), verbosity: pdfVerbosity }).promise);
+    openDocuments.set(file, document);
+    document.catch(() => openDocuments.delete(file));
+  }
+  return document;
+};
+
+export const countPdfPages = async (file: File): Promise<number> => (await openPdf(file)).numPages;
+
+const createPageId = () => Math.random().toString(36).substring(2, 9);
+
+/**
+ * The pages of a file as uploaded: every page of a PDF, or the image itself.
+ */
+export const pagesOfFile = async (file: File): Promise<PaperPage[]> => {
+  if (!isPdf(file)) return [{ id: createPageId(), file, rotation: 0 }];
+  const count = await countPdfPages(file);
+  return Array.from({ length: count }, (_, i) => ({ id: createPageId(), file, pdfPage: i + 1, rotation: 0 }));
+};
+
+export const paperPages = (paper: Pick<UploadedFile, 'file' | 'pages'>): Promise<PaperPage[]> =>
+  paper.pages ? Promise.resolve(paper.pages) : pagesOfFile(paper.file);
+
+/**
+ * Whether the pages are just the file as uploaded, so the paper can share the file's cached extraction.
+ */
+export const isUnchangedFile = async (file: File, pages: PaperPage[]): Promise<boolean> => {
+  if (pages.some(p => p.file !== file || p.rotation !== 0 || p.crop)) return false;
+  if (!isPdf(file)) return pages.length === 1;
+  return pages.every((p, i) => p.pdfPage === i + 1) && pages.length === await countPdfPages(file);
+};
+
+const quarterTurn = (page: PaperPage) => page.rotation === 90 || page.rotation === 270;
+
+// The PDF page drawn at a scale that gives the kept area about `maxDimension` pixels on its long side.
+const renderPdfPage = async (page: PaperPage, area: PageCrop, maxDimension: number): Promise<HTMLCanvasElement> => {
+  const pdfPage = await (await openPdf(page.file)).getPage(page.pdfPage ?? 1);
+  const natural = pdfPage.getViewport({ scale: 1 });
+  const [width, height] = quarterTurn(page) ? [natural.height, natural.width] : [natural.width, natural.height];
+  const scale = Math.min(MAX_PDF_SCALE, maxDimension / Math.max(area.width * width, area.height * height));
+  const viewport = pdfPage.getViewport({ scale });
+  const canvas = getPlatform().createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  await pdfPage.render({ canvas, viewport }).promise;
+  return canvas;
+};
+
+/**
+ * Draws a page with its rotation and crop applied, no larger than `maxDimension` on either side.
+ * `applyCrop: false` shows the whole (rotated) page, as the crop editor needs.
+ */
+export const renderPage = async (
+  page: PaperPage,
+  { maxDimension = MAX_PAGE_DIMENSION, applyCrop = true }: { maxDimension?: number; applyCrop?: boolean } = {}
+): Promise<HTMLCanvasElement> => {
+  const area = applyCrop && page.crop ? page.crop : FULL_PAGE;
+  const source: HTMLCanvasElement | DecodedImage = isPdf(page.file)
+    ? await renderPdfPage(page, area, maxDimension)
+    : await getPlatform().decodeImage(page.file);
+
+  const [rotatedWidth, rotatedHeight] = quarterTurn(page) ? [source.height, source.width] : [source.width, source.height];
+  const keptWidth = area.width * rotatedWidth;
+  const keptHeight = area.height * rotatedHeight;
+  const scale = Math.min(1, maxDimension / Math.max(keptWidth, keptHeight));
+
+  const canvas = getPlatform().createCanvas(Math.max(1, Math.round(keptWidth * scale)), Math.max(1, Math.round(keptHeight * scale)));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("This browser cannot draw pages (no canvas support).");
+
+  // JPEG has no transparency; without a background, transparent areas turn black.
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.translate(-area.x * rotatedWidth, -area.y * rotatedHeight);
+  ctx.translate(rotatedWidth / 2, rotatedHeight / 2);
+  ctx.rotate((page.rotation * Math.PI) / 180);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  if ('close' in source) source.close?.();
+  return canvas;
+};
+
+/**
+ * A page as base64 JPEG for the model, compressed client-side to save bandwidth.
+ */
+export const pageToJpeg = async (page: PaperPage): Promise<string> =>
+  (await renderPage(page)).toDataURL('image/jpeg', PAGE_QUALITY).split(',')[1];
+
+type TextItem = Awaited<ReturnType<PDFPageProxy['getTextContent']>>['items'][number];
+
+/**
+ * The text layer of a PDF page as lines in reading order, or an empty string for a scan.
+ * Items on the same baseline make one line; a wide gap between them (a marks column) is
+ * kept as several spaces.
+ */
+export const pdfPageText = async (file: File, pageNumber: number): Promise<string> => {
+  const pdfPage = await (await openPdf(file)).getPage(pageNumber);
+  const items = (await pdfPage.getTextContent()).items
+    .filter((item: TextItem): item is Extract<TextItem, { str: string }> => 'str' in item && item.str.trim() !== '');
+
+  const lines: { y: number; size: number; items: typeof items }[] = [];
+  items.forEach(item => {
+    const y = item.transform[5];
+    const size = Math.abs(item.transform[3]) || 10;
+    const line = lines.find(l => Math.abs(l.y - y) <= Math.max(2, Math.min(l.size, size) / 2));
+    if (line) line.items.push(item);
+    else lines.push({ y, size, items: [item] });
+  });
+
+  // PDF coordinates grow upwards.
+  return lines.sort((a, b) => b.y - a.y).map(line => {
+    const sorted = [...line.items].sort((a, b) => a.transform[4] - b.transform[4]);
+    return sorted.reduce((text, item, i) => {
+      if (i === 0) return item.str;
+      const previous = sorted[i - 1];
+      const gap = item.transform[4] - (previous.transform[4] + previous.width);
+      const separator = gap > line.size * 2 ? '    ' : gap > line.size * 0.15 && !text.endsWith(' ') && !item.str.startsWith(' ') ? ' ' : '';
+      return text + separator + item.str;
+    }, '');
+  }).join('\n');
+};
+
+/** A small data URL for previews. */
+export const pageThumbnail = async (page: PaperPage, maxDimension = 200): Promise<string> =>
+  (await renderPage(page, { maxDimension })).toDataURL('image/jpeg', 0.7);
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { mixedSubjectsWarning } from './paperMetadata';
+
+const papers = (...subjects: string[]) => subjects.map(subject => ({ subject }));
+
+describe('mixedSubjectsWarning', () => {
+  it('treats spellings of one subject as the same', () => {
+    expect(mixedSubjectsWarning(papers('Maths', 'MATHEMATICS ', 'mathematics'))).toBeNull();
+    expect(mixedSubjectsWarning(papers('Science & Technology', 'science and technology'))).toBeNull();
+  });
+
+  it('ignores papers without a subject', () => {
+    expect(mixedSubjectsWarning([undefined, { subject: 'Physics' }, { year: '2021' }])).toBeNull();
+  });
+
+  it('names each subject with its paper count', () => {
+    expect(mixedSubjectsWarning(papers('Physics', 'Chemistry', 'physics'))).toContain('Physics (2), Chemistry (1)');
+  });
+
+  it('tells apart subjects written in other scripts', () => {
+    expect(mixedSubjectsWarning(papers('गणित', 'विज्ञान'))).toContain('गणित (1), विज्ञान (1)');
+    expect(mixedSubjectsWarning(papers('Mathematics', 'ভৌতবিজ্ঞান'))).toContain('ভৌতবিজ্ঞান (1)');
+  });
+
+  it('matches subjects in other scripts despite spacing and punctuation', () => {
+    expect(mixedSubjectsWarning(papers('गणित', ' गणित.', 'सामाजिक विज्ञान', 'सामाजिक-विज्ञान'))).toContain('गणित (2), सामाजिक विज्ञान (2)');
+  });
+});
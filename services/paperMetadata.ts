@@ -0,0 +1,183 @@
+import { ExtractionResult, PaperMetadata, UploadedFile } from "../types";
+import { hasPages, isPdf, pdfPageText } from "./pageRenderer";
+import { reportProblem } from "./diagnostics";
+
+/** The fields in the order they are shown and edited. */
+export const METADATA_FIELDS: { key: keyof PaperMetadata; label: string; placeholder: string }[] = [
+  { key: 'year', label: 'Year', placeholder: '2021' },
+  { key: 'session', label: 'Session', placeholder: 'March, Supplementary' },
+  { key: 'board', label: 'Board / University', placeholder: 'CBSE' },
+  { key: 'subject', label: 'Subject', placeholder: 'Physics' },
+  { key: 'courseCode', label: 'Course Code', placeholder: 'PHY101' },
+  { key: 'paperSet', label: 'Set', placeholder: 'A' }
+];
+
+// Lines read from the top of the first page when a paper is uploaded.
+const HEADER_LINES = 15;
+
+const YEAR = /\b(19[5-9]\d|20\d{2})\b/;
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const SEASON = '(?:spring|summer|autumn|fall|winter)';
+// A month or season counts as the session only next to a year, so "Candidates may..." is not May.
+const DATED_SESSION = new RegExp(`\\b(${MONTH}|${SEASON})(?:\\s*[/–-]\\s*(${MONTH}))?[,.\\s/-]*(?:19|20)\\d{2}\\b|\\b(?:19|20)\\d{2}[,.\\s/-]*(${MONTH}|${SEASON})\\b`, 'i');
+const MONTH_WORD = new RegExp(`\\b${MONTH}\\b`, 'gi');
+const SEASON_WORD = new RegExp(`\\b${SEASON}\\b`, 'i');
+const SUPPLEMENTARY = /\b(?:supplementary|supple|compartment(?:al)?|repeat|re-?exam(?:ination)?|resit|back\s*paper)\b/i;
+const TERMS: [RegExp, string][] = [
+  [/\bmid[-\s]?(?:term|sem(?:ester)?)\b/i, 'Mid-term'],
+  [/\bend[-\s]?(?:term|sem(?:ester)?)\b/i, 'End-semester'],
+  [/\bpre[-\s]?boards?\b/i, 'Pre-board'],
+  [/\b(?:annual|final)\s+exam/i, 'Annual']
+];
+const BOARD_NAMES = /\b(CBSE|ICSE|ISC|IGCSE|GCSE|AQA|Edexcel|OCR|WJEC|CCEA|SQA|Cambridge|IB|WAEC|NECO|KCSE|HSC|SSC|NIOS)\b/;
+const BOARD_LINE = /^.*\b(?:university|board|council|examinations? syndicate|institute of technology)\b.*$/im;
+const SUBJECT_LABEL = /\bsubject(?:\s*name)?\s*[:\-–]\s*(.+)$/im;
+const SUBJECT_NAMES = /\b(Physics|Chemistry|Biology|Mathematics|Maths|Computer Science|Economics|Accountancy|Business Studies|Political Science|History|Geography|Statistics|English|Hindi|Psychology|Sociology)\b/i;
+const CODE_LABEL = /\b(?:course|subject|paper|q\.?\s*p\.?)?\s*code\s*(?:no\.?)?\s*[:\-–]?\s*([A-Z0-9][A-Z0-9/.-]{1,15})/i;
+const CODE_SHAPE = /\b([A-Z]{2,5}-?\d{3,4}[A-Z]?)\b/;
+const PAPER_SET = /\b(?:[Ss]et|SET|[Ss]eries|SERIES)\s*(?:[Nn]o\.?|[Cc]ode)?\s*[:\-–]?\s*([A-D]|[1-9])\b/;
+
+const titleCase = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+const monthName = (word: string) =>
+  MONTH_NAMES.find(m => m.toLowerCase().startsWith(word.toLowerCase().slice(0, 3))) ?? titleCase(word);
+
+// Trims a value cut out of a line: surrounding punctuation and anything after a wide gap.
+const tidy = (value: string) => value.trim().split(/\s{2,}/)[0].replace(/^[\s:.,\-–|]+|[\s:.,\-–|]+$/g, '');
+
+/** The four-digit year in a label such as "March 2021 (Supplementary)" or "2019-20". */
+export const normalizeYear = (label?: string): string | undefined => YEAR.exec(label ?? '')?.[1];
+
+/**
+ * One spelling per session: "MAR", "march" and "March" are all "March"; a supplementary
+ * sitting keeps its month ("March Supplementary"). Unrecognised labels are kept as typed.
+ */
+export const normalizeSession = (label?: string): string | undefined => {
+  const raw = label?.trim();
+  if (!raw) return undefined;
+  const months = Array.from(new Set(Array.from(raw.matchAll(MONTH_WORD), m => monthName(m[0]))));
+  const season = SEASON_WORD.exec(raw)?.[0];
+  const when = months.length > 0
+    ? months.join('/')
+    : season ? titleCase(season) : TERMS.find(([pattern]) => pattern.test(raw))?.[1];
+  const parts = [when, SUPPLEMENTARY.test(raw) ? 'Supplementary' : undefined].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : raw;
+};
+
+/**
+ * Reads what it can from the header of a paper or its file name. Only the header should be passed:
+ * subject names and codes are also common inside questions.
+ */
+export const detectMetadata = (text: string): PaperMetadata => {
+  const dated = DATED_SESSION.exec(text);
+  const sessionWords = [
+    dated && (dated[2] ? `${dated[1]}/${dated[2]}` : dated[1] ?? dated[3]),
+    SUPPLEMENTARY.exec(text)?.[0],
+    TERMS.find(([pattern]) => pattern.test(text))?.[1]
+  ].filter(Boolean).join(' ');
+  const boardLine = BOARD_LINE.exec(text)?.[0];
+  const namedSubject = SUBJECT_NAMES.exec(text)?.[1];
+  // A label wins over a subject name seen anywhere; "Subject: Physics   Code: 042" may share a line.
+  const subject = SUBJECT_LABEL.exec(text)?.[1].replace(/\s*\b(?:course|subject|paper)?\s*code\b.*$/i, '')
+    ?? (namedSubject && namedSubject.split(' ').map(titleCase).join(' '));
+  const labelledCode = CODE_LABEL.exec(text)?.[1];
+
+  return mergeMetadata({
+    year: normalizeYear(dated?.[0]) ?? normalizeYear(text),
+    session: sessionWords || undefined,
+    board: BOARD_NAMES.exec(text)?.[1] ?? (boardLine && boardLine.length <= 80 ? boardLine : undefined),
+    subject: subject && (/^maths?$/i.test(tidy(subject)) ? 'Mathematics' : subject),
+    courseCode: labelledCode && /\d/.test(labelledCode) ? labelledCode : CODE_SHAPE.exec(text)?.[1],
+    paperSet: PAPER_SET.exec(text)?.[1]
+  });
+};
+
+/** "physics_2019_march_set-B.pdf" reads as "physics 2019 march set-B". */
+export const fileNameText = (name: string) => name.replace(/\.[a-z0-9]{2,4}$/i, '').replace(/[_.]+/g, ' ');
+
+/**
+ * Combines metadata from several sources; a later source wins for every field it has.
+ * Values are trimmed and years and sessions normalised.
+ */
+export const mergeMetadata = (...sources: (PaperMetadata | undefined)[]): PaperMetadata => {
+  const merged: PaperMetadata = {};
+  sources.forEach(source => {
+    METADATA_FIELDS.forEach(({ key }) => {
+      const value = source?.[key];
+      const cleaned = typeof value === 'string' ? tidy(value) : '';
+      if (cleaned) merged[key] = cleaned;
+    });
+  });
+  const year = normalizeYear(merged.year);
+  if (year) merged.year = year;
+  else delete merged.year;
+  if (merged.session) merged.session = normalizeSession(merged.session);
+  return merged;
+};
+
+/**
+ * What is known about a paper before extraction: its file name and the top of its first page.
+ * Scans and photos have no text until extraction, so only their file name is read.
+ */
+export const detectPaperMetadata = async (paper: Pick<UploadedFile, 'file' | 'pages'>): Promise<PaperMetadata> => {
+  const fromName = detectMetadata(fileNameText(paper.file.name));
+  try {
+    let header = '';
+    if (!hasPages(paper.file)) {
+      header = await paper.file.slice(0, 4000).text();
+    } else {
+      const first = paper.pages?.[0] ?? { file: paper.file, pdfPage: 1 };
+      if (isPdf(first.file)) header = await pdfPageText(first.file, first.pdfPage ?? 1);
+    }
+    const lines = header.split('\n').map(line => line.trim()).filter(Boolean).slice(0, HEADER_LINES);
+    return mergeMetadata(fromName, detectMetadata(lines.join('\n')));
+  } catch (err) {
+    reportProblem('warn', `Could not read the header of ${paper.file.name}`, err);
+    return fromName;
+  }
+};
+
+/**
+ * Settles what an extracted paper is: detected values, then what the extraction read,
+ * then anything the user typed in. The year of the result follows.
+ */
+export const applyPaperMetadata = (
+  result: ExtractionResult,
+  paper: Pick<UploadedFile, 'detectedMetadata' | 'metadata'>
+): ExtractionResult => {
+  const metadata = mergeMetadata(paper.detectedMetadata, { year: result.year, ...result.metadata }, paper.metadata);
+  return { ...result, metadata, year: metadata.year ?? 'Unknown' };
+};
+
+/** "March 2021 · CBSE · Physics · PHY101 · Set A" */
+export const describeMetadata = (metadata: PaperMetadata) => [
+  [metadata.session, metadata.year].filter(Boolean).join(' '),
+  metadata.board,
+  metadata.subject,
+  metadata.courseCode,
+  metadata.paperSet && `Set ${metadata.paperSet}`
+].filter(Boolean).join(' · ');
+
+// "Maths", "mathematics" and "MATHEMATICS " are one subject. Letters of any script count, with their
+// combining marks (the vowel signs of Devanagari), so "गणित" and "विज्ञान" stay apart.
+const subjectKey = (subject: string) => {
+  const key = subject.normalize('NFC').toLowerCase().replace(/&/g, 'and').replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim();
+  return /^maths?$/.test(key) ? 'mathematics' : key;
+};
+
+/**
+ * A warning when the papers name more than one subject, or null. Papers without a subject are not counted.
+ */
+export const mixedSubjectsWarning = (papers: (PaperMetadata | undefined)[]): string | null => {
+  const subjects = new Map<string, { label: string; count: number }>();
+  papers.forEach(metadata => {
+    if (!metadata?.subject) return;
+    const key = subjectKey(metadata.subject);
+    const entry = subjects.get(key) ?? { label: metadata.subject, count: 0 };
+    subjects.set(key, { ...entry, count: entry.count + 1 });
+  });
+  if (subjects.size < 2) return null;
+  const list = Array.from(subjects.values()).map(s => `${s.label} (${s.count})`).join(', ');
+  return `These papers are from different subjects: ${list}. Questions from different subjects should not be grouped together.`;
+};
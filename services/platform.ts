@@ -0,0 +1,69 @@
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+/**
+ * The drawing APIs the service layer needs from its host. The browser defaults apply unless
+ * another host (the command-line analyzer) installs its own with `setPlatform`.
+ */
+
+/** A decoded image: anything a canvas can draw with a known size. */
+export type DecodedImage = CanvasImageSource & { width: number; height: number; close?: () => void };
+
+export interface Platform {
+  createCanvas(width: number, height: number): HTMLCanvasElement;
+  decodeImage(file: Blob): Promise<DecodedImage>;
+  /** Where PDF.js loads its worker from; unset lets PDF.js run it in-process. */
+  pdfWorkerSrc?: string;
+  /** How much PDF.js logs (0 errors, 1 warnings, 5 everything); unset keeps its default. */
+  pdfVerbosity?: number;
+  /** Where OCR loads its worker, engine and language model from; unset downloads them from Tesseract's CDN. */
+  ocrAssets?(): OcrAssets;
+}
+
+/** Locations for Tesseract; an unset worker or engine path uses the one installed with tesseract.js. */
+export interface OcrAssets {
+  workerPath?: string;
+  /** A folder holding the tesseract-core builds; Tesseract picks the one the device supports. */
+  corePath?: string;
+  /** A folder (or URL) holding `<language>.traineddata.gz`. */
+  langPath: string;
+}
+
+const browserPlatform: Platform = {
+  createCanvas: (width, height) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  },
+  decodeImage: (file) => createImageBitmap(file),
+  // Bundled with the app, so it matches the library version and loads without internet.
+  pdfWorkerSrc: pdfWorkerUrl,
+  // Copied into /ocr/ by the build (see vite.config.ts). Tesseract loads them inside a worker, hence absolute URLs.
+  ocrAssets: () => {
+    const base = new URL(`${import.meta.env.BASE_URL}ocr/`, location.href);
+    return {
+      workerPath: new URL('worker.min.js', base).href,
+      corePath: new URL('core', base).href,
+      langPath: new URL('lang', base).href
+    };
+  }
+};
+
+let current = browserPlatform;
+
+export const getPlatform = (): Platform => current;
+
+export const setPlatform = (platform: Platform) => {
+  current = platform;
+};
+
+/** Base64 of a file's bytes, without a data URL prefix. */
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // In slices, so large files do not overflow the argument list.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
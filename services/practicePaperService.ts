@@ -0,0 +1,200 @@
+import { Schema, Type } from "@google/genai";
+import { AnalysisGroup, BlueprintSection, PaperBlueprint, PracticePaper, PracticeQuestion, QuestionType, Syllabus } from "../types";
+import { LLMProvider } from "./providers";
+import { generateValidatedJSON } from "./structuredOutput";
+import { availableYears, parseYear, QUESTION_TYPE_ORDER } from "./groupFilters";
+import { averageMarks } from "./questionMarks";
+import { computeWeightage } from "./syllabusService";
+
+// Marks per question when the papers never printed any.
+const DEFAULT_MARKS: Record<QuestionType, number> = {
+  'MCQ': 1,
+  'Very Short Question': 1,
+  'Short Question': 3,
+  'Long Question': 5
+};
+const DEFAULT_QUESTIONS_PER_SECTION = 5;
+const DEFAULT_DURATION_MINUTES = 180;
+// Chapters (or sample questions) shown to the model when it writes new questions.
+const UNDER_COVERED_CHAPTERS = 8;
+const SAMPLE_QUESTIONS = 40;
+
+export const blueprintTotalMarks = (blueprint: PaperBlueprint) =>
+  blueprint.sections.reduce((acc, s) => acc + (s.count + s.freshCount) * s.marksEach, 0);
+
+/**
+ * A blueprint shaped like the analysed papers: one section per question type that occurs,
+ * with its usual marks.
+ */
+export const defaultBlueprint = (groups: AnalysisGroup[]): PaperBlueprint => {
+  const sections: BlueprintSection[] = QUESTION_TYPE_ORDER
+    .filter(type => groups.some(g => g.type === type))
+    .map((type, i) => {
+      const ofType = groups.filter(g => g.type === type);
+      const marks = averageMarks(ofType.flatMap(g => g.variants));
+      return {
+        name: `Section ${String.fromCharCode(65 + i)}`,
+        type,
+        count: Math.min(DEFAULT_QUESTIONS_PER_SECTION, ofType.length),
+        freshCount: 0,
+        marksEach: marks !== undefined ? Math.max(1, Math.round(marks)) : DEFAULT_MARKS[type]
+      };
+    });
+  const blueprint = { title: 'Practice Paper', durationMinutes: DEFAULT_DURATION_MINUTES, totalMarks: 0, sections };
+  return { ...blueprint, totalMarks: blueprintTotalMarks(blueprint) };
+};
+
+// Small seeded generator, so the same seed always assembles the same paper.
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * How likely a group is to be picked: how often it was asked, discounted by the years since
+ * it was last asked. Groups without a known year count as asked two years ago.
+ */
+export const selectionWeight = (group: AnalysisGroup, latestYear?: number): number => {
+  const years = group.years.map(parseYear).filter((y): y is number => y !== undefined);
+  const yearsSince = latestYear !== undefined && years.length > 0 ? latestYear - Math.max(...years) : 2;
+  return group.frequency / (1 + yearsSince);
+};
+
+/**
+ * Weighted sampling without replacement (each item keeps the `count` largest random^(1/weight) keys).
+ */
+const weightedSample = <T,>(items: T[], weight: (item: T) => number, count: number, random: () => number): T[] =>
+  items
+    .map(item => ({ item, key: Math.pow(random(), 1 / Math.max(weight(item), 1e-6)) }))
+    .sort((a, b) => b.key - a.key)
+    .slice(0, count)
+    .map(entry => entry.item);
+
+const freshSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      slot: { type: Type.STRING, description: "The id of the slot this question fills." },
+      question: { type: Type.STRING },
+      answer: { type: Type.STRING, description: "A model answer in Markdown, as long as the marks deserve." },
+      topic: { type: Type.STRING }
+    },
+    required: ["slot", "question", "answer"]
+  }
+};
+
+/**
+ * What the new questions should cover: the least-asked syllabus chapters when there is a
+ * syllabus, otherwise the most-asked questions so the model can look for what they leave out.
+ */
+const coverageHint = (groups: AnalysisGroup[], syllabus?: Syllabus): string => {
+  if (syllabus) {
+    const chapters = computeWeightage(groups, syllabus, availableYears(groups))
+      .sort((a, b) => a.questions - b.questions)
+      .slice(0, UNDER_COVERED_CHAPTERS)
+      .map(row => `- ${row.chapter.name} (${row.unit.name})${row.chapter.topics.length ? `: ${row.chapter.topics.join('; ')}` : ''}`);
+    return `Write the questions on these syllabus chapters, which past papers rarely ask about:\n${chapters.join('\n')}`;
+  }
+  const asked = [...groups]
+    .sort((a, b) => b.frequency - a.frequency)
+    .slice(0, SAMPLE_QUESTIONS)
+    .map(g => `- ${g.normalizedQuestion}`);
+  return `These are the questions past papers ask most. Write questions from the same subject and level on topics they do NOT cover:\n${asked.join('\n')}`;
+};
+
+/**
+ * Asks the model for the newly written questions of every section in one call.
+ * Returns them per section index; sections may get fewer than requested.
+ */
+const writeFreshQuestions = async (
+  blueprint: PaperBlueprint,
+  groups: AnalysisGroup[],
+  provider: LLMProvider,
+  syllabus?: Syllabus
+): Promise<Map<number, { text: string; answer: string; topic?: string }[]>> => {
+  const slots = blueprint.sections
+    .map((section, index) => ({ id: `s${index + 1}`, index, section }))
+    .filter(slot => slot.section.freshCount > 0);
+
+  const written = await generateValidatedJSON<{ slot: string; question: string; answer: string; topic?: string }[]>(provider, {
+    task: 'practice',
+    schema: freshSchema,
+    parts: [
+      { text: `You are an experienced examiner setting new questions for a practice paper.
+
+        ${coverageHint(groups, syllabus)}
+
+        SLOTS TO FILL:
+        ${slots.map(({ id, section }) => `- ${id}: ${section.freshCount} × ${section.type}, ${section.marksEach} marks each`).join('\n        ')}
+
+        RULES:
+        - Return exactly the requested number of questions for each slot, with its slot id.
+        - Match the style and difficulty of a real exam question of that type and marks.
+        - Do not reuse or reword the questions listed above.
+        - Give each question a model answer and the topic it tests.` }
+    ]
+  });
+
+  const bySection = new Map<number, { text: string; answer: string; topic?: string }[]>();
+  slots.forEach(({ id, index, section }) => {
+    bySection.set(index, written
+      .filter(item => item.slot === id && item.question.trim())
+      .slice(0, section.freshCount)
+      .map(item => ({ text: item.question.trim(), answer: item.answer.trim(), topic: item.topic?.trim() || undefined })));
+  });
+  return bySection;
+};
+
+export interface GeneratePaperOptions {
+  seed?: number;
+  syllabus?: Syllabus;
+  /** Required only when a section asks for newly written questions. */
+  provider?: LLMProvider;
+}
+
+/**
+ * Assembles a practice paper from the blueprint. Repeated questions are picked by type,
+ * favouring frequent and recently asked ones; no group is used twice.
+ */
+export const generatePracticePaper = async (
+  groups: AnalysisGroup[],
+  blueprint: PaperBlueprint,
+  { seed = Date.now(), syllabus, provider }: GeneratePaperOptions = {}
+): Promise<PracticePaper> => {
+  const random = mulberry32(seed);
+  const latestYear = availableYears(groups).pop();
+  const used = new Set<string>();
+
+  const needsModel = blueprint.sections.some(s => s.freshCount > 0);
+  if (needsModel && !provider) throw new Error("Newly written questions need a model provider.");
+  const fresh = needsModel ? await writeFreshQuestions(blueprint, groups, provider!, syllabus) : new Map();
+
+  let number = 0;
+  const sections = blueprint.sections.map((section, index) => {
+    const candidates = groups.filter(g => g.type === section.type && !used.has(g.id));
+    const picked = weightedSample(candidates, g => selectionWeight(g, latestYear), section.count, random);
+    picked.forEach(g => used.add(g.id));
+    const written: { text: string; answer: string; topic?: string }[] = fresh.get(index) ?? [];
+
+    const questions: PracticeQuestion[] = [
+      ...picked.map(g => ({ number: 0, text: g.normalizedQuestion, marks: section.marksEach, type: section.type, groupId: g.id, topic: g.topic })),
+      ...written.map(w => ({ number: 0, text: w.text, marks: section.marksEach, type: section.type, answer: w.answer, topic: w.topic }))
+    ].map(q => ({ ...q, number: ++number }));
+
+    return {
+      name: section.name,
+      questions,
+      shortfall: section.count + section.freshCount - questions.length
+    };
+  });
+
+  return {
+    title: blueprint.title,
+    durationMinutes: blueprint.durationMinutes,
+    totalMarks: sections.reduce((acc, s) => acc + s.questions.reduce((sum, q) => sum + q.marks, 0), 0),
+    sections
+  };
+};
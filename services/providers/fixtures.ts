@@ -0,0 +1,66 @@
+import { GenerationTask } from "./types";
+
+/**
+ * Default responses replayed by the mock provider when no recorded fixture
+ * matches a request. They mirror the shape the real models return.
+ */
+export const DEFAULT_FIXTURES: Record<GenerationTask, string> = {
+  extraction: JSON.stringify({
+    year: "2023",
+    session: "March",
+    board: "",
+    subject: "Science",
+    courseCode: "",
+    paperSet: "A",
+    questions: [
+      { text: "Define photosynthesis and explain its significance.", questionNumber: "1", section: "A", marks: 3, page: 1 },
+      { text: "What is the function of mitochondria in a cell?", questionNumber: "2", section: "A", marks: 1, page: 1 },
+      { text: "State Newton's second law of motion.", questionNumber: "3(a)", section: "B", marks: 2, parentNumber: "3", page: 2 }
+    ]
+  }),
+  clustering: JSON.stringify([
+    {
+      normalizedQuestion: "Define photosynthesis and explain its significance.",
+      type: "Short Question",
+      memberIds: ["q1"]
+    },
+    {
+      normalizedQuestion: "What is the function of mitochondria in a cell?",
+      type: "Very Short Question",
+      memberIds: ["q2"]
+    },
+    {
+      normalizedQuestion: "State Newton's second law of motion.",
+      type: "Very Short Question",
+      memberIds: ["q3"]
+    }
+  ]),
+  // No new question matches an existing group.
+  matching: JSON.stringify([]),
+  // No cross-batch duplicates: every cluster passes through unchanged.
+  merging: JSON.stringify([]),
+  syllabus: JSON.stringify([
+    {
+      name: "Unit 1: Life Processes",
+      chapters: [
+        { name: "Photosynthesis", topics: ["Light reaction", "Dark reaction"] },
+        { name: "Cell Biology", topics: ["Cell organelles"] }
+      ]
+    },
+    {
+      name: "Unit 2: Mechanics",
+      chapters: [{ name: "Laws of Motion", topics: ["Newton's laws"] }]
+    }
+  ]),
+  // Only the first group is placed; the rest stay unclassified.
+  classification: JSON.stringify([{ id: "g1", chapterId: "u1.c1", topic: "" }]),
+  practice: JSON.stringify([
+    {
+      slot: "s1",
+      question: "Explain how the structure of a leaf is adapted for gas exchange.",
+      answer: "**Stomata** let gases in and out; the spongy mesophyll has air spaces for diffusion.",
+      topic: "Plant physiology"
+    }
+  ]),
+  answering: "**Model answer (offline mock).**\n* Start with a precise definition.\n* Explain the key points with an example.\n* Conclude with its significance."
+};
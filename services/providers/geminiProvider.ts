@@ -0,0 +1,69 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { ParseError, SafetyBlockError, toLLMError } from "../errors";
+import { GenerateJSONRequest, GenerateTextRequest, LLMProvider } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+const BLOCKING_FINISH_REASONS = new Set(['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT']);
+
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKING_FINISH_REASONS.has(finishReason))) {
+    throw new SafetyBlockError(`Gemini blocked the request (${blockReason || finishReason}).`);
+  }
+};
+
+export class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, readonly model: string = DEFAULT_GEMINI_MODEL) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generateJSON({ parts, schema, signal }: GenerateJSONRequest): Promise<string> {
+    let response: GenerateContentResponse;
+    try {
+      response = await this.ai.models.generateContent({
+        model: this.model,
+        contents: { parts },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          abortSignal: signal
+        }
+      });
+    } catch (e) {
+      throw toLLMError(e);
+    }
+
+    assertNotBlocked(response);
+    const text = response.text;
+    if (!text) throw new ParseError("No response from Gemini", '');
+    return text;
+  }
+
+  async streamText({ parts, signal }: GenerateTextRequest, onChunk?: (chunk: string) => void): Promise<string> {
+    let text = '';
+    try {
+      const stream = await this.ai.models.generateContentStream({
+        model: this.model,
+        contents: { parts },
+        config: { abortSignal: signal }
+      });
+
+      for await (const response of stream) {
+        assertNotBlocked(response);
+        const chunk = response.text;
+        if (!chunk) continue;
+        text += chunk;
+        onChunk?.(chunk);
+      }
+    } catch (e) {
+      throw toLLMError(e);
+    }
+    if (!text) throw new ParseError("No response from Gemini", '');
+    return text;
+  }
+}
@@ -0,0 +1,44 @@
+import { LLMSettings } from "../../types";
+import { DEFAULT_GEMINI_MODEL, GeminiProvider } from "./geminiProvider";
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL, OpenAICompatibleProvider } from "./openAIProvider";
+import { MockProvider } from "./mockProvider";
+import { LLMProvider } from "./types";
+
+export * from "./types";
+export { GeminiProvider } from "./geminiProvider";
+export { OpenAICompatibleProvider } from "./openAIProvider";
+export { MockProvider, fixtureKey, parseFixtures } from "./mockProvider";
+
+export const DEFAULT_MODELS: Record<LLMSettings['provider'], string> = {
+  gemini: DEFAULT_GEMINI_MODEL,
+  openai: DEFAULT_OPENAI_MODEL,
+  mock: 'fixture-replay'
+};
+
+export const DEFAULT_BASE_URL = DEFAULT_OPENAI_BASE_URL;
+
+/**
+ * Returns a human readable problem with the settings, or null if they are usable.
+ */
+export const validateSettings = (settings: LLMSettings): string | null => {
+  switch (settings.provider) {
+    case 'gemini':
+      return settings.apiKey ? null : "API Key is missing.";
+    case 'openai':
+      return settings.baseUrl ? null : "Base URL is missing for the OpenAI-compatible provider.";
+    case 'mock':
+      return null;
+  }
+};
+
+export const createProvider = (settings: LLMSettings): LLMProvider => {
+  const model = settings.model || DEFAULT_MODELS[settings.provider];
+  switch (settings.provider) {
+    case 'gemini':
+      return new GeminiProvider(settings.apiKey, model);
+    case 'openai':
+      return new OpenAICompatibleProvider(settings.apiKey, model, settings.baseUrl || DEFAULT_BASE_URL);
+    case 'mock':
+      return new MockProvider(settings.fixtures, model);
+  }
+};
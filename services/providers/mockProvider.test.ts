@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { createProvider, fixtureKey, MockProvider, parseFixtures } from '.';
+import { DEFAULT_FIXTURES } from './fixtures';
+import { analyzeRepeatedQuestions, extractQuestionsFromPaper } from '../geminiService';
+import { ContentPart } from './types';
+
+const schema = {};
+const parts: ContentPart[] = [{ text: 'Which questions are in this paper?' }];
+
+const paper = (name: string) => ({ file: new File(['1. Define photosynthesis.'], name, { type: 'text/plain' }) });
+
+const recordedExtraction = (year: string) => ({
+  year,
+  questions: [
+    { text: 'Define photosynthesis and explain its significance.', questionNumber: '1', marks: 3 },
+    { text: "State Newton's second law of motion.", questionNumber: '2', marks: 2 }
+  ]
+});
+
+describe('MockProvider', () => {
+  it('prefers a fixture recorded for the exact request, then one for the task, then the defaults', async () => {
+    const provider = new MockProvider({
+      [fixtureKey('matching', parts)]: '"exact"',
+      matching: '"task"'
+    });
+    expect(await provider.generateJSON({ task: 'matching', parts, schema })).toBe('"exact"');
+    expect(await provider.generateJSON({ task: 'matching', parts: [{ text: 'other' }], schema })).toBe('"task"');
+    expect(await provider.generateJSON({ task: 'clustering', parts, schema })).toBe(DEFAULT_FIXTURES.clustering);
+  });
+
+  it('streams the whole fixture in chunks', async () => {
+    const chunks: string[] = [];
+    const text = await new MockProvider({ answering: 'Plants make food from light.' }).streamText({ task: 'answering', parts }, chunk => chunks.push(chunk));
+    expect(text).toBe('Plants make food from light.');
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(text);
+  });
+
+  it('is cancelled like a real provider', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(new MockProvider().generateJSON({ task: 'extraction', parts, schema, signal: controller.signal })).rejects.toMatchObject({ kind: 'cancelled' });
+  });
+
+  it('stops streaming when aborted between chunks', async () => {
+    const controller = new AbortController();
+    const chunks: string[] = [];
+    const answer = new MockProvider({ answering: 'Plants make food from light.' }).streamText(
+      { task: 'answering', parts, signal: controller.signal },
+      chunk => { chunks.push(chunk); controller.abort(); }
+    );
+    await expect(answer).rejects.toMatchObject({ kind: 'cancelled' });
+    expect(chunks).toEqual(['Plants ']);
+  });
+});
+
+describe('parseFixtures', () => {
+  it('keeps text responses and serialises JSON ones', () => {
+    expect(parseFixtures(JSON.stringify({ answering: 'An answer', matching: [] }))).toEqual({ answering: 'An answer', matching: '[]' });
+  });
+
+  it('rejects files that are not an object of responses', () => {
+    expect(() => parseFixtures('not json')).toThrow('not valid JSON');
+    expect(() => parseFixtures('[]')).toThrow('JSON object');
+  });
+});
+
+describe('analysis against the mock provider', () => {
+  it('extracts the recorded questions from settings fixtures', async () => {
+    const provider = createProvider({
+      provider: 'mock',
+      model: '',
+      apiKey: '',
+      baseUrl: '',
+      fixtures: parseFixtures(JSON.stringify({ extraction: recordedExtraction('2021') }))
+    });
+    const result = await extractQuestionsFromPaper(paper('science-2021.txt'), provider);
+    expect(result.year).toBe('2021');
+    expect(result.sourceFile).toBe('science-2021.txt');
+    expect(result.questions.map(q => q.text)).toEqual(recordedExtraction('2021').questions.map(q => q.text));
+  });
+
+  it('groups a question repeated across papers', async () => {
+    const provider = new MockProvider({
+      clustering: JSON.stringify([
+        { normalizedQuestion: 'Define photosynthesis and explain its significance.', type: 'Short Question', memberIds: ['q1'] },
+        { normalizedQuestion: "State Newton's second law of motion.", type: 'Very Short Question', memberIds: ['q2'] }
+      ])
+    });
+    const extractions = [
+      { ...recordedExtraction('2021'), sourceFile: 'science-2021.txt' },
+      { ...recordedExtraction('2022'), sourceFile: 'science-2022.txt' }
+    ];
+    const groups = await analyzeRepeatedQuestions(extractions, provider);
+    const photosynthesis = groups.find(g => g.normalizedQuestion.startsWith('Define photosynthesis'));
+    expect(photosynthesis?.frequency).toBe(2);
+    expect(photosynthesis?.years).toEqual(['2021', '2022']);
+  });
+});
@@ -0,0 +1,75 @@
+import { CancelledError } from "../errors";
+import { DEFAULT_FIXTURES } from "./fixtures";
+import { ContentPart, GenerateJSONRequest, GenerateTextRequest, GenerationTask, LLMProvider } from "./types";
+
+export type FixtureMap = Partial<Record<string, string>>;
+
+// FNV-1a: tiny, stable across runs and good enough to key fixtures.
+const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const partFingerprint = (part: ContentPart): string =>
+  'text' in part ? part.text : `${part.inlineData.mimeType}:${part.inlineData.data}`;
+
+/**
+ * Builds the lookup key for a request: `<task>:<hash of all parts>`.
+ * Exported so fixtures can be recorded against real requests.
+ */
+export const fixtureKey = (task: GenerationTask, parts: ContentPart[]): string =>
+  `${task}:${hashString(parts.map(partFingerprint).join('\u0000'))}`;
+
+/**
+ * Reads a fixture file: a JSON object from fixture keys (or task names) to responses.
+ * Responses may be the raw text or, for JSON tasks, the parsed value.
+ */
+export const parseFixtures = (text: string): FixtureMap => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The fixture file is not valid JSON.");
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error("The fixture file must be a JSON object of responses by fixture key or task.");
+  }
+  return Object.fromEntries(
+    Object.entries(data).map(([key, response]) => [key, typeof response === 'string' ? response : JSON.stringify(response)])
+  );
+};
+
+/**
+ * Deterministic offline backend.
+ * Looks up an exact fixture for the request, then a per-task fixture, then the built-in defaults.
+ */
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock';
+
+  constructor(private fixtures: FixtureMap = {}, readonly model: string = 'fixture-replay') {}
+
+  async generateJSON({ task, parts, signal }: GenerateJSONRequest): Promise<string> {
+    if (signal?.aborted) throw new CancelledError();
+    return this.lookup(task, parts);
+  }
+
+  // Replays the fixture word by word so streaming UIs can be exercised offline, stopping when aborted.
+  async streamText({ task, parts, signal }: GenerateTextRequest, onChunk?: (chunk: string) => void): Promise<string> {
+    const text = this.lookup(task, parts);
+    for (const chunk of text.split(/(?<=\s)/)) {
+      if (signal?.aborted) throw new CancelledError();
+      onChunk?.(chunk);
+    }
+    return text;
+  }
+
+  private lookup(task: GenerationTask, parts: ContentPart[]): string {
+    return this.fixtures[fixtureKey(task, parts)]
+      ?? this.fixtures[task]
+      ?? DEFAULT_FIXTURES[task];
+  }
+}
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Type } from '@google/genai';
+import { OpenAICompatibleProvider } from './openAIProvider';
+import { ContentPart } from './types';
+
+const parts: ContentPart[] = [{ text: 'Which questions are in this paper?' }];
+const arraySchema = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+const completion = (content: string) => JSON.stringify({ choices: [{ message: { content } }] });
+
+const respondWith = (body: BodyInit) => {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body)));
+};
+
+const provider = () => new OpenAICompatibleProvider('key', 'model', 'http://localhost:1234/v1');
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OpenAICompatibleProvider.generateJSON', () => {
+  it('unwraps a root array from the object it was nested in', async () => {
+    respondWith(completion('{"items": ["a", "b"]}'));
+    expect(await provider().generateJSON({ task: 'extraction', parts, schema: arraySchema })).toBe('["a","b"]');
+  });
+
+  it('raises a parse error when the wrapper is missing', async () => {
+    for (const content of ['null', '"items"', '{"questions": []}']) {
+      respondWith(completion(content));
+      await expect(provider().generateJSON({ task: 'extraction', parts, schema: arraySchema })).rejects.toMatchObject({ kind: 'parse', rawText: content });
+    }
+  });
+
+  it('raises a parse error for a body that is not JSON or has no message', async () => {
+    respondWith('<html>Bad gateway</html>');
+    await expect(provider().generateJSON({ task: 'extraction', parts, schema: {} })).rejects.toMatchObject({ kind: 'parse' });
+    respondWith('{"choices": null}');
+    await expect(provider().generateJSON({ task: 'extraction', parts, schema: {} })).rejects.toMatchObject({ kind: 'parse' });
+  });
+});
+
+describe('OpenAICompatibleProvider.streamText', () => {
+  const event = (content: string) => new TextEncoder().encode(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+
+  it('joins the deltas of a stream', async () => {
+    respondWith(new Blob([event('Plants '), event('make food.'), new TextEncoder().encode('data: [DONE]\n\n')]).stream());
+    const chunks: string[] = [];
+    expect(await provider().streamText({ task: 'answering', parts }, chunk => chunks.push(chunk))).toBe('Plants make food.');
+    expect(chunks).toEqual(['Plants ', 'make food.']);
+  });
+
+  it('is cancelled when aborted while the answer is streaming', async () => {
+    const controller = new AbortController();
+    // Like fetch, the body stream errors once the request is aborted.
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => new Response(new ReadableStream({
+      start(stream) {
+        stream.enqueue(event('Plants '));
+        init.signal?.addEventListener('abort', () => stream.error(new DOMException('Aborted', 'AbortError')));
+      }
+    }))));
+
+    const answer = provider().streamText({ task: 'answering', parts, signal: controller.signal }, () => controller.abort());
+    await expect(answer).rejects.toMatchObject({ kind: 'cancelled' });
+  });
+});
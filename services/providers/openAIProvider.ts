@@ -0,0 +1,183 @@
+import { Schema, Type } from "@google/genai";
+import { CancelledError, errorFromStatus, LLMError, NetworkError, ParseError, SafetyBlockError } from "../errors";
+import { ContentPart, GenerateJSONRequest, GenerateTextRequest, LLMProvider } from "./types";
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+// OpenAI structured output only accepts an object at the root, so arrays are wrapped.
+const ROOT_ARRAY_KEY = 'items';
+
+/**
+ * Converts the Gemini schema dialect (upper-case OpenAPI types) to plain JSON Schema.
+ */
+const toJSONSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = schema.type.toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.items) out.items = toJSONSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJSONSchema(value)])
+    );
+  }
+  if (schema.required) out.required = schema.required;
+  return out;
+};
+
+// Reads a field of untyped JSON, e.g. a response body or stream event.
+const field = (value: unknown, key: string): unknown =>
+  typeof value === 'object' && value !== null && key in value ? (value as Record<string, unknown>)[key] : undefined;
+
+const firstChoice = (body: unknown): unknown => {
+  const choices = field(body, 'choices');
+  return Array.isArray(choices) ? choices[0] : undefined;
+};
+
+const parseJSON = (text: string, what: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new ParseError(`Invalid ${what}: ${(e as Error).message}`, text);
+  }
+};
+
+const decodeBase64Text = (data: string): string => {
+  const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+// Maps our provider-neutral parts onto the chat completions content array.
+const toMessageContent = (part: ContentPart, index: number) => {
+  if ('text' in part) return { type: 'text', text: part.text };
+
+  const { data, mimeType } = part.inlineData;
+  if (mimeType.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+  }
+  if (mimeType.startsWith('text/')) {
+    return { type: 'text', text: decodeBase64Text(data) };
+  }
+  return {
+    type: 'file',
+    file: { filename: `document-${index}`, file_data: `data:${mimeType};base64,${data}` }
+  };
+};
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API
+ * (OpenAI itself, vLLM, Ollama, LM Studio, LiteLLM, ...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = 'openai';
+
+  constructor(
+    private apiKey: string,
+    readonly model: string = DEFAULT_OPENAI_MODEL,
+    private baseUrl: string = DEFAULT_OPENAI_BASE_URL
+  ) {}
+
+  async generateJSON({ task, parts, schema, signal }: GenerateJSONRequest): Promise<string> {
+    const isRootArray = schema.type === Type.ARRAY;
+    const jsonSchema = isRootArray
+      ? { type: 'object', properties: { [ROOT_ARRAY_KEY]: toJSONSchema(schema) }, required: [ROOT_ARRAY_KEY] }
+      : toJSONSchema(schema);
+
+    const response = await this.post({
+      model: this.model,
+      messages: [{ role: 'user', content: parts.map(toMessageContent) }],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: task, schema: jsonSchema }
+      }
+    }, signal);
+
+    const choice = firstChoice(parseJSON(await response.text(), 'response body'));
+    const message = field(choice, 'message');
+    const refusal = field(message, 'refusal');
+    if (field(choice, 'finish_reason') === 'content_filter' || refusal) {
+      throw new SafetyBlockError(typeof refusal === 'string' && refusal ? refusal : "The endpoint's content filter blocked the request.");
+    }
+    const text = field(message, 'content');
+    if (typeof text !== 'string' || !text) throw new ParseError("No response from OpenAI-compatible endpoint", '');
+
+    if (!isRootArray) return text;
+
+    // Unwrap the array we had to nest under an object above.
+    const parsed = parseJSON(text, 'JSON');
+    const items = Array.isArray(parsed) ? parsed : field(parsed, ROOT_ARRAY_KEY);
+    if (!Array.isArray(items)) throw new ParseError(`Expected an object with an "${ROOT_ARRAY_KEY}" array`, text);
+    return JSON.stringify(items);
+  }
+
+  async streamText({ parts, signal }: GenerateTextRequest, onChunk?: (chunk: string) => void): Promise<string> {
+    const response = await this.post({
+      model: this.model,
+      messages: [{ role: 'user', content: parts.map(toMessageContent) }],
+      stream: true
+    }, signal);
+    if (!response.body) throw new LLMError("Streaming is not supported by this endpoint", 'unknown', false);
+
+    // Server-sent events: one `data: {json}` line per delta, terminated by `data: [DONE]`.
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    while (true) {
+      let read: ReadableStreamReadResult<Uint8Array>;
+      try {
+        read = await reader.read();
+      } catch (e) {
+        // Aborting the request errors the body stream, which surfaces here rather than in fetch.
+        if (signal?.aborted) throw new CancelledError();
+        throw new NetworkError(`The answer stream broke off: ${(e as Error).message}`);
+      }
+      const { done, value } = read;
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+        const choice = firstChoice(parseJSON(data, 'stream event'));
+        if (field(choice, 'finish_reason') === 'content_filter') {
+          throw new SafetyBlockError("The endpoint's content filter blocked the answer.");
+        }
+        const chunk = field(field(choice, 'delta'), 'content');
+        if (typeof chunk !== 'string' || !chunk) continue;
+        text += chunk;
+        onChunk?.(chunk);
+      }
+    }
+
+    if (!text) throw new ParseError("No response from OpenAI-compatible endpoint", '');
+    return text;
+  }
+
+  private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal
+      });
+    } catch (e) {
+      if (signal?.aborted) throw new CancelledError();
+      throw new NetworkError(`Could not reach ${this.baseUrl}: ${(e as Error).message}`);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const retryAfter = Number(response.headers.get('retry-after'));
+      throw errorFromStatus(response.status, detail.slice(0, 500), retryAfter > 0 ? retryAfter * 1000 : undefined);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,37 @@
+import { Schema } from "@google/genai";
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+/**
+ * The pipeline step a request belongs to.
+ * Providers may ignore it; the mock backend uses it to pick a fixture.
+ */
+export type GenerationTask = 'extraction' | 'matching' | 'clustering' | 'merging' | 'answering' | 'syllabus' | 'classification' | 'practice';
+
+export interface GenerateJSONRequest {
+  task: GenerationTask;
+  parts: ContentPart[];
+  schema: Schema;
+  /** Aborts the request when the run is cancelled. */
+  signal?: AbortSignal;
+}
+
+export interface GenerateTextRequest {
+  task: GenerationTask;
+  parts: ContentPart[];
+  signal?: AbortSignal;
+}
+
+/**
+ * Common surface for every LLM backend.
+ * Implementations return the raw JSON text; parsing stays in the service layer.
+ */
+export interface LLMProvider {
+  readonly id: string;
+  readonly model: string;
+  generateJSON(request: GenerateJSONRequest): Promise<string>;
+  /** Free-form text generation; `onChunk` receives each new piece as it arrives. Resolves to the full text. */
+  streamText(request: GenerateTextRequest, onChunk?: (chunk: string) => void): Promise<string>;
+}
@@ -0,0 +1,33 @@
+import { QuestionType, QuestionVariant } from "../types";
+
+// Highest marks for each type; anything above SHORT_MAX_MARKS is a long question.
+const VERY_SHORT_MAX_MARKS = 1;
+const SHORT_MAX_MARKS = 3;
+
+export const typeFromMarks = (marks: number): QuestionType =>
+  marks <= VERY_SHORT_MAX_MARKS ? 'Very Short Question' : marks <= SHORT_MAX_MARKS ? 'Short Question' : 'Long Question';
+
+const knownMarks = (variants: QuestionVariant[]) =>
+  variants.map(v => v.marks).filter((m): m is number => m !== undefined && m > 0);
+
+/**
+ * Mean marks over the occurrences that printed their marks, rounded to one decimal.
+ */
+export const averageMarks = (variants: QuestionVariant[]): number | undefined => {
+  const marks = knownMarks(variants);
+  if (marks.length === 0) return undefined;
+  return Math.round(10 * marks.reduce((acc, m) => acc + m, 0) / marks.length) / 10;
+};
+
+/**
+ * Type of a question from how it was actually set: MCQ when most occurrences had options,
+ * otherwise by its median marks. Without printed marks the model's guess is kept.
+ */
+export const inferQuestionType = (variants: QuestionVariant[], fallback: QuestionType): QuestionType => {
+  if (variants.filter(v => v.multipleChoice).length * 2 > variants.length) return 'MCQ';
+  const marks = knownMarks(variants).sort((a, b) => a - b);
+  if (marks.length === 0) return fallback;
+  return typeFromMarks(marks[Math.floor(marks.length / 2)]);
+};
+
+export const formatMarks = (marks: number) => `${marks} ${marks === 1 ? 'mark' : 'marks'}`;
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { splitQuestions } from './questionSplitter';
+
+const split = (...pages: string[]) => splitQuestions(pages.map((text, i) => ({ page: i + 1, text })));
+
+// The fields a test cares about, without the undefined ones.
+const summary = (text: string) => split(text).questions.map(q =>
+  Object.fromEntries(Object.entries(q).filter(([key, value]) => value !== undefined && key !== 'page')));
+
+describe('splitQuestions', () => {
+  it('reads the header and year before the first question', () => {
+    const { year, header, questions } = split('Central Board of Secondary Education\nScience, March 2021\nTime: 3 hours\n1. Define work.');
+    expect(year).toBe('2021');
+    expect(header).toBe('Central Board of Secondary Education\nScience, March 2021\nTime: 3 hours');
+    expect(questions).toHaveLength(1);
+  });
+
+  it('recognises the common numbering styles and printed marks', () => {
+    expect(summary('1. Define work. [2]\nQ2 State Ohm\'s law. (3 marks)\nQ.3 What is a cell? 1M\nQuestion 4: Derive the lens formula.     5')).toEqual([
+      { text: 'Define work.', questionNumber: '1', marks: 2 },
+      { text: "State Ohm's law.", questionNumber: '2', marks: 3 },
+      { text: 'What is a cell?', questionNumber: '3', marks: 1 },
+      { text: 'Derive the lens formula.', questionNumber: '4', marks: 5 }
+    ]);
+  });
+
+  it('joins wrapped lines and skips page furniture', () => {
+    expect(summary('1. Explain how a\nrainbow is formed.\nPage 1 of 4\nP.T.O.\n2. Define power.').map(q => q.text)).toEqual([
+      'Explain how a rainbow is formed.',
+      'Define power.'
+    ]);
+  });
+
+  it('splits sub-parts and keeps the stem on each', () => {
+    const paper = '5. A wire has a resistance of 4 ohm.\n(a) Find the current through it when it is connected across a battery of 8 V. [2]\n'
+      + '(b) Find the power it dissipates and the heat it produces in two minutes. [1]';
+    expect(summary(paper)).toEqual([
+      { text: 'A wire has a resistance of 4 ohm. Find the current through it when it is connected across a battery of 8 V.', questionNumber: '5(a)', parentNumber: '5', marks: 2 },
+      { text: 'A wire has a resistance of 4 ohm. Find the power it dissipates and the heat it produces in two minutes.', questionNumber: '5(b)', parentNumber: '5', marks: 1 }
+    ]);
+  });
+
+  it('drops an instruction stem and keeps roman items inside their sub-part', () => {
+    const paper = '6. Answer any two of the following:\n(a) Define the following terms used in mechanics:\n(i) mass\n(ii) weight\n'
+      + "(b) State Hooke's law and describe an experiment that verifies it for a spring.";
+    expect(summary(paper).map(q => [q.questionNumber, q.text])).toEqual([
+      ['6(a)', 'Define the following terms used in mechanics: (i) mass (ii) weight'],
+      ['6(b)', "State Hooke's law and describe an experiment that verifies it for a spring."]
+    ]);
+  });
+
+  it('reads short lettered options as one multiple-choice question', () => {
+    expect(summary('1. The unit of power is\n(a) joule\n(b) watt\n(c) newton\n(d) pascal')).toEqual([
+      { text: 'The unit of power is (a) joule (b) watt (c) newton (d) pascal', questionNumber: '1', multipleChoice: true }
+    ]);
+    expect(summary('2. Which is a noble gas?\n(a) He (b) O2 (c) N2 (d) H2')[0]).toMatchObject({ multipleChoice: true });
+  });
+
+  it('links internal choices to the question or part they replace', () => {
+    expect(summary('7. Explain refraction.\nOR\nExplain reflection.\n8. (a) Define speed.\nOR\n(b) Define velocity.').map(q => [q.questionNumber, q.text, q.alternativeTo])).toEqual([
+      ['7', 'Explain refraction.', undefined],
+      ['7', 'Explain reflection.', '7'],
+      ['8(a)', 'Define speed.', undefined],
+      ['8(b)', 'Define velocity.', '8(a)']
+    ]);
+  });
+
+  it('tags sections, applies marks printed once per section and lets numbering restart', () => {
+    expect(summary('SECTION A\nEach question carries 1 mark.\n1. Define work.\n2. Define power.\nSection B\n1. Derive the lens formula. [5]').map(q => [q.section, q.questionNumber, q.marks])).toEqual([
+      ['A', '1', 1],
+      ['A', '2', 1],
+      ['B', '1', 5]
+    ]);
+  });
+
+  it('ignores numbers that go backwards within a section', () => {
+    expect(summary('3. Give two examples:\n1. of a lever\n2. of a pulley').map(q => q.text)).toEqual(['Give two examples: 1. of a lever 2. of a pulley']);
+  });
+
+  it('keeps the two languages of a bilingual question on separate lines', () => {
+    expect(summary('1. Define work.\nकार्य की परिभाषा दीजिए।')[0].text).toBe('Define work.\nकार्य की परिभाषा दीजिए।');
+  });
+
+  it('records the page each question starts on', () => {
+    expect(split('1. Define work.', '2. Define power.').questions.map(q => q.page)).toEqual([1, 2]);
+  });
+
+  it('says Unknown without a year', () => {
+    expect(split('1. Define work.').year).toBe('Unknown');
+  });
+});
@@ -0,0 +1,243 @@
+import { ExtractedQuestion } from "../types";
+import { separateLanguages } from "./language";
+
+/**
+ * Rule-based question splitting for text read without a model: plain text files, PDF text
+ * layers and OCR output. It recognises numbered questions (1., Q1, Q.1, Question 1:), lettered
+ * and roman sub-parts, sections, printed marks, internal choices ("OR") and multiple-choice
+ * options, and returns the same fields the model extraction does.
+ */
+
+export interface PageText {
+  page: number; // 1-based position in the paper
+  text: string;
+}
+
+const SECTION_HEADING = /^(?:section|part)\s*[-–—:]?\s*([A-Z]|[IVX]{1,4}|\d{1,2})(?![a-z])[.:)\-–—]?\s*(.*)$/i;
+const MAIN_QUESTION = /^(?:Q(?:uestion)?\s*(?:no\.?\s*)?\.?\s*(\d{1,3})\s*[.):-]?|(\d{1,3})\s*[.)])(?:\s+|$)(.*)$/i;
+const SUB_PART = /^(?:\(([a-z]|[ivx]{2,4})\)|([a-z]|[ivx]{2,4})\)|([a-h])\.)(?:\s+|$)(.*)$/;
+const UPPER_OPTION = /^\(?([A-E])\)\s+\S/;
+const INLINE_OPTION = /\(([a-dA-D])\)/g;
+const OR_LINE = /^[-–—_*()\s]*or[-–—_*()\s]*$/i;
+const SKIP_LINE = /^(?:page\s*\d+(?:\s*of\s*\d+)?|p\.?\s*t\.?\s*o\.?|turn over|\d{1,3}|[-*_=.\s]+)$/i;
+const SECTION_MARKS = [
+  /each (?:question )?carr(?:y|ies)\s+(\d{1,2}(?:\.\d)?)\s*marks?/i,
+  /(\d{1,2}(?:\.\d)?)\s*marks?\s*each/i
+];
+const TRAILING_MARKS = [
+  /(?:^|\s)[[(]\s*(\d{1,2}(?:\.\d)?)\s*(?:marks?|m)?\s*[\])]\s*$/i, // [5], (2 marks), (3M)
+  /\s(\d{1,2}(?:\.\d)?)\s*(?:marks?|m)\s*$/i, // 5 marks, 5M
+  /\s{3,}(\d{1,2})\s*$/ // a marks column, set apart in a text layer
+];
+const YEAR = /\b(19[5-9]\d|20\d{2})\b/;
+// Stems that only introduce their sub-parts, e.g. "Answer any two of the following:".
+const INSTRUCTION_STEM = /\b(?:following|answer|attempt|any)\b/i;
+// Options longer than this are sub-parts that need a written answer.
+const MAX_OPTION_LENGTH = 60;
+const ROMAN = /^(?:i{1,3}|iv|vi{0,3}|ix|x)$/;
+
+interface PartDraft {
+  label: string;
+  lines: string[];
+  marks?: number;
+  page: number;
+  alternativeTo?: string;
+  multipleChoice?: boolean;
+}
+
+interface QuestionDraft extends PartDraft {
+  section?: string;
+  defaultMarks?: number; // printed once for the whole section
+  parts: PartDraft[];
+}
+
+const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Joins the lines of a question, keeping a line break only where a bilingual paper switches language.
+const joinLines = (lines: string[]) =>
+  separateLanguages(lines.join('\n')).map(run => clean(run.text)).join('\n');
+
+// Strips printed marks from the end of a line.
+const takeMarks = (line: string): { text: string; marks?: number } => {
+  for (const pattern of TRAILING_MARKS) {
+    const match = pattern.exec(line);
+    if (match && Number(match[1]) > 0) return { text: line.slice(0, match.index).trim(), marks: Number(match[1]) };
+  }
+  return { text: line };
+};
+
+const sectionMarksIn = (line: string): number | undefined => {
+  for (const pattern of SECTION_MARKS) {
+    const match = pattern.exec(line);
+    if (match) return Number(match[1]);
+  }
+  return undefined;
+};
+
+const isOptionLine = (line: string) => UPPER_OPTION.test(line) || (line.match(INLINE_OPTION)?.length ?? 0) >= 3;
+
+const letterIndex = (label: string) => label.charCodeAt(0) - 97;
+
+// A short run of (a), (b), (c)... after a stem reads as the options of one question.
+const looksLikeOptions = (draft: QuestionDraft) =>
+  draft.lines.length > 0
+  && draft.parts.length >= 2 && draft.parts.length <= 6
+  && draft.parts.every((p, i) => p.label.length === 1 && letterIndex(p.label) === i && !p.alternativeTo)
+  && draft.parts.every(p => clean(p.lines.join(' ')).length <= MAX_OPTION_LENGTH);
+
+const toQuestions = (draft: QuestionDraft): ExtractedQuestion[] => {
+  const stem = joinLines(draft.lines);
+  const base = { section: draft.section, page: draft.page };
+
+  if (draft.parts.length === 0 || looksLikeOptions(draft)) {
+    const options = draft.parts.map(p => `(${p.label}) ${clean(p.lines.join(' '))}`);
+    return [{
+      ...base,
+      text: [stem, ...options].join(' ').trim(),
+      questionNumber: draft.label,
+      marks: draft.marks ?? draft.parts.find(p => p.marks)?.marks ?? draft.defaultMarks,
+      alternativeTo: draft.alternativeTo,
+      multipleChoice: draft.multipleChoice || options.length > 0 || undefined
+    }];
+  }
+
+  const sharedStem = stem && !(stem.endsWith(':') && INSTRUCTION_STEM.test(stem)) ? stem : '';
+  return draft.parts.map(part => ({
+    ...base,
+    page: part.page,
+    text: `${sharedStem} ${joinLines(part.lines)}`.trim(),
+    questionNumber: `${draft.label}(${part.label})`,
+    parentNumber: draft.label,
+    marks: part.marks ?? draft.defaultMarks,
+    alternativeTo: part.alternativeTo && `${draft.label}(${part.alternativeTo})`,
+    multipleChoice: part.multipleChoice
+  }));
+};
+
+/**
+ * Splits the text of a paper into questions and finds its year.
+ * Text before the first question is returned as the paper's header.
+ */
+export const splitQuestions = (pages: PageText[]): { year: string; header: string; questions: ExtractedQuestion[] } => {
+  const drafts: QuestionDraft[] = [];
+  const header: string[] = [];
+  let current: QuestionDraft | null = null;
+  let currentPart: PartDraft | null = null;
+  let section: string | undefined;
+  let sectionMarks: number | undefined;
+  let lastNumber = 0;
+  let numberingMayRestart = false;
+  // What the last "OR" offers an alternative to.
+  let orTarget: { main: QuestionDraft; part: PartDraft | null } | null = null;
+
+  const startQuestion = (label: string, page: number, alternativeTo?: string) => {
+    current = { label, lines: [], page, section, defaultMarks: sectionMarks, alternativeTo, parts: [] };
+    currentPart = null;
+    drafts.push(current);
+  };
+
+  const startPart = (label: string, page: number, alternativeTo?: string) => {
+    currentPart = { label, lines: [], page, alternativeTo };
+    current!.parts.push(currentPart);
+  };
+
+  // Adds text to whatever is being read, taking printed marks off the end.
+  const append = (line: string) => {
+    const { text, marks } = takeMarks(line);
+    const target = currentPart ?? current!;
+    if (text) target.lines.push(text);
+    if (marks !== undefined && target.marks === undefined) target.marks = marks;
+  };
+
+  pages.forEach(({ page, text }) => {
+    text.split('\n').map(line => line.trim()).forEach(line => {
+      if (!line || SKIP_LINE.test(line)) return;
+
+      const heading = SECTION_HEADING.exec(line);
+      if (heading && line.length <= 80) {
+        section = heading[1].toUpperCase();
+        sectionMarks = sectionMarksIn(line);
+        current = null;
+        currentPart = null;
+        orTarget = null;
+        numberingMayRestart = true;
+        return;
+      }
+
+      if (OR_LINE.test(line)) {
+        if (current) orTarget = { main: current, part: currentPart };
+        return;
+      }
+
+      const marksForSection = sectionMarksIn(line);
+      if (marksForSection !== undefined && (!current || line.length <= 60)) {
+        sectionMarks = marksForSection;
+        if (current && current.parts.length === 0 && current.lines.length === 0) current.defaultMarks = marksForSection;
+        return;
+      }
+
+      const main = MAIN_QUESTION.exec(line);
+      const number = main ? Number(main[1] ?? main[2]) : NaN;
+      if (main && (number > lastNumber || numberingMayRestart) && !(currentPart && isOptionLine(line))) {
+        const target = orTarget as { main: QuestionDraft; part: PartDraft | null } | null;
+        startQuestion(String(number), page, target && !target.part ? target.main.label : undefined);
+        lastNumber = number;
+        numberingMayRestart = false;
+        orTarget = null;
+        const rest = main[3].trim();
+        const sub = SUB_PART.exec(rest);
+        if (sub) {
+          startPart(sub[1] ?? sub[2] ?? sub[3], page);
+          if (sub[4]) append(sub[4]);
+        } else if (rest) {
+          append(rest);
+        }
+        return;
+      }
+
+      if (!current) {
+        if (page === pages[0]?.page) header.push(line);
+        return;
+      }
+      const question = current as QuestionDraft;
+
+      if (isOptionLine(line)) {
+        const target = (currentPart ?? question) as PartDraft;
+        target.multipleChoice = true;
+        append(line);
+        return;
+      }
+
+      const sub = SUB_PART.exec(line);
+      if (sub) {
+        const label = sub[1] ?? sub[2] ?? sub[3];
+        const part = currentPart as PartDraft | null;
+        // (i), (ii)... inside a lettered sub-part belong to that sub-part; "(i)" straight after "(h)" is a letter.
+        const nested = part && ROMAN.test(label) && !ROMAN.test(part.label) && !(label === 'i' && part.label === 'h');
+        if (nested) {
+          append(line);
+          return;
+        }
+        const target = orTarget as { main: QuestionDraft; part: PartDraft | null } | null;
+        startPart(label, page, target?.main === question && target.part ? target.part.label : undefined);
+        orTarget = null;
+        if (sub[4]) append(sub[4]);
+        return;
+      }
+
+      // Unnumbered text after "OR" is the alternative itself, printed without a label of its own.
+      const target = orTarget as { main: QuestionDraft; part: PartDraft | null } | null;
+      if (target) {
+        orTarget = null;
+        if (target.part && target.main === question) startPart(target.part.label, page, target.part.label);
+        else startQuestion(target.main.label, page, target.main.label);
+      }
+      append(line);
+    });
+  });
+
+  const firstPage = pages[0]?.text ?? '';
+  const year = YEAR.exec(header.join('\n'))?.[1] ?? YEAR.exec(firstPage)?.[1] ?? 'Unknown';
+  const questions = drafts.flatMap(toQuestions).filter(q => q.text.length >= 3);
+  return { year, header: header.join('\n'), questions };
+};
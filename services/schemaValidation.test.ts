@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { Schema, Type } from '@google/genai';
+import { validateSchema } from './schemaValidation';
+
+const questionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING },
+    marks: { type: Type.NUMBER },
+    page: { type: Type.INTEGER },
+    multipleChoice: { type: Type.BOOLEAN },
+    type: { type: Type.STRING, enum: ['Long Question', 'MCQ'] },
+    section: { type: Type.STRING, nullable: true }
+  },
+  required: ['text', 'type']
+};
+
+const extractionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: { year: { type: Type.STRING }, questions: { type: Type.ARRAY, items: questionSchema } },
+  required: ['year', 'questions']
+};
+
+describe('validateSchema', () => {
+  it('accepts a response that matches', () => {
+    expect(validateSchema({
+      year: '2021',
+      questions: [{ text: 'Define work.', type: 'Long Question', marks: 2.5, page: 1, multipleChoice: false, section: null }]
+    }, extractionSchema)).toEqual([]);
+  });
+
+  it('reports missing required fields by path', () => {
+    expect(validateSchema({ questions: [{ text: 'Define work.' }] }, extractionSchema)).toEqual([
+      '$.year is required',
+      '$.questions[0].type is required'
+    ]);
+  });
+
+  it('reports wrong types and values outside an enum', () => {
+    expect(validateSchema({ year: 2021, questions: [{ text: 'x', type: 'Essay', marks: '2', page: 1.5, multipleChoice: 'no' }] }, extractionSchema)).toEqual([
+      '$.year should be a string',
+      '$.questions[0].marks should be a number',
+      '$.questions[0].page should be an integer',
+      '$.questions[0].multipleChoice should be a boolean',
+      '$.questions[0].type should be one of "Long Question", "MCQ"'
+    ]);
+  });
+
+  it('checks the shape of objects and arrays', () => {
+    expect(validateSchema([], extractionSchema)).toEqual(['$ should be an object']);
+    expect(validateSchema({ year: '2021', questions: {} }, extractionSchema)).toEqual(['$.questions should be an array']);
+    expect(validateSchema({ year: '2021', questions: ['Define work.'] }, extractionSchema)).toEqual(['$.questions[0] should be an object']);
+  });
+
+  it('rejects numbers that JSON cannot carry', () => {
+    expect(validateSchema(Number.NaN, { type: Type.NUMBER })).toEqual(['$ should be a number']);
+  });
+
+  it('allows null only where the schema is nullable', () => {
+    expect(validateSchema(null, extractionSchema)).toEqual(['$ is missing']);
+    expect(validateSchema(null, { type: Type.STRING, nullable: true })).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import { Schema, Type } from "@google/genai";
+
+/**
+ * Checks a parsed model response against the same schema that was sent as `responseSchema`.
+ * Returns human-readable issues (empty when valid); they are also fed back to the model for repair.
+ */
+export const validateSchema = (value: unknown, schema: Schema, path = '$'): string[] => {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path} is missing`];
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path} should be an object`];
+      const record = value as Record<string, unknown>;
+      const issues = (schema.required || [])
+        .filter(key => record[key] === undefined || record[key] === null)
+        .map(key => `${path}.${key} is required`);
+      Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+        if (record[key] !== undefined && record[key] !== null) {
+          issues.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      });
+      return issues;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      if (!schema.items) return [];
+      return value.flatMap((item, i) => validateSchema(item, schema.items!, `${path}[${i}]`));
+    }
+    case Type.STRING: {
+      if (typeof value !== 'string') return [`${path} should be a string`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} should be one of ${schema.enum.map(e => `"${e}"`).join(', ')}`];
+      }
+      return [];
+    }
+    case Type.NUMBER:
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} should be a number`];
+    case Type.INTEGER:
+      return Number.isInteger(value) ? [] : [`${path} should be an integer`];
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+    default:
+      return [];
+  }
+};
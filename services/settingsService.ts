@@ -0,0 +1,60 @@
+import { AppSettings, LLMSettings, ProviderId } from "../types";
+import { DEFAULT_BASE_URL, DEFAULT_MODELS } from "./providers";
+import { DEFAULT_SIMILARITY_THRESHOLD } from "./similarityService";
+import { DEFAULT_CONCURRENCY } from "./jobQueue";
+
+const SETTINGS_STORAGE_KEY = 'examrepo.settings';
+
+// Injected by Vite from .env.local. It is a Gemini key, so it is never sent to another provider, and never saved.
+const BUILT_IN_GEMINI_KEY = process.env.API_KEY || '';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: 'gemini',
+  model: DEFAULT_MODELS.gemini,
+  apiKeys: {},
+  baseUrl: DEFAULT_BASE_URL,
+  similarityThreshold: DEFAULT_SIMILARITY_THRESHOLD,
+  concurrency: DEFAULT_CONCURRENCY,
+  offline: false,
+  answerLanguage: ''
+};
+
+/** Whether the provider has a key from the build to fall back on when none is entered. */
+export const hasBuiltInKey = (provider: ProviderId) => provider === 'gemini' && BUILT_IN_GEMINI_KEY !== '';
+
+/**
+ * The settings the chosen provider is created with: the key entered for it, or for Gemini the build-time key.
+ */
+export const llmSettings = (settings: AppSettings): LLMSettings => ({
+  provider: settings.provider,
+  model: settings.model,
+  baseUrl: settings.baseUrl,
+  fixtures: settings.fixtures,
+  apiKey: settings.apiKeys[settings.provider] || (settings.provider === 'gemini' ? BUILT_IN_GEMINI_KEY : '')
+});
+
+// Settings saved before keys were kept per provider hold one key, entered for the provider chosen at the time.
+type StoredSettings = Partial<AppSettings> & { apiKey?: string };
+
+const migrateApiKey = ({ apiKey, ...stored }: StoredSettings): Partial<AppSettings> => {
+  if (stored.apiKeys || !apiKey || apiKey === BUILT_IN_GEMINI_KEY) return stored;
+  return { ...stored, apiKeys: { [stored.provider ?? DEFAULT_SETTINGS.provider]: apiKey } };
+};
+
+/**
+ * Reads provider and analysis settings from localStorage.
+ */
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    return { ...DEFAULT_SETTINGS, ...migrateApiKey(JSON.parse(raw) as StoredSettings) };
+  } catch (e) {
+    console.warn("Failed to read saved settings, using defaults", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { averageSimilarity, clusterBySimilarity, cosineSimilarity, DEFAULT_SIMILARITY_THRESHOLD, denseToSparse, TfIdfVectorizer, tokenize } from './similarityService';
+
+describe('tokenize', () => {
+  it('drops stop words and one-letter tokens and stems plurals and tenses', () => {
+    expect(tokenize('Define the terms: a Resistor, resistors and resisted.')).toEqual(['define', 'term', 'resistor', 'resistor', 'resist']);
+  });
+
+  it('keeps Indic vowel signs inside their words', () => {
+    expect(tokenize('प्रकाश संश्लेषण क्या है?')).toEqual(['प्रकाश', 'संश्लेषण', 'क्या', 'है']);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('is 1 for the same direction and 0 for unrelated vectors', () => {
+    expect(cosineSimilarity(denseToSparse([3, 4]), denseToSparse([6, 8]))).toBeCloseTo(1);
+    expect(cosineSimilarity(denseToSparse([1, 0]), denseToSparse([0, 1]))).toBe(0);
+  });
+});
+
+describe('clusterBySimilarity', () => {
+  const cluster = async (texts: string[], threshold = DEFAULT_SIMILARITY_THRESHOLD) =>
+    clusterBySimilarity(await new TfIdfVectorizer().vectorize(texts), threshold);
+
+  it('groups rewordings of a question and keeps others apart', async () => {
+    expect(await cluster([
+      'Define photosynthesis and explain its significance.',
+      "State Newton's second law of motion.",
+      'Define photosynthesis. Explain its significance.',
+      "State Newton's second law of motion with an example."
+    ])).toEqual([[0, 2], [1, 3]]);
+  });
+
+  it('links chains of similar questions (single linkage)', () => {
+    const vectors = [denseToSparse([1, 0, 0]), denseToSparse([1, 1, 0]), denseToSparse([0, 1, 1]), denseToSparse([0, 0, 1])];
+    expect(clusterBySimilarity(vectors, 0.7)).toEqual([[0, 1], [2, 3]]);
+    expect(clusterBySimilarity(vectors, 0.45)).toEqual([[0, 1, 2, 3]]);
+  });
+
+  it('puts every question on its own at a threshold above 1', async () => {
+    expect(await cluster(['Define work.', 'Define work.'], 1.01)).toEqual([[0], [1]]);
+  });
+});
+
+describe('averageSimilarity', () => {
+  it('is the mean over all pairs, and 1 for a single vector', () => {
+    const a = denseToSparse([1, 0]);
+    const b = denseToSparse([0, 1]);
+    expect(averageSimilarity([a])).toBe(1);
+    expect(averageSimilarity([a, a, b])).toBeCloseTo(1 / 3);
+  });
+});
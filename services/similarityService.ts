@@ -0,0 +1,143 @@
+/**
+ * Local, deterministic text similarity used to pre-cluster near-duplicate questions
+ * before the LLM sees them. Everything here runs offline.
+ */
+
+// Sparse vector: dimension index -> weight. Vectors are L2-normalised.
+export type SparseVector = Map<number, number>;
+
+/**
+ * Turns question texts into comparable vectors.
+ * The default is TF-IDF; an embedding model can be plugged in via `denseToSparse`.
+ */
+export interface Vectorizer {
+  vectorize(texts: string[]): Promise<SparseVector[]>;
+}
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.6;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'in', 'on', 'to', 'for', 'and', 'or', 'is', 'are', 'was', 'were', 'be',
+  'by', 'with', 'its', 'it', 'this', 'that', 'these', 'those', 'as', 'at', 'from', 'do', 'does',
+  'you', 'your', 'what', 'which', 'how', 'why', 'when', 'where', 'who', 'any', 'some', 'give', 'write'
+]);
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKC')
+    // Combining marks belong to the word: Indic vowel signs would otherwise split every word apart.
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    // Light stemming so "define"/"defined"/"defines" share a term.
+    .map(token => token.replace(/(ing|ed|es|s)$/u, '') || token);
+
+const normalize = (vector: SparseVector): SparseVector => {
+  let norm = 0;
+  vector.forEach(w => { norm += w * w; });
+  norm = Math.sqrt(norm);
+  if (norm === 0) return vector;
+  const out: SparseVector = new Map();
+  vector.forEach((w, i) => out.set(i, w / norm));
+  return out;
+};
+
+export const denseToSparse = (dense: number[]): SparseVector =>
+  normalize(new Map(dense.map((w, i) => [i, w] as [number, number]).filter(([, w]) => w !== 0)));
+
+export class TfIdfVectorizer implements Vectorizer {
+  async vectorize(texts: string[]): Promise<SparseVector[]> {
+    const vocabulary = new Map<string, number>();
+    const documentFrequency: number[] = [];
+    const termCounts = texts.map(text => {
+      const counts = new Map<number, number>();
+      tokenize(text).forEach(token => {
+        if (!vocabulary.has(token)) {
+          vocabulary.set(token, vocabulary.size);
+          documentFrequency.push(0);
+        }
+        const index = vocabulary.get(token)!;
+        counts.set(index, (counts.get(index) || 0) + 1);
+      });
+      counts.forEach((_, index) => { documentFrequency[index]++; });
+      return counts;
+    });
+
+    return termCounts.map(counts => {
+      const vector: SparseVector = new Map();
+      counts.forEach((count, index) => {
+        // Smoothed IDF keeps terms shared by every document from collapsing to zero.
+        const idf = Math.log((1 + texts.length) / (1 + documentFrequency[index])) + 1;
+        vector.set(index, (1 + Math.log(count)) * idf);
+      });
+      return normalize(vector);
+    });
+  }
+}
+
+export const cosineSimilarity = (a: SparseVector, b: SparseVector): number => {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((w, i) => {
+    const other = large.get(i);
+    if (other !== undefined) dot += w * other;
+  });
+  return dot;
+};
+
+/**
+ * Single-linkage clustering: any pair at or above `threshold` ends up in the same cluster.
+ * Only pairs that share at least one dimension are compared, via an inverted index.
+ * Returns clusters as lists of input indices, in order of first appearance.
+ */
+export const clusterBySimilarity = (vectors: SparseVector[], threshold: number): number[][] => {
+  const parent = vectors.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const postings = new Map<number, number[]>();
+  vectors.forEach((vector, docIndex) => {
+    const candidates = new Set<number>();
+    vector.forEach((_, dim) => postings.get(dim)?.forEach(other => candidates.add(other)));
+
+    candidates.forEach(other => {
+      if (cosineSimilarity(vector, vectors[other]) >= threshold) {
+        parent[find(docIndex)] = find(other);
+      }
+    });
+
+    vector.forEach((_, dim) => {
+      if (!postings.has(dim)) postings.set(dim, []);
+      postings.get(dim)!.push(docIndex);
+    });
+  });
+
+  const clusters = new Map<number, number[]>();
+  vectors.forEach((_, i) => {
+    const root = find(i);
+    if (!clusters.has(root)) clusters.set(root, []);
+    clusters.get(root)!.push(i);
+  });
+  return Array.from(clusters.values());
+};
+
+/**
+ * Mean pairwise cosine similarity of a set of vectors (1 for a single vector).
+ */
+export const averageSimilarity = (vectors: SparseVector[]): number => {
+  if (vectors.length < 2) return 1;
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < vectors.length; i++) {
+    for (let j = i + 1; j < vectors.length; j++) {
+      total += cosineSimilarity(vectors[i], vectors[j]);
+      pairs++;
+    }
+  }
+  return total / pairs;
+};
@@ -0,0 +1,75 @@
+import { ContentPart, GenerateJSONRequest, LLMProvider } from "./providers";
+import { LLMError, ParseError, RateLimitError, SchemaValidationError, toLLMError } from "./errors";
+import { validateSchema } from "./schemaValidation";
+import { backoffDelay, RunController, sleep } from "./jobQueue";
+import { reportProblem } from "./diagnostics";
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  onRetry?: (error: LLMError, attempt: number) => void;
+  /** Shared run control: requests wait for its checkpoint and rate limits cool down the whole run. */
+  controller?: RunController;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1_000;
+// The broken output is echoed back for repair; cap it so a huge response cannot blow the prompt.
+const MAX_ECHOED_RESPONSE_CHARS = 20_000;
+
+const repairPart = (error: ParseError | SchemaValidationError): ContentPart => ({
+  text: `Your previous response could not be used.
+    PROBLEM: ${error instanceof SchemaValidationError ? error.issues.slice(0, 20).join('; ') : error.message}
+    PREVIOUS RESPONSE:
+    ${error.rawText.slice(0, MAX_ECHOED_RESPONSE_CHARS)}
+
+    Return the COMPLETE corrected JSON for the original task. Output JSON only.`
+});
+
+/**
+ * Calls the provider, parses and validates the JSON against the request schema.
+ * Transient failures are retried with exponential backoff; malformed or invalid output is
+ * retried by asking the model to repair its own response. Non-retryable errors are thrown at once.
+ */
+export const generateValidatedJSON = async <T,>(
+  provider: LLMProvider,
+  request: GenerateJSONRequest,
+  { maxAttempts = DEFAULT_MAX_ATTEMPTS, baseDelayMs = DEFAULT_BASE_DELAY_MS, onRetry, controller }: RetryOptions = {}
+): Promise<T> => {
+  let parts = request.parts;
+  const signal = request.signal ?? controller?.signal;
+
+  for (let attempt = 1; ; attempt++) {
+    await controller?.checkpoint();
+    let error: LLMError;
+    try {
+      const text = await provider.generateJSON({ ...request, parts, signal });
+
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch (e) {
+        throw new ParseError(`Invalid JSON: ${(e as Error).message}`, text);
+      }
+
+      const issues = validateSchema(value, request.schema);
+      if (issues.length > 0) throw new SchemaValidationError(issues, text);
+      return value as T;
+    } catch (e) {
+      error = toLLMError(e);
+    }
+
+    if (!error.retryable || attempt >= maxAttempts) throw error;
+    onRetry?.(error, attempt);
+    reportProblem('warn', `Retrying ${request.task} (attempt ${attempt + 1}/${maxAttempts}):`, error.message);
+
+    if (error instanceof ParseError || error instanceof SchemaValidationError) {
+      parts = [...request.parts, repairPart(error)];
+    } else {
+      const delay = backoffDelay(attempt, baseDelayMs, error instanceof RateLimitError ? error.retryAfterMs : undefined);
+      // A rate limit applies to the whole key, so hold every worker of the run, not just this one.
+      if (controller && error instanceof RateLimitError) controller.coolDown(delay);
+      else await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisGroup } from '../types';
+import { CardState, describeInterval, NEW_CARDS_PER_SESSION, reviewCard, studyQueue, studyStats } from './studyService';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2024, 0, 1);
+
+const group = (id: string, frequency = 1): AnalysisGroup => ({
+  id,
+  normalizedQuestion: `Question ${id}`,
+  type: 'Short Question',
+  years: ['2021'],
+  frequency,
+  answer: '',
+  variants: [{ text: `Question ${id}`, sourceFile: 'science-2021.pdf', year: '2021' }]
+});
+
+const card = (changes: Partial<CardState>): CardState => ({ ease: 2.5, interval: 6, repetitions: 2, due: now, lapses: 0, ...changes });
+
+describe('reviewCard (SM-2)', () => {
+  it('schedules a passed card after 1 day, then 6 days, then interval times ease', () => {
+    const first = reviewCard(undefined, 'good', 1, now);
+    expect(first).toEqual({ ease: 2.5, interval: 1, repetitions: 1, due: now + DAY, lapses: 0 });
+    const second = reviewCard(first, 'good', 1, now);
+    expect(second).toMatchObject({ interval: 6, repetitions: 2 });
+    expect(reviewCard(second, 'good', 1, now)).toMatchObject({ interval: 15, repetitions: 3, due: now + 15 * DAY });
+  });
+
+  it('adjusts the ease by grade', () => {
+    expect(reviewCard(card({}), 'easy', 1, now).ease).toBeCloseTo(2.6);
+    expect(reviewCard(card({}), 'hard', 1, now).ease).toBeCloseTo(2.36);
+    expect(reviewCard(card({}), 'again', 1, now).ease).toBeCloseTo(1.96);
+  });
+
+  it('starts a forgotten card over within the session and counts the lapse', () => {
+    expect(reviewCard(card({ repetitions: 5, interval: 40, lapses: 1 }), 'again', 1, now))
+      .toMatchObject({ interval: 0, repetitions: 0, due: now + 10 * 60 * 1000, lapses: 2 });
+    // A new card failed on first sight has not lapsed.
+    expect(reviewCard(undefined, 'again', 1, now).lapses).toBe(0);
+  });
+
+  it('never lets the ease fall below 1.3', () => {
+    let state: CardState | undefined;
+    for (let i = 0; i < 10; i++) state = reviewCard(state, 'again', 1, now);
+    expect(state!.ease).toBe(1.3);
+  });
+
+  it('brings frequently asked questions back sooner', () => {
+    const rare = reviewCard(card({ repetitions: 1, interval: 1 }), 'good', 1, now);
+    const frequent = reviewCard(card({ repetitions: 1, interval: 1 }), 'good', 4, now);
+    expect(rare.interval).toBe(6);
+    expect(frequent.interval).toBe(5);
+    expect(reviewCard(undefined, 'good', 64, now).interval).toBe(1);
+  });
+});
+
+describe('studyQueue', () => {
+  it('puts due cards first, oldest first, then new cards by frequency', () => {
+    const groups = [group('new-rare', 1), group('later'), group('due-recent'), group('new-frequent', 5), group('due-old')];
+    const progress = {
+      later: card({ due: now + DAY }),
+      'due-recent': card({ due: now - DAY }),
+      'due-old': card({ due: now - 3 * DAY })
+    };
+    expect(studyQueue(groups, progress, now).map(g => g.id)).toEqual(['due-old', 'due-recent', 'new-frequent', 'new-rare']);
+  });
+
+  it('introduces a limited number of new cards per session', () => {
+    const groups = Array.from({ length: NEW_CARDS_PER_SESSION + 5 }, (_, i) => group(`g${i}`));
+    expect(studyQueue(groups, {}, now)).toHaveLength(NEW_CARDS_PER_SESSION);
+  });
+});
+
+describe('studyStats', () => {
+  it('counts new, due, learning and mastered cards', () => {
+    const groups = ['new', 'due', 'learning', 'mastered'].map(id => group(id));
+    const progress = {
+      due: card({ due: now }),
+      learning: card({ due: now + DAY, interval: 6 }),
+      mastered: card({ due: now + 30 * DAY, interval: 30 })
+    };
+    expect(studyStats(groups, progress, now)).toEqual({ newCards: 1, due: 1, learning: 1, mastered: 1 });
+  });
+});
+
+describe('describeInterval', () => {
+  it('reads in minutes, days or months', () => {
+    expect(describeInterval(card({ due: now + 10 * 60 * 1000 }), now)).toBe('10 min');
+    expect(describeInterval(card({ due: now + DAY }), now)).toBe('1 day');
+    expect(describeInterval(card({ due: now + 6 * DAY }), now)).toBe('6 days');
+    expect(describeInterval(card({ due: now + 61 * DAY }), now)).toBe('2 mo');
+  });
+});
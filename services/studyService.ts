@@ -0,0 +1,112 @@
+import { AnalysisGroup } from "../types";
+
+const STUDY_STORAGE_PREFIX = 'examrepo.study.';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A forgotten card comes back within the same session.
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// Cards reviewed at intervals of this many days or more count as mastered.
+const MASTERED_INTERVAL_DAYS = 21;
+// New cards introduced per session, most frequently asked first.
+export const NEW_CARDS_PER_SESSION = 20;
+// How much more often frequent questions come back; each doubling of frequency
+// shortens the interval by this share of the original.
+const FREQUENCY_WEIGHT = 0.15;
+
+// SM-2 quality grades, reduced to the four answers a student actually gives.
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export interface CardState {
+  ease: number;
+  interval: number; // days until the next review after the last successful one
+  repetitions: number; // successful reviews in a row
+  due: number; // timestamp
+  lapses: number;
+}
+
+// Per analysis: group id -> schedule. Groups without an entry are new cards.
+export type StudyProgress = Record<string, CardState>;
+
+export interface StudyStats {
+  newCards: number;
+  due: number;
+  learning: number;
+  mastered: number;
+}
+
+const storageKey = (analysisId: string) => `${STUDY_STORAGE_PREFIX}${analysisId}`;
+
+export const loadStudyProgress = (analysisId: string): StudyProgress => {
+  try {
+    const raw = localStorage.getItem(storageKey(analysisId));
+    return raw ? JSON.parse(raw) as StudyProgress : {};
+  } catch (e) {
+    console.warn("Failed to read study progress, starting fresh", e);
+    return {};
+  }
+};
+
+export const saveStudyProgress = (analysisId: string, progress: StudyProgress) => {
+  localStorage.setItem(storageKey(analysisId), JSON.stringify(progress));
+};
+
+export const clearStudyProgress = (analysisId: string) => localStorage.removeItem(storageKey(analysisId));
+
+const frequencyFactor = (frequency: number) => 1 / (1 + FREQUENCY_WEIGHT * Math.log2(Math.max(frequency, 1)));
+
+/**
+ * SM-2: a failed card starts over, a passed one moves to 1 day, then 6 days, then the
+ * previous interval times its ease. Intervals shrink for frequently asked questions.
+ */
+export const reviewCard = (state: CardState | undefined, grade: ReviewGrade, frequency: number, now = Date.now()): CardState => {
+  const quality = GRADE_QUALITY[grade];
+  const current = state ?? { ease: INITIAL_EASE, interval: 0, repetitions: 0, due: now, lapses: 0 };
+  const ease = Math.max(MIN_EASE, current.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  if (quality < 3) {
+    return { ease, interval: 0, repetitions: 0, due: now + RELEARN_DELAY_MS, lapses: current.lapses + (state ? 1 : 0) };
+  }
+
+  const repetitions = current.repetitions + 1;
+  const baseInterval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : current.interval * ease;
+  const interval = Math.max(1, Math.round(baseInterval * frequencyFactor(frequency)));
+  return { ease, interval, repetitions, due: now + interval * DAY_MS, lapses: current.lapses };
+};
+
+/**
+ * The next session: cards that are due (oldest first), then new cards by frequency.
+ */
+export const studyQueue = (groups: AnalysisGroup[], progress: StudyProgress, now = Date.now()): AnalysisGroup[] => {
+  const due = groups
+    .filter(g => progress[g.id] && progress[g.id].due <= now)
+    .sort((a, b) => progress[a.id].due - progress[b.id].due);
+  const fresh = groups
+    .filter(g => !progress[g.id])
+    .sort((a, b) => b.frequency - a.frequency)
+    .slice(0, NEW_CARDS_PER_SESSION);
+  return [...due, ...fresh];
+};
+
+export const studyStats = (groups: AnalysisGroup[], progress: StudyProgress, now = Date.now()): StudyStats => {
+  const stats: StudyStats = { newCards: 0, due: 0, learning: 0, mastered: 0 };
+  groups.forEach(g => {
+    const state = progress[g.id];
+    if (!state) stats.newCards++;
+    else if (state.due <= now) stats.due++;
+    else if (state.interval >= MASTERED_INTERVAL_DAYS) stats.mastered++;
+    else stats.learning++;
+  });
+  return stats;
+};
+
+/** "10 min", "1 day", "6 days", "2 mo" for the grade buttons. */
+export const describeInterval = (state: CardState, now = Date.now()): string => {
+  const ms = state.due - now;
+  if (ms < DAY_MS) return `${Math.max(1, Math.round(ms / 60_000))} min`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 60) return `${days} ${days === 1 ? 'day' : 'days'}`;
+  return `${Math.round(days / 30)} mo`;
+};
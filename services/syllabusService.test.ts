@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseSyllabusText } from './syllabusService';
+
+const chapters = (text: string) =>
+  parseSyllabusText(text).units.flatMap(unit => unit.chapters.map(({ name, topics }) => ({ name, topics })));
+
+describe('parseSyllabusText', () => {
+  it('keeps colons in chapter names and reads the topics after the last one', () => {
+    expect(chapters('Unit 1: Physics\nChapter 1: Light: reflection, refraction')).toEqual([
+      { name: 'Chapter 1: Light', topics: ['reflection', 'refraction'] }
+    ]);
+  });
+
+  it('reads a chapter without topics as a name only', () => {
+    expect(chapters('Unit 1: Physics\nChapter 2: Electricity\nChapter 3: Magnetism: an overview')).toEqual([
+      { name: 'Chapter 2: Electricity', topics: [] },
+      { name: 'Chapter 3: Magnetism: an overview', topics: [] }
+    ]);
+  });
+
+  it('drops a bare Chapter: or Lesson: prefix but keeps numbered ones', () => {
+    expect(chapters('Unit 2\nChapter: Optics: lenses, mirrors\nLesson: Sound\nLesson 4: Waves')).toEqual([
+      { name: 'Optics', topics: ['lenses', 'mirrors'] },
+      { name: 'Sound', topics: [] },
+      { name: 'Lesson 4: Waves', topics: [] }
+    ]);
+  });
+
+  it('collects bullet topics under the chapter above them', () => {
+    const syllabus = parseSyllabusText('# Chemistry\n## Acids\n- Indicators\n- pH scale; neutralisation');
+    expect(syllabus.units).toEqual([{
+      id: 'u1',
+      name: 'Chemistry',
+      chapters: [{ id: 'u1.c1', name: 'Acids', topics: ['Indicators', 'pH scale', 'neutralisation'] }]
+    }]);
+  });
+});
@@ -0,0 +1,258 @@
+import { Schema, Type } from "@google/genai";
+import { AnalysisGroup, AnalysisProgress, Syllabus, SyllabusChapter, SyllabusUnit } from "../types";
+import { LLMProvider } from "./providers";
+import { generateValidatedJSON } from "./structuredOutput";
+import { RunController } from "./jobQueue";
+import { fileToGenerativePart } from "./geminiService";
+import { parseYear } from "./groupFilters";
+
+const CLASSIFY_BATCH_SIZE = 80; // groups per classification call
+
+// Accepted as plain-text outlines; anything else is read by the model.
+const TEXT_SYLLABUS_TYPES = ['text/plain', 'text/markdown', ''];
+
+export interface ChapterInfo {
+  unit: SyllabusUnit;
+  chapter: SyllabusChapter;
+}
+
+/**
+ * Assigns ids by position, so the same outline always gets the same ids.
+ */
+const withIds = (units: { name: string; chapters: { name: string; topics: string[] }[] }[]): Syllabus => ({
+  units: units
+    .filter(unit => unit.name.trim())
+    .map((unit, u) => ({
+      id: `u${u + 1}`,
+      name: unit.name.trim(),
+      chapters: unit.chapters
+        .filter(chapter => chapter.name.trim())
+        .map((chapter, c) => ({
+          id: `u${u + 1}.c${c + 1}`,
+          name: chapter.name.trim(),
+          topics: chapter.topics.map(t => t.trim()).filter(Boolean)
+        }))
+    }))
+});
+
+const UNIT_PATTERN = /^(#(?!#)\s*|(unit|part|module|section)\b)/i;
+const CHAPTER_PATTERN = /^(##(?!#)\s*|(chapter|ch\.|lesson)\b)/i;
+const TOPIC_PATTERN = /^([-*•]|###|\d+(\.\d+)+\s)/;
+
+/**
+ * Parses a pasted outline. Units are lines starting with "Unit"/"#", chapters lines starting
+ * with "Chapter"/"##" (or indented under a unit), and topics are bullets or deeper indentation.
+ * Topics can also follow a chapter on the same line after a colon, separated by commas.
+ */
+export const parseSyllabusText = (text: string): Syllabus => {
+  const units: { name: string; chapters: { name: string; topics: string[] }[] }[] = [];
+  const currentUnit = () => {
+    if (units.length === 0) units.push({ name: 'General', chapters: [] });
+    return units[units.length - 1];
+  };
+  const currentChapter = () => {
+    const unit = currentUnit();
+    if (unit.chapters.length === 0) unit.chapters.push({ name: unit.name, topics: [] });
+    return unit.chapters[unit.chapters.length - 1];
+  };
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    if (!rawLine.trim()) return;
+    const indent = rawLine.match(/^\s*/)![0].replace(/\t/g, '  ').length;
+    const line = rawLine.trim();
+    const label = line.replace(/^#+\s*/, '').replace(/^[-*•]\s*/, '');
+
+    if (UNIT_PATTERN.test(line) && !CHAPTER_PATTERN.test(line)) {
+      units.push({ name: label, chapters: [] });
+    } else if (TOPIC_PATTERN.test(line) || indent >= 4) {
+      currentChapter().topics.push(...label.split(/[,;]/));
+    } else if (CHAPTER_PATTERN.test(line) || indent >= 2 || units.length > 0) {
+      // "Chapter: Optics" is just a label, while "Chapter 3: Optics" keeps its number.
+      const heading = label.replace(/^(chapter|lesson)\s*:\s*/i, '');
+      // The topic list follows the last colon, so a name may have colons of its own ("Chapter 1: Light").
+      const withTopics = /^(.*):\s+([^:]*,.*)$/.exec(heading);
+      currentUnit().chapters.push(withTopics
+        ? { name: withTopics[1], topics: withTopics[2].split(/[,;]/) }
+        : { name: heading, topics: [] });
+    } else {
+      units.push({ name: label, chapters: [] });
+    }
+  });
+
+  return withIds(units);
+};
+
+const syllabusSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING },
+      chapters: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            topics: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ["name", "topics"]
+        }
+      }
+    },
+    required: ["name", "chapters"]
+  }
+};
+
+/**
+ * Reads a syllabus file. Text outlines are parsed locally; PDFs and images go to the model.
+ */
+export const readSyllabusFile = async (file: File, provider: LLMProvider): Promise<Syllabus> => {
+  if (TEXT_SYLLABUS_TYPES.includes(file.type) || /\.(txt|md)$/i.test(file.name)) {
+    return parseSyllabusText(await file.text());
+  }
+
+  const units = await generateValidatedJSON<{ name: string; chapters: { name: string; topics: string[] }[] }[]>(provider, {
+    task: 'syllabus',
+    schema: syllabusSchema,
+    parts: [
+      await fileToGenerativePart(file),
+      {
+        text: `This is a course syllabus. Return its structure as units, each with its chapters, each with its topics.
+          - Keep the syllabus wording; do not invent units, chapters or topics.
+          - If the syllabus has no units, return a single unit named after the subject.
+          - If a chapter lists no topics, return an empty topic list.`
+      }
+    ]
+  });
+  return withIds(units);
+};
+
+export const chapterIndex = (syllabus: Syllabus): Map<string, ChapterInfo> =>
+  new Map(syllabus.units.flatMap(unit => unit.chapters.map(chapter => [chapter.id, { unit, chapter }] as const)));
+
+export const chapterLabel = (info: ChapterInfo) => `${info.unit.name} › ${info.chapter.name}`;
+
+const classificationSchema: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      chapterId: { type: Type.STRING },
+      topic: { type: Type.STRING }
+    },
+    required: ["id", "chapterId"]
+  }
+};
+
+const outline = (syllabus: Syllabus) =>
+  syllabus.units.map(unit => [
+    `${unit.id}: ${unit.name}`,
+    ...unit.chapters.map(chapter =>
+      `  ${chapter.id}: ${chapter.name}${chapter.topics.length ? ` (topics: ${chapter.topics.join('; ')})` : ''}`
+    )
+  ].join('\n')).join('\n');
+
+const classifyBatch = async (
+  batch: AnalysisGroup[],
+  syllabus: Syllabus,
+  provider: LLMProvider,
+  controller?: RunController
+): Promise<Map<string, { chapterId: string; topic?: string }>> => {
+  const ids = new Map(batch.map((group, i) => [`g${i + 1}`, group]));
+  const chapters = chapterIndex(syllabus);
+
+  const proposed = await generateValidatedJSON<{ id: string; chapterId: string; topic?: string }[]>(provider, {
+    task: 'classification',
+    schema: classificationSchema,
+    parts: [
+      {
+        text: `Classify each exam question into the chapter of this syllabus it belongs to.
+
+          SYLLABUS (chapter ids are "u<unit>.c<chapter>"):
+          ${outline(syllabus)}
+
+          RULES:
+          - Return one item per question: its id, the chapterId, and the matching topic name if one fits exactly.
+          - Use only chapter ids from the syllabus above.
+          - Leave a question out if it does not belong to any chapter.`
+      },
+      { text: JSON.stringify([...ids].map(([id, group]) => ({ id, question: group.normalizedQuestion }))) }
+    ]
+  }, { controller });
+
+  const result = new Map<string, { chapterId: string; topic?: string }>();
+  proposed.forEach(item => {
+    const group = ids.get(item.id);
+    const info = chapters.get(item.chapterId);
+    if (!group || !info) return;
+    const topic = info.chapter.topics.find(t => t.toLowerCase() === item.topic?.trim().toLowerCase());
+    result.set(group.id, { chapterId: item.chapterId, topic });
+  });
+  return result;
+};
+
+/**
+ * Places groups in the syllabus. Resolves with the updated groups; groups the model could
+ * not place are returned unchanged.
+ */
+export const classifyGroups = async (
+  groups: AnalysisGroup[],
+  syllabus: Syllabus,
+  provider: LLMProvider,
+  { onProgress, controller }: { onProgress?: (progress: AnalysisProgress) => void; controller?: RunController } = {}
+): Promise<AnalysisGroup[]> => {
+  const batches: AnalysisGroup[][] = [];
+  for (let i = 0; i < groups.length; i += CLASSIFY_BATCH_SIZE) batches.push(groups.slice(i, i + CLASSIFY_BATCH_SIZE));
+
+  const placements = new Map<string, { chapterId: string; topic?: string }>();
+  for (let i = 0; i < batches.length; i++) {
+    onProgress?.({ stage: 'classification', completed: i, total: batches.length });
+    (await classifyBatch(batches[i], syllabus, provider, controller)).forEach((placement, id) => placements.set(id, placement));
+  }
+  onProgress?.({ stage: 'classification', completed: batches.length, total: batches.length });
+
+  return groups.map(group => {
+    const placement = placements.get(group.id);
+    return placement ? { ...group, ...placement } : group;
+  });
+};
+
+export interface ChapterWeightage {
+  unit: SyllabusUnit;
+  chapter: SyllabusChapter;
+  groups: number;
+  questions: number; // occurrences across all papers
+  marks: number; // printed marks of those occurrences, summed
+  byYear: number[]; // occurrences per year, aligned with the `years` passed in
+}
+
+/**
+ * Question counts per chapter and year, the basis of the topic-weightage table.
+ */
+export const computeWeightage = (groups: AnalysisGroup[], syllabus: Syllabus, years: number[]): ChapterWeightage[] => {
+  const yearIndex = new Map(years.map((year, i) => [year, i]));
+  const rows = new Map<string, ChapterWeightage>(syllabus.units.flatMap(unit => unit.chapters.map(chapter => [chapter.id, {
+    unit,
+    chapter,
+    groups: 0,
+    questions: 0,
+    marks: 0,
+    byYear: years.map(() => 0)
+  }])));
+
+  groups.forEach(group => {
+    const row = group.chapterId ? rows.get(group.chapterId) : undefined;
+    if (!row) return;
+    row.groups++;
+    row.questions += group.variants.length;
+    group.variants.forEach(v => {
+      row.marks += v.marks ?? 0;
+      const index = yearIndex.get(parseYear(v.year) ?? NaN);
+      if (index !== undefined) row.byYear[index]++;
+    });
+  });
+
+  return Array.from(rows.values());
+};
@@ -1,35 +1,223 @@
-export interface QuestionVariant {
+// Where a question sits in its paper, as printed.
+export interface QuestionStructure {
+  questionNumber?: string; // full label, e.g. "4(b)"
+  section?: string; // "A", "B"... for papers split into sections
+  marks?: number; // marks allotted to this question or sub-part
+  parentNumber?: string; // the main question of a sub-part, e.g. "4" for "4(b)"
+  alternativeTo?: string; // questionNumber of the question this is an internal choice ("OR") for
+  multipleChoice?: boolean; // printed with options to choose from
+}
+
+// A question's wording in one language.
+export interface QuestionTranslation {
+  language: string; // ISO 639-1 code, e.g. "hi"
   text: string;
+}
+
+export interface QuestionVariant extends QuestionStructure {
+  text: string; // as printed, in its original script
+  language?: string; // ISO 639-1 code of `text`
+  translations?: QuestionTranslation[]; // the same question printed alongside in other languages (bilingual papers)
   sourceFile: string;
+  paperId?: string; // the uploaded paper it came from, as file names can repeat
   year: string;
+  session?: string; // e.g. "March", "Supplementary", when the paper names one
+  page?: number;
 }
 
+export type QuestionType = 'Long Question' | 'Short Question' | 'Very Short Question' | 'MCQ';
+
 export interface AnalysisGroup {
   id: string;
   normalizedQuestion: string;
-  type: 'Long Question' | 'Short Question' | 'Very Short Question' | 'MCQ';
+  type: QuestionType;
   years: string[];
   frequency: number;
-  variants: string[];
+  variants: QuestionVariant[];
   answer: string;
+  answerLanguage?: string; // language the answer was written in
+  similarity?: number; // mean pairwise text similarity of the merged variants (0-1)
+  editedByHand?: boolean; // regrouped or reworded by a person; kept as-is when the analysis is re-run
+  answerApproved?: boolean; // a person checked (or wrote) the answer
+  chapterId?: string; // SyllabusChapter.id of the analysis syllabus
+  topic?: string; // one of that chapter's topics, when the match is that specific
 }
 
-export interface UploadedFile {
+export type PageRotation = 0 | 90 | 180 | 270;
+
+// The part of a page to keep, as fractions (0-1) of the page after rotation.
+export interface PageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** One page of a paper: an uploaded image, or one page of an uploaded PDF. */
+export interface PaperPage {
   id: string;
   file: File;
+  pdfPage?: number; // 1-based page within a PDF file
+  rotation: PageRotation;
+  crop?: PageCrop;
+}
+
+/** What a paper is, as printed on its cover. Fields that could not be found are left out. */
+export interface PaperMetadata {
+  year?: string; // four digits, e.g. "2021"
+  session?: string; // month or term, and whether it was a supplementary sitting, e.g. "March Supplementary"
+  board?: string; // examining board or university
+  subject?: string;
+  courseCode?: string;
+  paperSet?: string; // e.g. "A" for Set A
+}
+
+export interface UploadedFile {
+  id: string;
+  file: File; // the first file of the paper; names it
+  pages?: PaperPage[]; // set once uploads are combined into one paper or its pages are rearranged, rotated or cropped
   status: 'pending' | 'processing' | 'completed' | 'error';
   extractedQuestionsCount?: number;
   detectedYear?: string;
+  fromCache?: boolean; // a cached extraction exists (pending) or was used (completed)
+  forceExtract?: boolean; // ignore the cache for this file on the next run
+  error?: string; // why the last extraction failed, shown next to a retry action
+  detectedMetadata?: PaperMetadata; // read from the file name and first page on upload
+  metadata?: PaperMetadata; // typed in before the run (wins over anything detected); after it, what the paper was analysed as
+}
+
+export interface ExtractedQuestion extends QuestionStructure {
+  text: string;
+  language?: string;
+  translations?: QuestionTranslation[];
+  page?: number;
 }
 
 export interface ExtractionResult {
-  questions: string[];
-  year: string;
+  questions: ExtractedQuestion[];
+  year: string; // four digits or "Unknown"; the same as metadata.year when that is known
   sourceFile: string;
+  paperId?: string; // the UploadedFile it was read from; not part of cached results
+  metadata?: PaperMetadata;
 }
 
 export interface AnalysisSummary {
   totalPapers: number;
   totalQuestionsExtracted: number;
   totalRepeatedGroups: number;
-}
\ No newline at end of file
+}
+export type AnswerLength = 'brief' | 'standard' | 'detailed';
+
+export type GroupSort = 'frequency' | 'recency' | 'type' | 'marks';
+
+// What the results toolbar currently shows; empty values mean "no restriction".
+export interface GroupFilters {
+  query: string;
+  types: QuestionType[];
+  yearFrom?: number;
+  yearTo?: number;
+  minFrequency: number;
+  sourceFile: string;
+  chapterId: string;
+  repeatedOnly: boolean;
+  sort: GroupSort;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LLMSettings {
+  provider: ProviderId;
+  model: string;
+  apiKey: string;
+  baseUrl: string;
+  fixtures?: Record<string, string>; // recorded responses the mock provider replays, by fixture key or task
+}
+
+export interface AppSettings extends Omit<LLMSettings, 'apiKey'> {
+  apiKeys: Partial<Record<ProviderId, string>>; // as entered in settings, so a key is only ever sent to its own provider
+  similarityThreshold: number;
+  concurrency: number; // papers extracted at the same time
+  offline: boolean; // read papers on this device and group by similarity only, without a provider
+  answerLanguage: string; // ISO 639-1 code answers are written in; empty for the language the question was asked in
+}
+
+export type AnalysisStage = 'extraction' | 'matching' | 'clustering' | 'merging' | 'classification';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  completed: number;
+  total: number;
+}
+
+export interface SyllabusChapter {
+  id: string; // stable within one syllabus, e.g. "u2.c3"
+  name: string;
+  topics: string[];
+}
+
+export interface SyllabusUnit {
+  id: string;
+  name: string;
+  chapters: SyllabusChapter[];
+}
+
+export interface Syllabus {
+  units: SyllabusUnit[];
+}
+
+export interface BlueprintSection {
+  name: string; // e.g. "Section A"
+  type: QuestionType;
+  count: number; // questions taken from the analysis
+  freshCount: number; // questions newly written by the model on less-covered topics
+  marksEach: number;
+}
+
+// What a practice paper should look like; the questions are picked to fit it.
+export interface PaperBlueprint {
+  title: string;
+  durationMinutes: number;
+  totalMarks: number; // the intended total, checked against the sections
+  sections: BlueprintSection[];
+}
+
+export interface PracticeQuestion {
+  number: number; // running number across the paper
+  text: string;
+  marks: number;
+  type: QuestionType;
+  groupId?: string; // the repeated question it was picked from; absent for newly written ones
+  answer?: string; // only for newly written questions; picked ones use their group's answer
+  topic?: string;
+}
+
+export interface PracticePaper {
+  title: string;
+  durationMinutes: number;
+  totalMarks: number;
+  sections: { name: string; questions: PracticeQuestion[]; shortfall: number }[]; // shortfall: slots that could not be filled
+}
+
+// Serializable description of an uploaded paper; the File itself is not persisted.
+export interface SourceFileMeta {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+  pageCount?: number; // for papers assembled from several files or edited page by page
+  detectedYear?: string;
+  metadata?: PaperMetadata;
+  extractedQuestionsCount?: number;
+}
+
+export interface SavedAnalysis {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  files: SourceFileMeta[];
+  extractions: ExtractionResult[];
+  groups: AnalysisGroup[];
+  summary: AnalysisSummary;
+  syllabus?: Syllabus;
+}
@@ -0,0 +1,22 @@
+import { defineConfig } from 'vite';
+
+// Builds the command-line analyzer (cli/examrepo.ts) into a single Node script.
+export default defineConfig({
+  resolve: {
+    alias: [
+      // The default PDF.js build needs browser globals (DOMMatrix, Path2D); the legacy build runs in Node.
+      { find: /^pdfjs-dist$/, replacement: 'pdfjs-dist/legacy/build/pdf.mjs' }
+    ]
+  },
+  build: {
+    ssr: 'cli/examrepo.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'examrepo.js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+});
@@ -1,7 +1,39 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createReadStream, readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const require = createRequire(import.meta.url);
+
+// What offline OCR loads, under /ocr/ (see ocrAssets in services/platform.ts). Tesseract reads
+// English with its LSTM engine and picks the build the device supports, so all three are copied.
+const OCR_ASSETS: Record<string, string> = {
+  'worker.min.js': 'tesseract.js/dist/worker.min.js',
+  'core/tesseract-core-lstm.wasm.js': 'tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'core/tesseract-core-simd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'core/tesseract-core-relaxedsimd-lstm.wasm.js': 'tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js',
+  'lang/eng.traineddata.gz': '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz'
+};
+
+/** Serves the OCR files from node_modules in development and copies them into the build. */
+const localOcrAssets = (): Plugin => ({
+  name: 'local-ocr-assets',
+  configureServer(server) {
+    server.middlewares.use(`${server.config.base}ocr`, (req, res, next) => {
+      const source = OCR_ASSETS[(req.url ?? '').split('?')[0].replace(/^\//, '')];
+      if (!source) return next();
+      res.setHeader('Content-Type', source.endsWith('.gz') ? 'application/gzip' : 'text/javascript');
+      createReadStream(require.resolve(source)).pipe(res);
+    });
+  },
+  generateBundle() {
+    for (const [fileName, source] of Object.entries(OCR_ASSETS)) {
+      this.emitFile({ type: 'asset', fileName: `ocr/${fileName}`, source: readFileSync(require.resolve(source)) });
+    }
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +41,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), localOcrAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
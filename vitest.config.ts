@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run the service layer in Node, as the command-line analyzer does.
+export default defineConfig({
+  resolve: {
+    alias: [
+      // The default PDF.js build needs browser globals (DOMMatrix, Path2D); the legacy build runs in Node.
+      { find: /^pdfjs-dist$/, replacement: 'pdfjs-dist/legacy/build/pdf.mjs' }
+    ]
+  },
+  test: {
+    environment: 'node',
+    include: ['services/**/*.test.ts', 'cli/**/*.test.ts']
+  }
+});